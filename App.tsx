@@ -6,12 +6,20 @@ import DocumentTranslator from './pages/DocumentTranslator';
 import History from './pages/History';
 import AdminDashboard from './pages/AdminDashboard';
 import AdminLogin from './pages/AdminLogin';
+import Login from './pages/Login';
+import Settings from './pages/Settings';
+import Glossary from './pages/Glossary';
+import Languages from './pages/Languages';
 import { AuthProvider, useAuth } from './services/authContext';
+import { UserRole } from './types';
 
 // Protected Route Component
-const ProtectedRoute = ({ children }: { children: React.ReactNode }) => {
-  const { isAuthenticated } = useAuth();
-  if (!isAuthenticated) {
+const ProtectedRoute = ({ children, role }: { children: React.ReactNode; role?: UserRole }) => {
+  const { isAuthenticated, isLoading, hasRole } = useAuth();
+  if (isLoading) {
+    return null;
+  }
+  if (!isAuthenticated || (role && !hasRole(role))) {
     return <Navigate to="/admin/login" replace />;
   }
   return <>{children}</>;
@@ -23,15 +31,33 @@ const AppContent = () => {
       <Route path="/" element={<Layout><Home /></Layout>} />
       <Route path="/document" element={<Layout><DocumentTranslator /></Layout>} />
       <Route path="/history" element={<Layout><History /></Layout>} />
+      <Route path="/settings" element={<Layout><Settings /></Layout>} />
+      <Route path="/login" element={<Login />} />
       <Route path="/admin/login" element={<AdminLogin />} />
       <Route 
         path="/admin/dashboard" 
         element={
-          <ProtectedRoute>
+          <ProtectedRoute role={UserRole.ADMIN}>
             <Layout><AdminDashboard /></Layout>
           </ProtectedRoute>
         } 
       />
+      <Route 
+        path="/admin/glossary" 
+        element={
+          <ProtectedRoute role={UserRole.ADMIN}>
+            <Layout><Glossary /></Layout>
+          </ProtectedRoute>
+        } 
+      />
+      <Route 
+        path="/admin/languages" 
+        element={
+          <ProtectedRoute role={UserRole.ADMIN}>
+            <Layout><Languages /></Layout>
+          </ProtectedRoute>
+        } 
+      />
     </Routes>
   );
 };
@@ -0,0 +1,194 @@
+import React, { useEffect, useState } from 'react';
+import { getJson } from '../services/api';
+import { ApiOperation, ApiUsageData } from '../types';
+import { DateRange } from '../services/dateRange';
+import KpiCard from './KpiCard';
+import { Bar, CartesianGrid, ComposedChart, Line, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Cpu, Coins, Hash, Timer, AlertTriangle } from 'lucide-react';
+
+const OPERATION_LABELS: Record<ApiOperation, string> = {
+  translate: 'Text translation',
+  translateStructured: 'Translation with alternatives',
+  translateDocument: 'Document segment',
+  translateUnits: 'Structured file segment',
+  translateFile: 'File (PDF / image)',
+  judgeQuality: 'Quality judge',
+  detectLanguage: 'Language detection',
+  refine: 'Refine',
+  insights: 'Analytics insights',
+  transcribe: 'Transcription',
+  speech: 'Speech',
+};
+
+// Sub-cent amounts are common per operation, so small costs keep more digits
+const formatCost = (usd: number) => `$${usd.toFixed(usd > 0 && usd < 1 ? 4 : 2)}`;
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+// Model calls made by every user, as logged by the server (see server/usage.ts), over the
+// dashboard's date range.
+export default function ApiUsagePanel({ range }: { range: DateRange }) {
+  const [usage, setUsage] = useState<ApiUsageData | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const query = new URLSearchParams({ from: range.from, to: range.to });
+    getJson<{ usage: ApiUsageData }>(`/api/admin/usage?${query}`)
+      .then(result => {
+        if (!cancelled) setUsage(result.usage);
+      })
+      .catch(error => console.error("API usage error:", error));
+    return () => { cancelled = true; };
+  }, [range]);
+
+  if (!usage) return null;
+
+  const slowest = [...usage.byOperation].sort((a, b) => b.averageLatencyMs - a.averageLatencyMs);
+  const costliest = [...usage.byOperation].sort((a, b) => b.costUsd - a.costUsd);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900 dark:text-white">API Usage</h2>
+        <p className="text-gray-500 dark:text-gray-400 text-sm">
+          Model calls, tokens and estimated cost.
+          {usage.unpricedCalls > 0 && ` ${usage.unpricedCalls} call${usage.unpricedCalls === 1 ? '' : 's'} had no token counts or price and are not in the cost.`}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+        <KpiCard
+          label="Model Calls"
+          value={usage.calls.toLocaleString()}
+          icon={<Cpu size={20} />}
+          accent="bg-indigo-50 dark:bg-indigo-900/30 text-indigo-600 dark:text-indigo-400"
+        />
+        <KpiCard
+          label="Tokens (in / out)"
+          value={<>{usage.inputTokens.toLocaleString()} <span className="text-sm font-normal text-gray-400">/ {usage.outputTokens.toLocaleString()}</span></>}
+          icon={<Hash size={20} />}
+          accent="bg-purple-50 dark:bg-purple-900/30 text-purple-600 dark:text-purple-400"
+        />
+        <KpiCard
+          label="Estimated Cost"
+          value={formatCost(usage.costUsd)}
+          icon={<Coins size={20} />}
+          accent="bg-green-50 dark:bg-green-900/30 text-green-600 dark:text-green-400"
+        />
+        <KpiCard
+          label="Avg Latency / Errors"
+          value={<>{usage.averageLatencyMs === null ? '—' : formatSeconds(usage.averageLatencyMs)} <span className="text-sm font-normal text-gray-400">/ {usage.errors}</span></>}
+          icon={usage.errors ? <AlertTriangle size={20} /> : <Timer size={20} />}
+          accent={usage.errors
+            ? 'bg-red-50 dark:bg-red-900/30 text-red-600 dark:text-red-400'
+            : 'bg-sky-50 dark:bg-sky-900/30 text-sky-600 dark:text-sky-400'}
+        />
+      </div>
+
+      <div className="grid lg:grid-cols-3 gap-8">
+        <div className="lg:col-span-2 bg-white dark:bg-gray-800 p-6 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700">
+          <h3 className="text-lg font-bold text-gray-900 dark:text-white mb-6">Calls and Cost per Day</h3>
+          <div className="h-72">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={usage.daily}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#374151" opacity={0.1} />
+                <XAxis dataKey="date" tick={{fontSize: 12}} stroke="#9ca3af" />
+                <YAxis yAxisId="calls" stroke="#9ca3af" allowDecimals={false} />
+                <YAxis yAxisId="cost" orientation="right" stroke="#9ca3af" tickFormatter={(value: number) => `$${value}`} />
+                <Tooltip
+                    contentStyle={{ backgroundColor: '#1f2937', borderColor: '#374151', color: '#fff' }}
+                    cursor={{fill: 'rgba(255,255,255,0.05)'}}
+                    formatter={(value: number, name: string) => (name === 'costUsd' ? [formatCost(value), 'Cost'] : [value, name === 'calls' ? 'Calls' : 'Errors'])}
+                />
+                <Bar yAxisId="calls" dataKey="calls" fill="#6366f1" radius={[4, 4, 0, 0]} />
+                <Bar yAxisId="calls" dataKey="errors" fill="#ef4444" radius={[4, 4, 0, 0]} />
+                <Line yAxisId="cost" dataKey="costUsd" stroke="#10b981" strokeWidth={2} dot={false} />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+
+        <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700">
+          <h3 className="text-lg font-bold text-gray-900 dark:text-white mb-6">By Model</h3>
+          {usage.byModel.length === 0 ? (
+            <p className="text-center py-6 text-gray-500 dark:text-gray-400">No token usage reported.</p>
+          ) : (
+            <ul className="space-y-3 text-sm">
+              {usage.byModel.map(model => (
+                <li key={model.model} className="flex justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900 dark:text-white truncate">{model.model}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {model.calls} calls · {(model.inputTokens + model.outputTokens).toLocaleString()} tokens
+                    </p>
+                  </div>
+                  <span className="font-medium text-gray-700 dark:text-gray-300">{formatCost(model.costUsd)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      <div className="grid lg:grid-cols-2 gap-8">
+        <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700">
+          <h3 className="text-lg font-bold text-gray-900 dark:text-white mb-6">Slowest Operations</h3>
+          <table className="w-full text-sm text-left">
+            <thead className="text-xs uppercase text-gray-500 dark:text-gray-400 border-b border-gray-100 dark:border-gray-700">
+              <tr>
+                <th className="py-2 pr-4">Operation</th>
+                <th className="py-2 pr-4 text-right">Calls</th>
+                <th className="py-2 pr-4 text-right">Avg</th>
+                <th className="py-2 pr-4 text-right">Max</th>
+                <th className="py-2 text-right">Errors</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100 dark:divide-gray-700 text-gray-700 dark:text-gray-300">
+              {slowest.map(op => (
+                <tr key={op.operation}>
+                  <td className="py-2 pr-4 font-medium">{OPERATION_LABELS[op.operation]}</td>
+                  <td className="py-2 pr-4 text-right">{op.calls}</td>
+                  <td className="py-2 pr-4 text-right">{formatSeconds(op.averageLatencyMs)}</td>
+                  <td className="py-2 pr-4 text-right">{formatSeconds(op.maxLatencyMs)}</td>
+                  <td className={`py-2 text-right ${op.errors ? 'text-red-600 dark:text-red-400' : ''}`}>{op.errors}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {slowest.length === 0 && (
+            <p className="text-center py-6 text-gray-500 dark:text-gray-400">No model calls in this range.</p>
+          )}
+        </div>
+
+        <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700">
+          <h3 className="text-lg font-bold text-gray-900 dark:text-white mb-6">Most Expensive Operations</h3>
+          <table className="w-full text-sm text-left">
+            <thead className="text-xs uppercase text-gray-500 dark:text-gray-400 border-b border-gray-100 dark:border-gray-700">
+              <tr>
+                <th className="py-2 pr-4">Operation</th>
+                <th className="py-2 pr-4 text-right">Tokens in</th>
+                <th className="py-2 pr-4 text-right">Tokens out</th>
+                <th className="py-2 pr-4 text-right">Per call</th>
+                <th className="py-2 text-right">Total</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100 dark:divide-gray-700 text-gray-700 dark:text-gray-300">
+              {costliest.map(op => (
+                <tr key={op.operation}>
+                  <td className="py-2 pr-4 font-medium">{OPERATION_LABELS[op.operation]}</td>
+                  <td className="py-2 pr-4 text-right">{op.inputTokens.toLocaleString()}</td>
+                  <td className="py-2 pr-4 text-right">{op.outputTokens.toLocaleString()}</td>
+                  <td className="py-2 pr-4 text-right">{formatCost(op.costUsd / op.calls)}</td>
+                  <td className="py-2 text-right">{formatCost(op.costUsd)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {costliest.length === 0 && (
+            <p className="text-center py-6 text-gray-500 dark:text-gray-400">No model calls in this range.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
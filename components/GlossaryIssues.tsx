@@ -0,0 +1,24 @@
+import React from 'react';
+import { GlossaryIssue } from '../types';
+import { BookA } from 'lucide-react';
+
+// Lists glossary terms the model did not respect so a reviewer can fix them.
+export default function GlossaryIssues({ issues }: { issues: GlossaryIssue[] }) {
+  if (issues.length === 0) return null;
+
+  return (
+    <div className="p-3 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 text-amber-800 dark:text-amber-300 rounded-lg text-xs space-y-1">
+      <p className="flex items-center font-semibold">
+        <BookA size={14} className="mr-1.5" />
+        {issues.length === 1 ? '1 glossary term was not respected' : `${issues.length} glossary terms were not respected`}
+      </p>
+      <ul className="list-disc list-inside">
+        {issues.map(issue => (
+          <li key={`${issue.source}-${issue.target}`}>
+            "{issue.source}" should be translated as "{issue.target}"
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
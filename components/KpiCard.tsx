@@ -0,0 +1,24 @@
+import React from 'react';
+
+interface KpiCardProps {
+  label: string;
+  value: React.ReactNode;
+  icon: React.ReactNode;
+  // Tailwind classes for the icon badge
+  accent: string;
+}
+
+// Headline number with an icon badge, as on the admin dashboard.
+export default function KpiCard({ label, value, icon, accent }: KpiCardProps) {
+  return (
+    <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700">
+      <div className="flex justify-between items-start">
+        <div>
+          <p className="text-sm font-medium text-gray-500 dark:text-gray-400">{label}</p>
+          <h3 className="text-2xl font-bold text-gray-900 dark:text-white mt-1">{value}</h3>
+        </div>
+        <div className={`p-3 rounded-lg ${accent}`}>{icon}</div>
+      </div>
+    </div>
+  );
+}
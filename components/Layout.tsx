@@ -9,14 +9,20 @@ import {
   Moon, 
   Sun,
   Menu,
-  X
+  X,
+  Settings as SettingsIcon,
+  LogIn,
+  UserCircle,
+  BookA,
+  Globe
 } from 'lucide-react';
 import { useAuth } from '../services/authContext';
+import { UserRole } from '../types';
 
 export default function Layout({ children }: { children: React.ReactNode }) {
   const [isSidebarOpen, setSidebarOpen] = React.useState(false);
   const [isDark, setIsDark] = React.useState(false);
-  const { isAuthenticated, logout } = useAuth();
+  const { user, isAuthenticated, hasRole, logout } = useAuth();
   const navigate = useNavigate();
 
   React.useEffect(() => {
@@ -41,14 +47,17 @@ export default function Layout({ children }: { children: React.ReactNode }) {
     { name: 'Text Translator', to: '/', icon: <Languages size={20} /> },
     { name: 'Document', to: '/document', icon: <FileText size={20} /> },
     { name: 'History', to: '/history', icon: <HistoryIcon size={20} /> },
+    { name: 'Settings', to: '/settings', icon: <SettingsIcon size={20} /> },
   ];
 
-  if (isAuthenticated) {
+  if (hasRole(UserRole.ADMIN)) {
     navItems.push({ name: 'Admin Dashboard', to: '/admin/dashboard', icon: <LayoutDashboard size={20} /> });
+    navItems.push({ name: 'Glossary', to: '/admin/glossary', icon: <BookA size={20} /> });
+    navItems.push({ name: 'Languages', to: '/admin/languages', icon: <Globe size={20} /> });
   }
 
-  const handleLogout = () => {
-    logout();
+  const handleLogout = async () => {
+    await logout();
     navigate('/');
   };
 
@@ -111,6 +120,11 @@ export default function Layout({ children }: { children: React.ReactNode }) {
           </button>
           
           {isAuthenticated ? (
+            <>
+            <div className="flex items-center px-4 py-2 text-sm text-gray-700 dark:text-gray-300">
+              <UserCircle size={18} className="mr-3" />
+              <span className="truncate">{user?.username}</span>
+            </div>
              <button
              onClick={handleLogout}
              className="flex items-center w-full px-4 py-2 text-sm text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg"
@@ -118,7 +132,16 @@ export default function Layout({ children }: { children: React.ReactNode }) {
              <LogOut size={18} className="mr-3" />
              Logout
            </button>
+            </>
           ) : (
+            <>
+            <NavLink
+              to="/login"
+              className="flex items-center w-full px-4 py-2 text-sm text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg"
+            >
+              <LogIn size={18} className="mr-3" />
+              Sign In
+            </NavLink>
             <NavLink
               to="/admin/login"
               className="flex items-center w-full px-4 py-2 text-sm text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg"
@@ -126,6 +149,7 @@ export default function Layout({ children }: { children: React.ReactNode }) {
               <LayoutDashboard size={18} className="mr-3" />
               Admin Access
             </NavLink>
+            </>
           )}
         </div>
       </aside>
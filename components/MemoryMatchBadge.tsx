@@ -0,0 +1,27 @@
+import React from 'react';
+import { MemoryMatchSummary } from '../types';
+import { Database } from 'lucide-react';
+
+// Shows how much of a translation came from translation memory.
+export default function MemoryMatchBadge({ match }: { match?: MemoryMatchSummary }) {
+  if (!match) return null;
+
+  const percent = Math.round(match.score * 100);
+  const label = match.exact
+    ? 'TM exact match · reused'
+    : `TM ${percent}% match · ${match.references} ${match.references === 1 ? 'reference' : 'references'}`;
+
+  return (
+    <span
+      className={`inline-flex items-center px-2 py-1 rounded-md text-xs font-medium ${
+        match.exact
+          ? 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400'
+          : 'bg-sky-100 text-sky-700 dark:bg-sky-900/30 dark:text-sky-400'
+      }`}
+      title={match.exact ? 'Reused from translation memory without calling the model' : 'Similar translations were sent to the model as references'}
+    >
+      <Database size={12} className="mr-1" />
+      {label}
+    </span>
+  );
+}
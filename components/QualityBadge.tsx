@@ -0,0 +1,47 @@
+import React from 'react';
+import { QualityEstimate } from '../types';
+import { needsReview } from '../services/quality';
+import { Gauge } from 'lucide-react';
+
+// Shows the estimated quality of a translation; `detailed` adds the back-translation and issues.
+export default function QualityBadge({ quality, detailed = false }: { quality?: QualityEstimate; detailed?: boolean }) {
+  if (!quality) return null;
+
+  const flagged = needsReview(quality);
+  const color = flagged
+    ? 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400'
+    : quality.score < 90
+      ? 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400'
+      : 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400';
+  const how = quality.method === 'judge' ? 'Judged by the model' : 'Similarity of the back-translation to the source';
+
+  const badge = (
+    <span
+      className={`inline-flex items-center px-2 py-1 rounded-md text-xs font-medium ${color}`}
+      title={`${how}${quality.sampled ? ', on the opening paragraphs' : ''}.\nBack-translation: ${quality.backTranslation}`}
+    >
+      <Gauge size={12} className="mr-1" />
+      Quality {quality.score}/100{flagged && ' · Needs review'}
+    </span>
+  );
+
+  if (!detailed) return badge;
+
+  return (
+    <details className="text-xs text-gray-600 dark:text-gray-400">
+      <summary className="cursor-pointer list-none">{badge}</summary>
+      <div className="mt-2 p-3 bg-gray-50 dark:bg-gray-900/50 border border-gray-200 dark:border-gray-700 rounded-lg space-y-2">
+        <p>
+          <span className="font-semibold">Back-translation{quality.sampled ? ' (opening paragraphs)' : ''}:</span>{' '}
+          {quality.backTranslation}
+        </p>
+        {quality.issues.length > 0 && (
+          <ul className="list-disc list-inside">
+            {quality.issues.map((issue, i) => <li key={i}>{issue}</li>)}
+          </ul>
+        )}
+        <p className="text-gray-400">{how}.</p>
+      </div>
+    </details>
+  );
+}
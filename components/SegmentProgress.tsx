@@ -0,0 +1,38 @@
+import React from 'react';
+import { DocumentSegment } from '../services/documentPipeline';
+
+const STATUS_STYLES: Record<DocumentSegment['status'], string> = {
+  pending: 'bg-gray-200 dark:bg-gray-700',
+  running: 'bg-primary-400 animate-pulse',
+  done: 'bg-green-500',
+  failed: 'bg-red-500',
+};
+
+// Per-segment progress for chunked document translation.
+export default function SegmentProgress({ segments }: { segments: DocumentSegment[] }) {
+  if (segments.length === 0) return null;
+
+  const done = segments.filter(s => s.status === 'done').length;
+  const failed = segments.filter(s => s.status === 'failed').length;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400">
+        <span>{done} of {segments.length} segments translated</span>
+        {failed > 0 && <span className="text-red-600 dark:text-red-400">{failed} failed</span>}
+      </div>
+      <div className="h-2 w-full bg-gray-100 dark:bg-gray-700 rounded-full overflow-hidden">
+        <div className="h-full bg-primary-600 transition-all" style={{ width: `${(done / segments.length) * 100}%` }} />
+      </div>
+      <div className="flex flex-wrap gap-1">
+        {segments.map(segment => (
+          <span
+            key={segment.index}
+            className={`w-3 h-3 rounded-sm ${STATUS_STYLES[segment.status]}`}
+            title={`Segment ${segment.index + 1}: ${segment.status}${segment.error ? ` (${segment.error})` : ''}`}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+import React from 'react';
+import { TranslatorNote } from '../types';
+import { MessageSquareWarning } from 'lucide-react';
+
+// Shows the terms and idioms the model was unsure about so a reviewer can check them.
+export default function TranslatorNotes({ notes }: { notes?: TranslatorNote[] }) {
+  if (!notes?.length) return null;
+
+  return (
+    <div className="p-3 bg-sky-50 dark:bg-sky-900/20 border border-sky-200 dark:border-sky-800 text-sky-800 dark:text-sky-300 rounded-lg text-xs space-y-1">
+      <p className="flex items-center font-semibold">
+        <MessageSquareWarning size={14} className="mr-1.5" />
+        {notes.length === 1 ? '1 translator note' : `${notes.length} translator notes`}
+      </p>
+      <ul className="list-disc list-inside">
+        {notes.map((note, i) => (
+          <li key={`${note.term}-${i}`}>
+            <span className="font-medium">"{note.term}"</span>: {note.note}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+
+interface VirtualListProps<T> {
+  items: T[];
+  getKey: (item: T) => string;
+  renderItem: (item: T) => React.ReactNode;
+  // Used for rows that have not been rendered yet; real heights are measured
+  estimatedHeight: number;
+  // Space between rows in px
+  gap?: number;
+  // Rows rendered above and below the visible ones
+  overscan?: number;
+  className?: string;
+}
+
+/**
+ * Scrollable list that only mounts the rows in view. Rows may differ in height: each
+ * one is measured when rendered and the offsets below it shift accordingly.
+ */
+export default function VirtualList<T>({ items, getKey, renderItem, estimatedHeight, gap = 16, overscan = 5, className = '' }: VirtualListProps<T>) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const heights = useRef(new Map<string, number>());
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+  // Bumped when a measured height changes, to lay the rows out again
+  const [, setLayoutVersion] = useState(0);
+  const observer = useRef<ResizeObserver | null>(null);
+
+  // Created on first use: row refs attach before effects run
+  const getObserver = () => {
+    observer.current ??= new ResizeObserver(entries => {
+      let changed = false;
+      entries.forEach(entry => {
+        const element = entry.target as HTMLElement;
+        const height = element.offsetHeight;
+        if (heights.current.get(element.dataset.key!) !== height) {
+          heights.current.set(element.dataset.key!, height);
+          changed = true;
+        }
+      });
+      if (changed) setLayoutVersion(v => v + 1);
+    });
+    return observer.current;
+  };
+
+  useEffect(() => () => observer.current?.disconnect(), []);
+
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    setViewportHeight(container.clientHeight);
+    const resize = new ResizeObserver(() => setViewportHeight(container.clientHeight));
+    resize.observe(container);
+    return () => resize.disconnect();
+  }, []);
+
+  // Offsets from the measured (or estimated) heights; cheap for a page of rows
+  const offsets: number[] = [];
+  let total = 0;
+  items.forEach(item => {
+    offsets.push(total);
+    total += (heights.current.get(getKey(item)) ?? estimatedHeight) + gap;
+  });
+
+  let start = 0;
+  while (start < items.length - 1 && offsets[start + 1] <= scrollTop) start++;
+  let end = start;
+  while (end < items.length && offsets[end] < scrollTop + viewportHeight) end++;
+  const first = Math.max(0, start - overscan);
+  const last = Math.min(items.length, end + overscan);
+
+  const measure = (element: HTMLDivElement | null) => {
+    if (!element) return;
+    getObserver().observe(element);
+    return () => getObserver().unobserve(element);
+  };
+
+  return (
+    <div ref={containerRef} onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)} className={`overflow-auto ${className}`}>
+      <div style={{ height: Math.max(0, total - gap), position: 'relative' }}>
+        {items.slice(first, last).map((item, i) => {
+          const key = getKey(item);
+          return (
+            <div key={key} ref={measure} data-key={key} style={{ position: 'absolute', top: offsets[first + i], left: 0, right: 0 }}>
+              {renderItem(item)}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+import { readdirSync, readFileSync, statSync } from 'fs';
+import { basename, extname, join } from 'path';
+
+export interface EvalExample {
+  // `<file>:<line>`, stable across runs so reports can be compared example by example
+  id: string;
+  // Language codes from the language registry
+  sourceLang: string;
+  targetLang: string;
+  source: string;
+  reference: string;
+}
+
+export class CorpusError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CorpusError';
+  }
+}
+
+// Files are named after their language pair, e.g. ne-en.tsv or si-en.dev.jsonl.
+const pairFromName = (file: string) => {
+  const match = basename(file).match(/^([a-z]{2,3})-([a-z]{2,3})\b/i);
+  return match ? { sourceLang: match[1].toLowerCase(), targetLang: match[2].toLowerCase() } : null;
+};
+
+/**
+ * TSV: one `source<TAB>reference` pair per line. Blank lines and lines starting with
+ * `#` are skipped; `\n` and `\t` inside a field stand for a newline and a tab.
+ */
+const parseTsv = (file: string, text: string): EvalExample[] => {
+  const pair = pairFromName(file);
+  if (!pair) throw new CorpusError(`${file}: name must start with the language pair, e.g. ne-en.tsv`);
+  const unescape = (field: string) => field.replace(/\\([nt\\])/g, (_, c) => (c === 'n' ? '\n' : c === 't' ? '\t' : '\\'));
+
+  const examples: EvalExample[] = [];
+  text.replace(/^\uFEFF/, '').split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim() || line.startsWith('#')) return;
+    const fields = line.split('\t');
+    if (fields.length !== 2) {
+      throw new CorpusError(`${file}:${index + 1}: expected 2 tab-separated columns, found ${fields.length}`);
+    }
+    examples.push({ id: `${basename(file)}:${index + 1}`, ...pair, source: unescape(fields[0]), reference: unescape(fields[1]) });
+  });
+  return examples;
+};
+
+/**
+ * JSONL: one `{"source", "reference"}` object per line. `sourceLang`/`targetLang` on a
+ * line override the pair from the file name, so mixed-pair files are possible.
+ */
+const parseJsonl = (file: string, text: string): EvalExample[] => {
+  const pair = pairFromName(file);
+  const examples: EvalExample[] = [];
+  text.replace(/^\uFEFF/, '').split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) return;
+    const where = `${file}:${index + 1}`;
+    let json: any;
+    try {
+      json = JSON.parse(line);
+    } catch {
+      throw new CorpusError(`${where}: invalid JSON`);
+    }
+    if (typeof json.source !== 'string' || typeof json.reference !== 'string') {
+      throw new CorpusError(`${where}: "source" and "reference" must be strings`);
+    }
+    const sourceLang = json.sourceLang ?? pair?.sourceLang;
+    const targetLang = json.targetLang ?? pair?.targetLang;
+    if (!sourceLang || !targetLang) {
+      throw new CorpusError(`${where}: no language pair in the line or the file name`);
+    }
+    examples.push({ id: `${basename(file)}:${index + 1}`, sourceLang, targetLang, source: json.source, reference: json.reference });
+  });
+  return examples;
+};
+
+const CORPUS_EXTENSIONS = ['.tsv', '.jsonl'];
+
+/** Loads a corpus file, or every .tsv/.jsonl file in a directory. */
+export const loadCorpus = (path: string): EvalExample[] => {
+  const files = statSync(path).isDirectory()
+    ? readdirSync(path).filter(f => CORPUS_EXTENSIONS.includes(extname(f))).sort().map(f => join(path, f))
+    : [path];
+
+  return files.flatMap(file => {
+    const text = readFileSync(file, 'utf8');
+    switch (extname(file)) {
+      case '.tsv': return parseTsv(file, text);
+      case '.jsonl': return parseJsonl(file, text);
+      default: throw new CorpusError(`${file}: unsupported corpus format, use .tsv or .jsonl`);
+    }
+  });
+};
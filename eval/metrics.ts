@@ -0,0 +1,102 @@
+// Corpus-level translation metrics. BLEU and chrF follow sacreBLEU's defaults
+// (4-gram BLEU with brevity penalty, chrF with 6-gram characters and beta 2), so
+// scores are comparable between runs of this harness, though not bit-identical
+// to sacreBLEU's tokenizer.
+
+const MAX_NGRAM = 4;
+const CHAR_ORDER = 6;
+const CHRF_BETA = 2;
+
+const normalize = (text: string) => text.normalize('NFC').trim().replace(/\s+/g, ' ');
+
+/**
+ * Words (letters with their combining marks, so Devanagari and Sinhala vowel signs
+ * stay attached) and single punctuation marks.
+ */
+export const tokenize = (text: string) => normalize(text).match(/[\p{L}\p{M}\p{N}]+|[^\s\p{L}\p{M}\p{N}]/gu) || [];
+
+const countNgrams = (items: string[], n: number) => {
+  const counts = new Map<string, number>();
+  for (let i = 0; i + n <= items.length; i++) {
+    const key = items.slice(i, i + n).join('\u0001');
+    counts.set(key, (counts.get(key) || 0) + 1);
+  }
+  return counts;
+};
+
+// Clipped matches: each hypothesis n-gram counts at most as often as it appears in the reference
+const overlap = (hypothesis: Map<string, number>, reference: Map<string, number>) => {
+  let matches = 0;
+  hypothesis.forEach((count, key) => {
+    matches += Math.min(count, reference.get(key) || 0);
+  });
+  return matches;
+};
+
+const total = (counts: Map<string, number>) => {
+  let sum = 0;
+  counts.forEach(count => { sum += count; });
+  return sum;
+};
+
+/** Corpus BLEU, 0-100. */
+export const bleu = (hypotheses: string[], references: string[]) => {
+  const matches = new Array(MAX_NGRAM).fill(0);
+  const possible = new Array(MAX_NGRAM).fill(0);
+  let hypothesisLength = 0;
+  let referenceLength = 0;
+
+  hypotheses.forEach((hypothesis, i) => {
+    const hyp = tokenize(hypothesis);
+    const ref = tokenize(references[i]);
+    hypothesisLength += hyp.length;
+    referenceLength += ref.length;
+    for (let n = 1; n <= MAX_NGRAM; n++) {
+      const hypCounts = countNgrams(hyp, n);
+      matches[n - 1] += overlap(hypCounts, countNgrams(ref, n));
+      possible[n - 1] += total(hypCounts);
+    }
+  });
+
+  if (hypothesisLength === 0 || matches.some(m => m === 0)) return 0;
+
+  const logPrecision = matches.reduce((sum, m, i) => sum + Math.log(m / possible[i]), 0) / MAX_NGRAM;
+  const brevity = hypothesisLength < referenceLength ? Math.exp(1 - referenceLength / hypothesisLength) : 1;
+  return 100 * brevity * Math.exp(logPrecision);
+};
+
+/** Corpus chrF, 0-100. Whitespace is ignored, as in sacreBLEU. */
+export const chrF = (hypotheses: string[], references: string[]) => {
+  const matches = new Array(CHAR_ORDER).fill(0);
+  const hypothesisTotal = new Array(CHAR_ORDER).fill(0);
+  const referenceTotal = new Array(CHAR_ORDER).fill(0);
+
+  hypotheses.forEach((hypothesis, i) => {
+    const hyp = Array.from(normalize(hypothesis).replace(/\s/g, ''));
+    const ref = Array.from(normalize(references[i]).replace(/\s/g, ''));
+    for (let n = 1; n <= CHAR_ORDER; n++) {
+      const hypCounts = countNgrams(hyp, n);
+      const refCounts = countNgrams(ref, n);
+      matches[n - 1] += overlap(hypCounts, refCounts);
+      hypothesisTotal[n - 1] += total(hypCounts);
+      referenceTotal[n - 1] += total(refCounts);
+    }
+  });
+
+  // Orders with no n-grams on either side (very short texts) are left out of the average
+  const orders = matches.map((_, i) => i).filter(i => hypothesisTotal[i] > 0 && referenceTotal[i] > 0);
+  if (orders.length === 0) return 0;
+  const precision = orders.reduce((sum, i) => sum + matches[i] / hypothesisTotal[i], 0) / orders.length;
+  const recall = orders.reduce((sum, i) => sum + matches[i] / referenceTotal[i], 0) / orders.length;
+  if (precision + recall === 0) return 0;
+
+  const beta2 = CHRF_BETA * CHRF_BETA;
+  return 100 * ((1 + beta2) * precision * recall) / (beta2 * precision + recall);
+};
+
+/** Share of outputs identical to their reference after whitespace and Unicode normalization, 0-100. */
+export const exactMatch = (hypotheses: string[], references: string[]) => {
+  if (hypotheses.length === 0) return 0;
+  const exact = hypotheses.filter((hypothesis, i) => normalize(hypothesis) === normalize(references[i])).length;
+  return (100 * exact) / hypotheses.length;
+};
@@ -0,0 +1,68 @@
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { TranslateRequest, TranslationProvider } from '../services/providers';
+
+// Provider responses saved to a JSON "cassette", so a live run can be replayed offline
+// with identical outputs (e.g. in CI, or to re-score an old run with changed metrics).
+
+interface RecordedTranslation {
+  sourceLang: string;
+  targetLang: string;
+  text: string;
+  output: string;
+}
+
+type Cassette = Record<string, RecordedTranslation>;
+
+const keyOf = ({ text, sourceLang, targetLang }: Pick<TranslateRequest, 'text' | 'sourceLang' | 'targetLang'>) =>
+  createHash('sha256').update(`${sourceLang}\u0000${targetLang}\u0000${text}`).digest('hex');
+
+const readCassette = (file: string): Cassette => (existsSync(file) ? JSON.parse(readFileSync(file, 'utf8')) : {});
+
+const unsupported = (operation: string) => async (): Promise<never> => {
+  throw new Error(`${operation} is not available on a recorded provider.`);
+};
+
+const textOnly = (name: string, translateText: TranslationProvider['translateText']): TranslationProvider => ({
+  name,
+  translateText,
+  translateStructured: unsupported('Structured translation'),
+  translateDocument: unsupported('Document translation'),
+  translateFile: unsupported('File translation'),
+  detectLanguage: unsupported('Language detection'),
+  judgeTranslation: unsupported('Quality judging'),
+  refineText: unsupported('Refinement'),
+  generateInsights: unsupported('Insights'),
+  transcribeAudio: unsupported('Transcription'),
+  generateSpeech: unsupported('Speech'),
+});
+
+/**
+ * Wraps a live provider and writes every text translation to `file`. Existing entries
+ * are kept, so a cassette can be extended run by run. Call `save` when done.
+ */
+export const createRecordingProvider = (inner: TranslationProvider, file: string) => {
+  const cassette = readCassette(file);
+  const provider = textOnly(`${inner.name}+record`, async (req) => {
+    const output = await inner.translateText(req);
+    cassette[keyOf(req)] = { sourceLang: req.sourceLang, targetLang: req.targetLang, text: req.text, output };
+    return output;
+  });
+  const save = () => {
+    mkdirSync(dirname(file), { recursive: true });
+    writeFileSync(file, JSON.stringify(cassette, null, 2) + '\n');
+  };
+  return { provider, save };
+};
+
+/** Answers from a cassette only; a request that was never recorded fails. */
+export const createReplayProvider = (file: string): TranslationProvider => {
+  if (!existsSync(file)) throw new Error(`Recording not found: ${file}`);
+  const cassette = readCassette(file);
+  return textOnly('replay', async (req) => {
+    const recorded = cassette[keyOf(req)];
+    if (!recorded) throw new Error(`No recorded translation for this ${req.sourceLang} → ${req.targetLang} input`);
+    return recorded.output;
+  });
+};
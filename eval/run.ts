@@ -0,0 +1,206 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { loadEnvFile } from 'process';
+import { parseArgs } from 'util';
+import { createProvider, ProviderName, TranslationProvider } from '../services/providers';
+import { languageName } from '../services/languages';
+import { loadLanguages } from '../server/languages';
+import { CorpusError, EvalExample, loadCorpus } from './corpus';
+import { bleu, chrF, exactMatch } from './metrics';
+import { createRecordingProvider, createReplayProvider } from './recording';
+
+// Runs a parallel corpus through a provider with the app's translation prompt and
+// writes a JSON report (for --compare) and a Markdown summary. See README "Evaluation".
+
+try {
+  loadEnvFile('.env.local');
+} catch {
+  // Fall back to the process environment
+}
+
+const USAGE = `Usage: npm run eval -- [options]
+  --corpus <path>       .tsv/.jsonl file or directory (default eval/corpora)
+  --provider <name>     gemini | local | openai (default TRANSLATION_PROVIDER or gemini)
+  --record <file>       save the provider's outputs to a recording
+  --replay <file>       answer from a recording instead of a provider (offline)
+  --compare <report>    earlier report JSON to show score changes against
+  --out <dir>           report directory (default eval/reports)
+  --label <name>        report name prefix (default the provider name)
+  --concurrency <n>     parallel requests (default 3)`;
+
+interface Scores {
+  examples: number;
+  errors: number;
+  bleu: number;
+  chrF: number;
+  exactMatch: number;
+}
+
+interface PairScores extends Scores {
+  // e.g. 'ne-en'
+  pair: string;
+}
+
+interface ExampleResult {
+  id: string;
+  pair: string;
+  source: string;
+  reference: string;
+  output: string;
+  error?: string;
+}
+
+interface EvalReport {
+  label: string;
+  provider: string;
+  createdAt: string;
+  corpus: string;
+  totals: Scores;
+  pairs: PairScores[];
+  examples: ExampleResult[];
+}
+
+// Failed examples count as empty output, so a flaky provider shows up as a score drop.
+const score = (results: ExampleResult[]): Scores => {
+  const outputs = results.map(r => r.output);
+  const references = results.map(r => r.reference);
+  return {
+    examples: results.length,
+    errors: results.filter(r => r.error).length,
+    bleu: bleu(outputs, references),
+    chrF: chrF(outputs, references),
+    exactMatch: exactMatch(outputs, references),
+  };
+};
+
+const translateAll = async (provider: TranslationProvider, examples: EvalExample[], concurrency: number) => {
+  const results: ExampleResult[] = new Array(examples.length);
+  let next = 0;
+  let done = 0;
+
+  const worker = async () => {
+    while (next < examples.length) {
+      const index = next++;
+      const example = examples[index];
+      const pair = `${example.sourceLang}-${example.targetLang}`;
+      const base = { id: example.id, pair, source: example.source, reference: example.reference };
+      try {
+        const output = await provider.translateText({
+          text: example.source,
+          sourceLang: languageName(example.sourceLang),
+          targetLang: languageName(example.targetLang),
+        });
+        results[index] = { ...base, output };
+      } catch (error) {
+        results[index] = { ...base, output: '', error: error instanceof Error ? error.message : String(error) };
+      }
+      process.stderr.write(`\r${++done}/${examples.length} translated`);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, examples.length) }, worker));
+  process.stderr.write('\n');
+  return results;
+};
+
+const fixed = (value: number) => value.toFixed(2);
+const delta = (value: number, previous?: number) => {
+  if (previous === undefined) return '';
+  const change = value - previous;
+  return ` (${change >= 0 ? '+' : ''}${change.toFixed(2)})`;
+};
+
+const toMarkdown = (report: EvalReport, baseline?: EvalReport) => {
+  const row = (name: string, scores: Scores, previous?: Scores) =>
+    `| ${name} | ${scores.examples} | ${scores.errors} | ${fixed(scores.bleu)}${delta(scores.bleu, previous?.bleu)} | ` +
+    `${fixed(scores.chrF)}${delta(scores.chrF, previous?.chrF)} | ${fixed(scores.exactMatch)}${delta(scores.exactMatch, previous?.exactMatch)} |`;
+
+  const lines = [
+    `# Evaluation: ${report.label}`,
+    '',
+    `Provider: ${report.provider} · Corpus: ${report.corpus} · ${report.createdAt}`,
+    ...(baseline ? [`Compared with: ${baseline.label} (${baseline.createdAt})`] : []),
+    '',
+    '| Pair | Examples | Errors | BLEU | chrF | Exact match % |',
+    '| --- | ---: | ---: | ---: | ---: | ---: |',
+    ...report.pairs.map(p => row(p.pair, p, baseline?.pairs.find(b => b.pair === p.pair))),
+    row('**All**', report.totals, baseline?.totals),
+  ];
+
+  const failures = report.examples.filter(e => e.error);
+  if (failures.length) {
+    lines.push('', '## Errors', '', ...failures.map(e => `- ${e.id}: ${e.error}`));
+  }
+  return lines.join('\n') + '\n';
+};
+
+const main = async () => {
+  const { values } = parseArgs({
+    options: {
+      corpus: { type: 'string', default: join('eval', 'corpora') },
+      provider: { type: 'string', default: process.env.TRANSLATION_PROVIDER || 'gemini' },
+      record: { type: 'string' },
+      replay: { type: 'string' },
+      compare: { type: 'string' },
+      out: { type: 'string', default: join('eval', 'reports') },
+      label: { type: 'string' },
+      concurrency: { type: 'string', default: '3' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+  if (values.record && values.replay) {
+    throw new Error('Use either --record or --replay, not both.');
+  }
+  if (values.provider === 'proxy') {
+    throw new Error('The proxy provider only works in the browser; pick gemini, local or openai.');
+  }
+
+  // Languages added by admins are named as in the app
+  loadLanguages();
+  const examples = loadCorpus(values.corpus);
+  if (examples.length === 0) throw new CorpusError(`No examples found in ${values.corpus}`);
+
+  const recording = values.record ? createRecordingProvider(createProvider(values.provider as ProviderName), values.record) : null;
+  const provider = values.replay
+    ? createReplayProvider(values.replay)
+    : recording?.provider ?? createProvider(values.provider as ProviderName);
+
+  const results = await translateAll(provider, examples, Math.max(1, Number(values.concurrency) || 1));
+  recording?.save();
+
+  const pairs = [...new Set(results.map(r => r.pair))].map(pair => ({
+    pair,
+    ...score(results.filter(r => r.pair === pair)),
+  }));
+  const createdAt = new Date().toISOString();
+  const report: EvalReport = {
+    label: values.label || provider.name,
+    provider: provider.name,
+    createdAt,
+    corpus: values.corpus,
+    totals: score(results),
+    pairs,
+    examples: results,
+  };
+
+  const baseline: EvalReport | undefined = values.compare ? JSON.parse(readFileSync(values.compare, 'utf8')) : undefined;
+  const markdown = toMarkdown(report, baseline);
+
+  if (!existsSync(values.out)) mkdirSync(values.out, { recursive: true });
+  const name = `${report.label}-${createdAt.replace(/[:.]/g, '-')}`;
+  writeFileSync(join(values.out, `${name}.json`), JSON.stringify(report, null, 2) + '\n');
+  writeFileSync(join(values.out, `${name}.md`), markdown);
+
+  console.log(markdown);
+  console.log(`Report written to ${join(values.out, name)}.{json,md}`);
+};
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
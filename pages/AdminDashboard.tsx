@@ -1,19 +1,83 @@
 import React, { useEffect, useState } from 'react';
-import { getAnalytics } from '../services/storage';
+import { getAnalytics } from '../services/analytics';
+import { toDateKey } from '../services/dateRange';
 import { generateAnalyticsInsights } from '../services/gemini';
-import { AnalyticsData } from '../types';
+import { getJson } from '../services/api';
+import { toCsv } from '../services/csv';
+import { AnalyticsData, UserSummary } from '../types';
+import KpiCard from '../components/KpiCard';
+import ApiUsagePanel from '../components/ApiUsagePanel';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
-import { Activity, Globe, Users, TrendingUp, Sparkles, Loader2 } from 'lucide-react';
+import { Activity, Globe, Users, TrendingUp, Sparkles, Loader2, Type, Timer, AlertTriangle, ArrowRightLeft, Download } from 'lucide-react';
+
+const PRESETS = [7, 30, 90];
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const rangeOfDays = (days: number) => {
+  const to = new Date();
+  const from = new Date();
+  from.setDate(from.getDate() - (days - 1));
+  return { from: toDateKey(from.getTime()), to: toDateKey(to.getTime()) };
+};
+
+// Every series in one long table, so it opens in a spreadsheet as-is
+const analyticsCsv = (data: AnalyticsData) =>
+  toCsv([
+    ['series', 'label', 'count', 'characters'],
+    ...data.dailyActivity.map(d => ['daily', d.date, String(d.count), String(d.characters)]),
+    ...data.languageDistribution.map(l => ['target_language', l.name, String(l.value), '']),
+    ...data.languagePairs.map(p => ['language_pair', `${p.source} → ${p.target}`, String(p.count), '']),
+    ...data.byType.map(t => ['type', t.type, String(t.count), String(t.characters)]),
+    ...data.hourHeatmap.flatMap((hours, day) =>
+      hours.map((count, hour) => ['hour', `${WEEKDAYS[day]} ${String(hour).padStart(2, '0')}:00`, String(count), ''])
+    ),
+    ['errors', 'total', String(data.errorCount), ''],
+  ]) + '\r\n';
 
 export default function AdminDashboard() {
   const [data, setData] = useState<AnalyticsData | null>(null);
+  const [range, setRange] = useState(() => rangeOfDays(7));
   const [insights, setInsights] = useState<string>('');
   const [loadingInsights, setLoadingInsights] = useState(false);
+  const [users, setUsers] = useState<UserSummary[]>([]);
 
   useEffect(() => {
-    setData(getAnalytics());
+    getJson<{ users: UserSummary[] }>('/api/admin/users')
+      .then(res => setUsers(res.users))
+      .catch(error => console.error("Users error:", error));
   }, []);
 
+  useEffect(() => {
+    let cancelled = false;
+    getAnalytics(range)
+      .then(result => {
+        if (!cancelled) setData(result);
+      })
+      .catch(error => console.error("Analytics error:", error));
+    return () => { cancelled = true; };
+  }, [range]);
+
+  const handleRangeChange = (field: 'from' | 'to', value: string) => {
+    if (!value) return;
+    const next = { ...range, [field]: value };
+    // Keep the range the right way round when one end crosses the other
+    if (next.from > next.to) {
+      if (field === 'from') next.to = value;
+      else next.from = value;
+    }
+    setRange(next);
+  };
+
+  const handleExportCsv = () => {
+    if (!data) return;
+    const element = document.createElement("a");
+    element.href = URL.createObjectURL(new Blob([analyticsCsv(data)], { type: 'text/csv' }));
+    element.download = `analytics_${data.range.from}_${data.range.to}.csv`;
+    document.body.appendChild(element);
+    element.click();
+    document.body.removeChild(element);
+  };
+
   const handleGenerateInsights = async () => {
     if (!data) return;
     setLoadingInsights(true);
@@ -26,6 +90,17 @@ export default function AdminDashboard() {
 
   const COLORS = ['#6366f1', '#8b5cf6', '#ec4899', '#10b981', '#f59e0b'];
 
+  const weekAgo = Date.now() - 7 * 24 * 60 * 60 * 1000;
+  const activeUsers = users.filter(u => u.lastActiveAt && u.lastActiveAt >= weekAgo).length;
+
+  const dayCount = data.dailyActivity.length || 1;
+  const sources = Array.from(new Set<string>(data.languagePairs.map(p => p.source)));
+  const targets = Array.from(new Set<string>(data.languagePairs.map(p => p.target)));
+  const pairCount = (source: string, target: string) =>
+    data.languagePairs.find(p => p.source === source && p.target === target)?.count ?? 0;
+  const maxPair = Math.max(1, ...data.languagePairs.map(p => p.count));
+  const maxHour = Math.max(1, ...data.hourHeatmap.flat());
+
   return (
     <div className="space-y-8">
       <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
@@ -63,57 +138,94 @@ export default function AdminDashboard() {
         </div>
       )}
 
-      {/* KPI Cards */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-        <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700">
-          <div className="flex justify-between items-start">
-            <div>
-              <p className="text-sm font-medium text-gray-500 dark:text-gray-400">Total Translations</p>
-              <h3 className="text-2xl font-bold text-gray-900 dark:text-white mt-1">{data.totalTranslations}</h3>
-            </div>
-            <div className="p-3 bg-indigo-50 dark:bg-indigo-900/30 rounded-lg text-indigo-600 dark:text-indigo-400">
-              <Activity size={20} />
-            </div>
-          </div>
-        </div>
-        
-        <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700">
-            <div className="flex justify-between items-start">
-            <div>
-              <p className="text-sm font-medium text-gray-500 dark:text-gray-400">Active Languages</p>
-              <h3 className="text-2xl font-bold text-gray-900 dark:text-white mt-1">{data.languageDistribution.length}</h3>
-            </div>
-            <div className="p-3 bg-green-50 dark:bg-green-900/30 rounded-lg text-green-600 dark:text-green-400">
-              <Globe size={20} />
-            </div>
-          </div>
+      {/* Date range */}
+      <div className="flex flex-wrap items-center gap-3 bg-white dark:bg-gray-800 p-4 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700">
+        {PRESETS.map(days => {
+          const preset = rangeOfDays(days);
+          const active = preset.from === range.from && preset.to === range.to;
+          return (
+            <button
+              key={days}
+              onClick={() => setRange(preset)}
+              className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${active ? 'bg-indigo-600 text-white' : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'}`}
+            >
+              Last {days} days
+            </button>
+          );
+        })}
+        <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+          <input
+            type="date"
+            value={range.from}
+            onChange={(e) => handleRangeChange('from', e.target.value)}
+            className="px-2 py-1.5 rounded-lg border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+          />
+          <span>to</span>
+          <input
+            type="date"
+            value={range.to}
+            onChange={(e) => handleRangeChange('to', e.target.value)}
+            className="px-2 py-1.5 rounded-lg border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+          />
         </div>
+        <button
+          onClick={handleExportCsv}
+          className="ml-auto flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm font-medium border border-gray-200 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+        >
+          <Download size={16} /> Export CSV
+        </button>
+      </div>
 
-        <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700">
-            <div className="flex justify-between items-start">
-            <div>
-              <p className="text-sm font-medium text-gray-500 dark:text-gray-400">Avg Daily (7d)</p>
-              <h3 className="text-2xl font-bold text-gray-900 dark:text-white mt-1">
-                {Math.round(data.dailyActivity.reduce((a, b) => a + b.count, 0) / 7)}
-              </h3>
-            </div>
-            <div className="p-3 bg-pink-50 dark:bg-pink-900/30 rounded-lg text-pink-600 dark:text-pink-400">
-              <TrendingUp size={20} />
-            </div>
-          </div>
-        </div>
-        
-         <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700">
-            <div className="flex justify-between items-start">
-            <div>
-              <p className="text-sm font-medium text-gray-500 dark:text-gray-400">Active Users</p>
-              <h3 className="text-2xl font-bold text-gray-900 dark:text-white mt-1">1</h3>
-            </div>
-            <div className="p-3 bg-orange-50 dark:bg-orange-900/30 rounded-lg text-orange-600 dark:text-orange-400">
-              <Users size={20} />
-            </div>
-          </div>
-        </div>
+      {/* KPI Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+        <KpiCard
+          label="Total Translations"
+          value={data.totalTranslations}
+          icon={<Activity size={20} />}
+          accent="bg-indigo-50 dark:bg-indigo-900/30 text-indigo-600 dark:text-indigo-400"
+        />
+        <KpiCard
+          label="Characters Translated"
+          value={data.charactersTranslated.toLocaleString()}
+          icon={<Type size={20} />}
+          accent="bg-purple-50 dark:bg-purple-900/30 text-purple-600 dark:text-purple-400"
+        />
+        <KpiCard
+          label="Avg Daily"
+          value={Math.round(data.totalTranslations / dayCount)}
+          icon={<TrendingUp size={20} />}
+          accent="bg-pink-50 dark:bg-pink-900/30 text-pink-600 dark:text-pink-400"
+        />
+        <KpiCard
+          label="Active Languages"
+          value={data.languageDistribution.length}
+          icon={<Globe size={20} />}
+          accent="bg-green-50 dark:bg-green-900/30 text-green-600 dark:text-green-400"
+        />
+        <KpiCard
+          label="Avg Latency"
+          value={data.averageLatencyMs === null ? '—' : `${(data.averageLatencyMs / 1000).toFixed(1)}s`}
+          icon={<Timer size={20} />}
+          accent="bg-sky-50 dark:bg-sky-900/30 text-sky-600 dark:text-sky-400"
+        />
+        <KpiCard
+          label="Errors"
+          value={data.errorCount}
+          icon={<AlertTriangle size={20} />}
+          accent="bg-red-50 dark:bg-red-900/30 text-red-600 dark:text-red-400"
+        />
+        <KpiCard
+          label="Language Pairs"
+          value={data.languagePairs.length}
+          icon={<ArrowRightLeft size={20} />}
+          accent="bg-amber-50 dark:bg-amber-900/30 text-amber-600 dark:text-amber-400"
+        />
+        <KpiCard
+          label="Active Users (7d)"
+          value={<>{activeUsers} <span className="text-sm font-normal text-gray-400">/ {users.length}</span></>}
+          icon={<Users size={20} />}
+          accent="bg-orange-50 dark:bg-orange-900/30 text-orange-600 dark:text-orange-400"
+        />
       </div>
 
       {/* Charts */}
@@ -155,13 +267,13 @@ export default function AdminDashboard() {
         </div>
 
         <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700">
-          <h3 className="text-lg font-bold text-gray-900 dark:text-white mb-6">Translation Activity (Last 7 Days)</h3>
+          <h3 className="text-lg font-bold text-gray-900 dark:text-white mb-6">Translation Activity</h3>
           <div className="h-80">
             <ResponsiveContainer width="100%" height="100%">
               <BarChart data={data.dailyActivity}>
                 <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#374151" opacity={0.1} />
                 <XAxis dataKey="date" tick={{fontSize: 12}} stroke="#9ca3af" />
-                <YAxis stroke="#9ca3af" />
+                <YAxis stroke="#9ca3af" allowDecimals={false} />
                 <Tooltip 
                     contentStyle={{ backgroundColor: '#1f2937', borderColor: '#374151', color: '#fff' }}
                     cursor={{fill: 'rgba(255,255,255,0.05)'}}
@@ -171,6 +283,123 @@ export default function AdminDashboard() {
             </ResponsiveContainer>
           </div>
         </div>
+
+        <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700">
+          <h3 className="text-lg font-bold text-gray-900 dark:text-white mb-6">Characters by Type</h3>
+          <div className="h-80">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={data.byType}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#374151" opacity={0.1} />
+                <XAxis dataKey="type" tick={{fontSize: 12}} stroke="#9ca3af" />
+                <YAxis stroke="#9ca3af" allowDecimals={false} />
+                <Tooltip 
+                    contentStyle={{ backgroundColor: '#1f2937', borderColor: '#374151', color: '#fff' }}
+                    cursor={{fill: 'rgba(255,255,255,0.05)'}}
+                />
+                <Bar dataKey="characters" fill="#8b5cf6" radius={[4, 4, 0, 0]} />
+                <Bar dataKey="count" fill="#10b981" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+
+        <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700">
+          <h3 className="text-lg font-bold text-gray-900 dark:text-white mb-6">Language Pairs</h3>
+          {data.languagePairs.length === 0 ? (
+            <p className="text-center py-6 text-gray-500 dark:text-gray-400">No translations in this range.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="text-sm text-center">
+                <thead className="text-xs text-gray-500 dark:text-gray-400">
+                  <tr>
+                    <th className="py-2 pr-3 text-left font-medium">From \ To</th>
+                    {targets.map(target => <th key={target} className="py-2 px-2 font-medium">{target}</th>)}
+                  </tr>
+                </thead>
+                <tbody className="text-gray-700 dark:text-gray-300">
+                  {sources.map(source => (
+                    <tr key={source}>
+                      <td className="py-1 pr-3 text-left font-medium text-gray-500 dark:text-gray-400">{source}</td>
+                      {targets.map(target => {
+                        const count = pairCount(source, target);
+                        return (
+                          <td key={target} className="p-1">
+                            <div
+                              className="rounded px-2 py-1"
+                              style={{ backgroundColor: count ? `rgba(99, 102, 241, ${0.15 + 0.85 * count / maxPair})` : undefined }}
+                            >
+                              {count || '·'}
+                            </div>
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Hour-of-day heatmap */}
+      <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700">
+        <h3 className="text-lg font-bold text-gray-900 dark:text-white mb-6">Activity by Hour</h3>
+        <div className="overflow-x-auto">
+          <div className="grid gap-1 min-w-[640px]" style={{ gridTemplateColumns: 'auto repeat(24, minmax(0, 1fr))' }}>
+            <div />
+            {Array.from({ length: 24 }, (_, hour) => (
+              <div key={hour} className="text-[10px] text-center text-gray-400">{hour % 3 === 0 ? hour : ''}</div>
+            ))}
+            {data.hourHeatmap.map((hours, day) => (
+              <React.Fragment key={day}>
+                <div className="text-xs text-gray-500 dark:text-gray-400 pr-2">{WEEKDAYS[day]}</div>
+                {hours.map((count, hour) => (
+                  <div
+                    key={hour}
+                    title={`${WEEKDAYS[day]} ${String(hour).padStart(2, '0')}:00 — ${count}`}
+                    className="h-6 rounded-sm bg-gray-100 dark:bg-gray-700"
+                    style={count ? { backgroundColor: `rgba(99, 102, 241, ${0.15 + 0.85 * count / maxHour})` } : undefined}
+                  />
+                ))}
+              </React.Fragment>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <ApiUsagePanel range={range} />
+
+      {/* Users */}
+      <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700">
+        <h3 className="text-lg font-bold text-gray-900 dark:text-white mb-6">Users</h3>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-left">
+            <thead className="text-xs uppercase text-gray-500 dark:text-gray-400 border-b border-gray-100 dark:border-gray-700">
+              <tr>
+                <th className="py-2 pr-4">Username</th>
+                <th className="py-2 pr-4">Role</th>
+                <th className="py-2 pr-4">Joined</th>
+                <th className="py-2 pr-4 text-right">AI Requests</th>
+                <th className="py-2 text-right">Last Active</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100 dark:divide-gray-700 text-gray-700 dark:text-gray-300">
+              {users.map(u => (
+                <tr key={u.id}>
+                  <td className="py-2 pr-4 font-medium">{u.username}</td>
+                  <td className="py-2 pr-4">{u.role}</td>
+                  <td className="py-2 pr-4">{new Date(u.createdAt).toLocaleDateString()}</td>
+                  <td className="py-2 pr-4 text-right">{u.requests}</td>
+                  <td className="py-2 text-right">{u.lastActiveAt ? new Date(u.lastActiveAt).toLocaleString() : '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {users.length === 0 && (
+            <p className="text-center py-6 text-gray-500 dark:text-gray-400">No registered users yet.</p>
+          )}
+        </div>
       </div>
     </div>
   );
@@ -1,23 +1,33 @@
 import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../services/authContext';
-import { ShieldCheck, Lock, User } from 'lucide-react';
+import { UserRole } from '../types';
+import { ShieldCheck, Lock, User, Loader2 } from 'lucide-react';
 
 export default function AdminLogin() {
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
-  const { login } = useAuth();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { login, logout } = useAuth();
   const navigate = useNavigate();
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    // Hardcoded credentials for demo
-    if (username === 'admin' && password === 'admin') {
-      login('fake-jwt-token-admin');
+    setError('');
+    setIsSubmitting(true);
+    try {
+      const user = await login(username, password);
+      if (user.role !== UserRole.ADMIN) {
+        await logout();
+        setError('This account does not have admin access');
+        return;
+      }
       navigate('/admin/dashboard');
-    } else {
-      setError('Invalid credentials');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid credentials');
+    } finally {
+      setIsSubmitting(false);
     }
   };
 
@@ -50,7 +60,7 @@ export default function AdminLogin() {
                 value={username}
                 onChange={(e) => setUsername(e.target.value)}
                 className="block w-full pl-10 pr-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-gray-50 dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-primary-500 focus:border-primary-500"
-                placeholder="admin"
+                autoComplete="username"
               />
             </div>
           </div>
@@ -66,16 +76,17 @@ export default function AdminLogin() {
                 value={password}
                 onChange={(e) => setPassword(e.target.value)}
                 className="block w-full pl-10 pr-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-gray-50 dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-primary-500 focus:border-primary-500"
-                placeholder="admin"
+                autoComplete="current-password"
               />
             </div>
           </div>
 
           <button
             type="submit"
-            className="w-full py-2.5 bg-primary-600 hover:bg-primary-700 text-white font-semibold rounded-lg shadow-sm transition-colors"
+            disabled={isSubmitting}
+            className="w-full py-2.5 bg-primary-600 hover:bg-primary-700 text-white font-semibold rounded-lg shadow-sm transition-colors disabled:opacity-50 flex justify-center items-center"
           >
-            Sign In
+            {isSubmitting ? <Loader2 size={18} className="animate-spin" /> : 'Sign In'}
           </button>
         </form>
         
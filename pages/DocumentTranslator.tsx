@@ -1,21 +1,146 @@
-import React, { useState } from 'react';
-import { LANGUAGES } from '../types';
-import { translateDocumentContent, translateBinaryFile } from '../services/gemini';
-import { Upload, FileText, Download, Loader2, File, CheckCircle, Sparkles, Image as ImageIcon, FileType, Printer, Bot } from 'lucide-react';
-import { jsPDF } from "jspdf";
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { useLocation } from 'react-router-dom';
+import { DEFAULT_PREFERENCES, GlossaryIssue, MemoryMatchSummary, QualityEstimate, TranslationResult } from '../types';
+import GlossaryIssues from '../components/GlossaryIssues';
+import MemoryMatchBadge from '../components/MemoryMatchBadge';
+import QualityBadge from '../components/QualityBadge';
+import SegmentProgress from '../components/SegmentProgress';
+import { DocumentPipelineError, DocumentSegment } from '../services/documentPipeline';
+import { translateDocumentContent, translateBinaryFile, translateUnits, TranslationCancelledError } from '../services/gemini';
+import { CsvColumns, getCsvColumns, parseCsvFile, parseJsonFile, StructuredFile, StructuredFormat } from '../services/structuredData';
+import { parseSubtitleFile } from '../services/subtitles';
+import { parseHtmlFile, parseMarkdownFile, renderPreview } from '../services/markup';
+import { isAndroidResources, isI18nextResource, parseAndroidFile, parseI18nextFile, parsePoFile, parseXliffFile } from '../services/localization';
+import { buildTranslatedDocx, createDocxFromText, DocxDocument, docxToText, docxUnitText, parseDocx } from '../services/docx';
+import { getPreferences } from '../services/preferences';
+import { findLanguage, languageName, textProps, useLanguages } from '../services/languages';
+import { getTranslation, getTranslationFile } from '../services/storage';
+import { exportPdf } from '../services/pdfExport';
+import { assessTranslation } from '../services/quality';
+import { useAuth } from '../services/authContext';
+import { Upload, FileText, Download, Loader2, File, CheckCircle, Sparkles, Image as ImageIcon, FileType, Printer, Bot, RotateCcw, Eye, Code, StopCircle, Gauge, Columns2 } from 'lucide-react';
 
 const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB limit
 
+// Source and output of the last finished translation, for the quality check
+interface QualityInput {
+  sourceText: string;
+  translatedText: string;
+  sourceLang: string;
+  targetLang: string;
+  recordId?: string;
+}
+
+const parseStructured = (format: StructuredFormat, text: string, columns: number[], targetLang: string): StructuredFile => {
+  switch (format) {
+    case 'json': return parseJsonFile(text);
+    case 'csv': return parseCsvFile(text, columns);
+    case 'po': return parsePoFile(text, targetLang);
+    case 'xliff': return parseXliffFile(text, targetLang);
+    case 'i18next': return parseI18nextFile(text);
+    case 'android': return parseAndroidFile(text);
+    case 'srt':
+    case 'vtt': return parseSubtitleFile(text, format);
+    case 'markdown': return parseMarkdownFile(text);
+    case 'html': return parseHtmlFile(text);
+  }
+};
+
+// Picks the structure-aware format for an uploaded text file, or null to translate it as free text
+const detectStructuredFormat = (name: string, text: string): StructuredFormat | null => {
+  const lower = name.toLowerCase();
+  if (lower.endsWith('.md') || lower.endsWith('.markdown')) return 'markdown';
+  if (lower.endsWith('.html') || lower.endsWith('.htm')) return 'html';
+  if (lower.endsWith('.srt')) return 'srt';
+  if (lower.endsWith('.vtt')) return 'vtt';
+  if (lower.endsWith('.po') || lower.endsWith('.pot')) return 'po';
+  if (lower.endsWith('.xlf') || lower.endsWith('.xliff')) return 'xliff';
+  if (lower.endsWith('.xml')) return isAndroidResources(text) ? 'android' : null;
+  if (lower.endsWith('.csv')) return 'csv';
+  if (lower.endsWith('.json')) return isI18nextResource(JSON.parse(text)) ? 'i18next' : 'json';
+  return null;
+};
+
 export default function DocumentTranslator() {
+  const { user } = useAuth();
+  const location = useLocation();
+  // Set when History opens a past translation here
+  const reopenId: string | undefined = location.state?.recordId;
+  const languages = useLanguages();
   const [file, setFile] = useState<File | null>(null);
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
   const [content, setContent] = useState('');
+  // Parsed Word package; its runs are translated in place so formatting survives
+  const [docx, setDocx] = useState<DocxDocument | null>(null);
+  // Data and localization files are translated value by value; CSV columns are chosen by the user
+  const [dataFormat, setDataFormat] = useState<StructuredFormat | null>(null);
+  const [csvColumns, setCsvColumns] = useState<CsvColumns | null>(null);
+  const [selectedColumns, setSelectedColumns] = useState<number[]>([]);
   
   // Translation States
   const [translatedContent, setTranslatedContent] = useState('');
+  const [translatedUnits, setTranslatedUnits] = useState<string[]>([]);
+  const [structureProblems, setStructureProblems] = useState<string[]>([]);
+  // Localization entries left untranslated or flagged for review
+  const [reviewEntries, setReviewEntries] = useState<string[]>([]);
+  // Markdown and HTML results can be shown rendered instead of as source
+  const [showPreview, setShowPreview] = useState(false);
+  const [glossaryIssues, setGlossaryIssues] = useState<GlossaryIssue[]>([]);
+  const [memoryMatch, setMemoryMatch] = useState<MemoryMatchSummary | undefined>();
+  // Segment states of the current chunked run; kept after a failure so only failed segments are retried
+  const [segments, setSegments] = useState<DocumentSegment[]>([]);
   const [sourceLang, setSourceLang] = useState('auto');
-  const [targetLang, setTargetLang] = useState('ne');
+  const [targetLang, setTargetLang] = useState(DEFAULT_PREFERENCES.targetLang);
   const [isProcessing, setIsProcessing] = useState(false);
+  // Set when the user stopped the run; translatedContent then holds what had finished
+  const [isPartial, setIsPartial] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+  // Binary files have no source text, so they cannot be checked
+  const [qualityInput, setQualityInput] = useState<QualityInput | null>(null);
+  const [quality, setQuality] = useState<QualityEstimate | undefined>();
+  const [isCheckingQuality, setIsCheckingQuality] = useState(false);
+
+  // A translation reopened from History keeps its own target language
+  useEffect(() => {
+    getPreferences().then(prefs => {
+      if (!reopenId) setTargetLang(prefs.targetLang);
+    });
+  }, [user]);
+
+  // Reloads the stored upload (or the saved source text as a text file) with its translation
+  useEffect(() => {
+    if (!reopenId) return;
+    (async () => {
+      const record = await getTranslation(reopenId);
+      if (!record) return;
+      const stored = await getTranslationFile(record.id);
+      setSourceLang(findLanguage(record.sourceLang)?.code ?? 'auto');
+      setTargetLang(findLanguage(record.targetLang)?.code ?? DEFAULT_PREFERENCES.targetLang);
+      if (stored) {
+        await loadFile(new File([stored.blob], stored.name, { type: stored.type }));
+      } else if (record.sourceText && !record.truncated) {
+        await loadFile(new File([record.sourceText], 'translation.txt', { type: 'text/plain' }));
+      } else {
+        alert("The original file was not kept, so only the translation is shown.");
+      }
+      setTranslatedContent(record.translatedText);
+      setQuality(record.quality);
+    })().catch(error => console.error("History error:", error));
+  }, [reopenId]);
+
+  // Segments translated into another language (or from other columns) cannot be reused
+  useEffect(() => {
+    setSegments([]);
+  }, [sourceLang, targetLang, selectedColumns]);
+
+  const structured = useMemo<StructuredFile | null>(
+    () => dataFormat ? parseStructured(dataFormat, content, selectedColumns, targetLang) : null,
+    [dataFormat, content, selectedColumns, targetLang]
+  );
+
+  const toggleColumn = (index: number) => {
+    setSelectedColumns(prev => prev.includes(index) ? prev.filter(c => c !== index) : [...prev, index].sort((a, b) => a - b));
+  };
 
   const formatFileSize = (bytes: number) => {
     if (bytes === 0) return '0 Bytes';
@@ -35,57 +160,149 @@ export default function DocumentTranslator() {
         return;
       }
 
-      setFile(selectedFile);
-      setTranslatedContent('');
-      setPreviewUrl(null);
-      setContent('');
-
-      // Handle Image
-      if (selectedFile.type.startsWith('image/')) {
-        const url = URL.createObjectURL(selectedFile);
-        setPreviewUrl(url);
-      } 
-      // Handle PDF (Native Gemini Support)
-      else if (selectedFile.type === 'application/pdf') {
-        setContent("[PDF File Detected. Ready for AI Processing.]");
+      await loadFile(selectedFile);
+    }
+  };
+
+  const loadFile = async (selectedFile: File) => {
+    setFile(selectedFile);
+    setTranslatedContent('');
+    setTranslatedUnits([]);
+    setDocx(null);
+    setDataFormat(null);
+    setCsvColumns(null);
+    setSelectedColumns([]);
+    setStructureProblems([]);
+    setReviewEntries([]);
+    setShowPreview(false);
+    setIsPartial(false);
+    setGlossaryIssues([]);
+    setMemoryMatch(undefined);
+    setQualityInput(null);
+    setQuality(undefined);
+    setSegments([]);
+    setPreviewUrl(null);
+    setContent('');
+
+    // Handle Image
+    if (selectedFile.type.startsWith('image/')) {
+      const url = URL.createObjectURL(selectedFile);
+      setPreviewUrl(url);
+    } 
+    // Handle PDF (Native Gemini Support)
+    else if (selectedFile.type === 'application/pdf') {
+      setContent("[PDF File Detected. Ready for AI Processing.]");
+    }
+    // Handle Word documents
+    else if (selectedFile.name.toLowerCase().endsWith('.docx')) {
+      try {
+          const parsed = await parseDocx(await selectedFile.arrayBuffer());
+          setDocx(parsed);
+          setContent(docxToText(parsed.units));
+      } catch (err) {
+          alert("Failed to read Word document. Make sure it is a valid .docx file.");
       }
-      // Handle Text Files
-      else if (
-        selectedFile.type === 'text/plain' || 
-        selectedFile.name.endsWith('.md') || 
-        selectedFile.name.endsWith('.txt') || 
-        selectedFile.name.endsWith('.csv') ||
-        selectedFile.name.endsWith('.json')
-      ) {
-        try {
-            const text = await selectedFile.text();
-            setContent(text);
-        } catch (err) {
-            alert("Failed to read file content.");
-        }
-      } else {
-         setContent("[File selected. If this is a document, AI will attempt to extract text.]");
+    }
+    // Handle Text Files
+    else if (
+      selectedFile.type === 'text/plain' || 
+      selectedFile.name.endsWith('.md') || 
+      selectedFile.name.endsWith('.txt') || 
+      selectedFile.name.endsWith('.csv') ||
+      /\.(json|po|pot|xlf|xliff|xml|srt|vtt|markdown|html?)$/i.test(selectedFile.name)
+    ) {
+      try {
+          const text = await selectedFile.text();
+          setContent(text);
+
+          try {
+              const format = detectStructuredFormat(selectedFile.name, text);
+              if (format === 'csv') {
+                  const columns = getCsvColumns(text);
+                  setCsvColumns(columns);
+                  setSelectedColumns(columns.suggested);
+              } else if (format) {
+                  // Surface parse errors now rather than at translation time
+                  parseStructured(format, text, [], targetLang);
+              }
+              setDataFormat(format);
+          } catch {
+              alert("This file could not be parsed, so it will be translated as plain text.");
+          }
+      } catch (err) {
+          alert("Failed to read file content.");
       }
+    } else {
+       setContent("[File selected. If this is a document, AI will attempt to extract text.]");
     }
   };
 
-  const handleTranslate = async () => {
+  // Failed segments, plus those never started because the run was stopped
+  const unfinishedSegments = segments.filter(s => s.status === 'failed' || s.status === 'pending').length;
+
+  // PDFs and images go out as one request that cannot be stopped midway
+  const isBinaryFile = !!file && (file.type.startsWith('image/') || file.type === 'application/pdf' || content.startsWith('[File selected'));
+
+  const handleTranslate = async (retryFailed = false) => {
     if (!file) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
     setIsProcessing(true);
+    setIsPartial(false);
+    setTranslatedContent('');
+    setGlossaryIssues([]);
+    setMemoryMatch(undefined);
+    setQualityInput(null);
+    setQuality(undefined);
     try {
-        const tLangName = LANGUAGES.find(l => l.code === targetLang)?.name || targetLang;
-        let resultText = "";
+        const tLangName = languageName(targetLang);
+        const sLangName = sourceLang === 'auto' ? 'auto' : languageName(sourceLang);
+        let result: TranslationResult;
+        // Left empty for binary files
+        let checkSource = '';
+        let checkOutput = '';
 
         // 1. Binary Files (PDF, Image) - Send as Base64 to Gemini
         if (file.type.startsWith('image/') || file.type === 'application/pdf') {
             const base64 = await fileToBase64(file);
-            resultText = await translateBinaryFile(base64, file.type, tLangName);
-            setTranslatedContent(resultText);
+            result = await translateBinaryFile(base64, file.type, tLangName, file);
         } 
-        // 2. Text Translation
+        // 2. Word documents - translate paragraph runs so the original layout can be rebuilt
+        else if (docx) {
+            const unitResult = await translateUnits(docx.units, sLangName, tLangName, {
+              toPlainText: docxUnitText,
+              segments: retryFailed ? segments : undefined,
+              onProgress: setSegments,
+              signal: controller.signal,
+              file,
+            });
+            setTranslatedUnits(unitResult.units);
+            result = unitResult;
+            checkSource = unitResult.sourceText;
+            checkOutput = unitResult.text;
+        }
+        // 3. JSON / CSV - translate string values only, then rebuild and validate the file
+        else if (structured) {
+            if (structured.units.length === 0) {
+                alert(dataFormat === 'csv' ? "Select at least one column with text to translate." : "Nothing left to translate in this file.");
+                return;
+            }
+            const unitResult = await translateUnits(structured.units, sLangName, tLangName, {
+              segments: retryFailed ? segments : undefined,
+              onProgress: setSegments,
+              signal: controller.signal,
+              file,
+            });
+            const output = structured.build(unitResult.units);
+            setStructureProblems(output.problems);
+            setReviewEntries(output.review ?? []);
+            result = { ...unitResult, text: output.text };
+            checkSource = unitResult.sourceText;
+            checkOutput = unitResult.text;
+        }
+        // 4. Text Translation
         else {
             const textToTranslate = content || "Binary file content placeholder";
-            const sLangName = sourceLang === 'auto' ? 'auto' : LANGUAGES.find(l => l.code === sourceLang)?.name || sourceLang;
             
             // If it's a binary file we couldn't preview but allowed (like docx fallback attempt)
             if (content.startsWith('[File selected')) {
@@ -93,21 +310,64 @@ export default function DocumentTranslator() {
                  const base64 = await fileToBase64(file);
                  // Warning: Gemini might not support docx mimeType directly, but we can try generic application/octet-stream or specific if known.
                  // For now, let's try strict mime type.
-                 resultText = await translateBinaryFile(base64, file.type, tLangName);
+                 result = await translateBinaryFile(base64, file.type, tLangName, file);
             } else {
-                 resultText = await translateDocumentContent(textToTranslate, sLangName, tLangName);
+                 result = await translateDocumentContent(textToTranslate, sLangName, tLangName, {
+                   segments: retryFailed ? segments : undefined,
+                   onProgress: setSegments,
+                   onPartial: setTranslatedContent,
+                   signal: controller.signal,
+                   file,
+                 });
+                 checkSource = textToTranslate;
+                 checkOutput = result.text;
+            }
+        }
+
+        setTranslatedContent(result.text);
+        setGlossaryIssues(result.glossaryIssues);
+        setMemoryMatch(result.memoryMatch);
+
+        if (checkSource && checkOutput) {
+            const input = { sourceText: checkSource, translatedText: checkOutput, sourceLang: sLangName, targetLang: tLangName, recordId: result.recordId };
+            setQualityInput(input);
+            if ((await getPreferences()).qualityCheck) {
+                runQualityCheck(input);
             }
-            setTranslatedContent(resultText);
         }
 
     } catch (e) {
         console.error(e);
-        alert("Error processing document. Please check your API key or file format.");
+        if (e instanceof TranslationCancelledError) {
+            setSegments(e.segments);
+            setTranslatedContent(e.partialText);
+            setIsPartial(true);
+        } else if (e instanceof DocumentPipelineError) {
+            setSegments(e.segments);
+        } else {
+            alert("Error processing document. Please check your API key or file format.");
+        }
     } finally {
+        abortRef.current = null;
         setIsProcessing(false);
     }
   };
 
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
+
+  const runQualityCheck = async (input: QualityInput) => {
+    setIsCheckingQuality(true);
+    try {
+        setQuality(await assessTranslation(input.sourceText, input.translatedText, input.sourceLang, input.targetLang, input.recordId));
+    } catch (e) {
+        alert("Failed to check translation quality.");
+    } finally {
+        setIsCheckingQuality(false);
+    }
+  };
+
   const fileToBase64 = (file: File): Promise<string> => {
     return new Promise((resolve, reject) => {
         const reader = new FileReader();
@@ -123,30 +383,59 @@ export default function DocumentTranslator() {
 
   // --- Export Functions ---
 
-  const handleDownloadPDF = () => {
+  // Bilingual export puts the original beside the translation, which needs readable source text
+  const handleDownloadPDF = async (bilingual = false) => {
     if (!translatedContent) return;
-    const doc = new jsPDF();
-    
-    // Split text to fit page
-    const splitText = doc.splitTextToSize(translatedContent, 180);
-    doc.text(splitText, 10, 10);
-    doc.save(`translated_${file?.name || 'doc'}.pdf`);
+
+    try {
+        const blob = await exportPdf({
+            title: file?.name || 'Translation',
+            translation: { text: translatedContent, lang: targetLang },
+            source: bilingual ? { text: content, lang: sourceLang === 'auto' ? '' : sourceLang } : undefined,
+        });
+        const baseName = (file?.name || 'doc').replace(/\.[^.]+$/, '');
+
+        const element = document.createElement("a");
+        element.href = URL.createObjectURL(blob);
+        element.download = `translated_${baseName}${bilingual ? '_bilingual' : ''}.pdf`;
+        document.body.appendChild(element);
+        element.click();
+        document.body.removeChild(element);
+    } catch (e) {
+        console.error(e);
+        alert("Failed to build PDF.");
+    }
   };
 
-  const handleDownloadWord = () => {
+  const handleDownloadWord = async () => {
     if (!translatedContent) return;
-    
-    const header = "<html xmlns:o='urn:schemas-microsoft-com:office:office' " +
-            "xmlns:w='urn:schemas-microsoft-com:office:word' " +
-            "xmlns='http://www.w3.org/TR/REC-html40'>" +
-            "<head><meta charset='utf-8'><title>Export HTML to Word Document with JavaScript</title></head><body>";
-    const footer = "</body></html>";
-    const sourceHTML = header + `<p style="white-space: pre-wrap;">${translatedContent}</p>` + footer;
-
-    const source = 'data:application/vnd.ms-word;charset=utf-8,' + encodeURIComponent(sourceHTML);
+
+    try {
+        // Word sources keep their formatting; anything else becomes a plain .docx
+        const blob = docx && translatedUnits.length
+            ? await buildTranslatedDocx(docx, translatedUnits)
+            : await createDocxFromText(translatedContent);
+        const baseName = (file?.name || 'doc').replace(/\.docx$/i, '');
+
+        const element = document.createElement("a");
+        element.href = URL.createObjectURL(blob);
+        element.download = `translated_${baseName}.docx`;
+        document.body.appendChild(element);
+        element.click();
+        document.body.removeChild(element);
+    } catch (e) {
+        console.error(e);
+        alert("Failed to build Word document.");
+    }
+  };
+
+  // Only offered once the rebuilt file has been checked against the original structure
+  const handleDownloadData = () => {
+    if (!structured || !translatedContent || structureProblems.length > 0) return;
     const element = document.createElement("a");
-    element.href = source;
-    element.download = `translated_${file?.name || 'doc'}.doc`;
+    const fileBlob = new Blob([translatedContent], {type: structured.mimeType});
+    element.href = URL.createObjectURL(fileBlob);
+    element.download = `translated_${file?.name || `data.${structured.format}`}`;
     document.body.appendChild(element);
     element.click();
     document.body.removeChild(element);
@@ -167,7 +456,7 @@ export default function DocumentTranslator() {
       <div className="mb-8">
         <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">Document Translator</h1>
         <p className="text-gray-500 dark:text-gray-400">
-            Upload PDFs, Images, or Text files. AI will extract content and translate it while preserving context.
+            Upload PDFs, Images, Word, Text or localization files (PO, XLIFF, i18next JSON, Android strings.xml) and subtitles (SRT, WebVTT). Markdown and HTML keep their code, links and markup. AI will extract content and translate it while preserving context.
         </p>
       </div>
 
@@ -186,7 +475,7 @@ export default function DocumentTranslator() {
                   className="w-full bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-lg px-3 py-2 text-sm text-gray-900 dark:text-white focus:ring-2 focus:ring-primary-500"
                 >
                   <option value="auto">✨ Detect Language</option>
-                  {LANGUAGES.map((lang) => (
+                  {languages.map((lang) => (
                     <option key={lang.code} value={lang.code}>{lang.flag} {lang.name}</option>
                   ))}
                 </select>
@@ -199,7 +488,7 @@ export default function DocumentTranslator() {
                   onChange={(e) => setTargetLang(e.target.value)}
                   className="w-full bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-lg px-3 py-2 text-sm text-gray-900 dark:text-white focus:ring-2 focus:ring-primary-500"
                 >
-                  {LANGUAGES.map((lang) => (
+                  {languages.map((lang) => (
                     <option key={lang.code} value={lang.code}>{lang.flag} {lang.name}</option>
                   ))}
                 </select>
@@ -207,6 +496,26 @@ export default function DocumentTranslator() {
             </div>
           </div>
 
+          {csvColumns && (
+            <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700">
+              <h2 className="text-lg font-semibold mb-1 text-gray-800 dark:text-white">Columns to Translate</h2>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">The header row and unselected columns are kept as they are.</p>
+              <div className="space-y-2 max-h-60 overflow-auto">
+                {csvColumns.names.map((name, index) => (
+                  <label key={index} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={selectedColumns.includes(index)}
+                      onChange={() => toggleColumn(index)}
+                      className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                    />
+                    <span className="truncate">{name}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
           <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700">
             <label className={`flex flex-col items-center justify-center w-full h-48 border-2 border-dashed rounded-xl cursor-pointer transition-colors ${file ? 'border-primary-500 bg-primary-50 dark:bg-primary-900/10' : 'border-gray-300 dark:border-gray-600 bg-gray-50 dark:bg-gray-800/50 hover:bg-gray-100 dark:hover:bg-gray-700/50'}`}>
                 <div className="flex flex-col items-center justify-center pt-5 pb-6 px-4 text-center">
@@ -220,24 +529,48 @@ export default function DocumentTranslator() {
                       <>
                         <Upload className="w-10 h-10 mb-3 text-gray-400" />
                         <p className="mb-2 text-sm text-gray-500 dark:text-gray-400"><span className="font-semibold">Click to upload</span></p>
-                        <p className="text-xs text-gray-500 dark:text-gray-400">PDF, Images, TXT, MD, CSV</p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">PDF, Images, DOCX, TXT, MD, CSV, HTML, PO, XLIFF, SRT, VTT</p>
                       </>
                     )}
                 </div>
                 {/* Accepted file types */}
-                <input type="file" className="hidden" onChange={handleFileChange} accept="image/*,.pdf,.txt,.md,.csv,.json" />
+                <input type="file" className="hidden" onChange={handleFileChange} accept="image/*,.pdf,.docx,.txt,.md,.csv,.json,.po,.pot,.xlf,.xliff,.xml,.srt,.vtt,.markdown,.html,.htm" />
             </label>
           </div>
           
           {file && (
             <button
-                onClick={handleTranslate}
+                onClick={() => handleTranslate()}
                 disabled={isProcessing}
                 className="w-full py-3 bg-gradient-to-r from-primary-600 to-indigo-600 hover:from-primary-700 hover:to-indigo-700 text-white font-semibold rounded-lg shadow-lg hover:shadow-xl transition-all disabled:opacity-50 flex justify-center items-center transform hover:-translate-y-0.5"
             >
                 {isProcessing ? <><Loader2 className="animate-spin mr-2"/> Processing Document...</> : 'Translate Document'}
             </button>
           )}
+
+          {isProcessing && !isBinaryFile && (
+            <button
+                onClick={handleStop}
+                className="w-full py-2 flex justify-center items-center text-sm font-medium text-white bg-red-600 hover:bg-red-700 rounded-lg shadow transition-colors"
+            >
+                <StopCircle size={16} className="mr-2" /> Stop
+            </button>
+          )}
+
+          {segments.length > 0 && (
+            <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 space-y-4">
+              <SegmentProgress segments={segments} />
+              {unfinishedSegments > 0 && !isProcessing && (
+                <button
+                  onClick={() => handleTranslate(true)}
+                  className="w-full py-2 flex justify-center items-center text-sm font-medium text-red-600 bg-red-50 hover:bg-red-100 dark:bg-red-900/20 dark:text-red-400 dark:hover:bg-red-900/30 rounded-lg transition-colors"
+                >
+                  <RotateCcw size={16} className="mr-2" />
+                  Retry {unfinishedSegments} unfinished {unfinishedSegments === 1 ? 'segment' : 'segments'}
+                </button>
+              )}
+            </div>
+          )}
         </div>
 
         {/* Preview & Result Area */}
@@ -253,10 +586,16 @@ export default function DocumentTranslator() {
                 
                 {/* Export Options */}
                 <div className="flex items-center gap-1">
-                    {translatedContent && (
+                    {translatedContent && !isProcessing && (
                         <div className="flex bg-white dark:bg-gray-700 rounded-md border border-gray-200 dark:border-gray-600 p-1">
-                            <button onClick={handleDownloadPDF} title="Export PDF" className="p-1.5 hover:bg-gray-100 dark:hover:bg-gray-600 rounded text-red-600 dark:text-red-400"><Printer size={16}/></button>
+                            <button onClick={() => handleDownloadPDF()} title="Export PDF" className="p-1.5 hover:bg-gray-100 dark:hover:bg-gray-600 rounded text-red-600 dark:text-red-400"><Printer size={16}/></button>
+                            {!isBinaryFile && content && (
+                                <button onClick={() => handleDownloadPDF(true)} title="Export bilingual PDF" className="p-1.5 hover:bg-gray-100 dark:hover:bg-gray-600 rounded text-red-600 dark:text-red-400"><Columns2 size={16}/></button>
+                            )}
                             <button onClick={handleDownloadWord} title="Export Word" className="p-1.5 hover:bg-gray-100 dark:hover:bg-gray-600 rounded text-blue-600 dark:text-blue-400"><FileType size={16}/></button>
+                            {structured && structureProblems.length === 0 && (
+                                <button onClick={handleDownloadData} title={`Export ${structured.format.toUpperCase()}`} className="p-1.5 hover:bg-gray-100 dark:hover:bg-gray-600 rounded text-green-600 dark:text-green-400"><Download size={16}/></button>
+                            )}
                             <button onClick={handleDownloadText} title="Export Text" className="p-1.5 hover:bg-gray-100 dark:hover:bg-gray-600 rounded text-gray-600 dark:text-gray-400"><FileText size={16}/></button>
                         </div>
                     )}
@@ -274,20 +613,100 @@ export default function DocumentTranslator() {
 
                 {/* Translation Output */}
                 <div className="flex-1 p-6 font-mono text-sm overflow-auto bg-white dark:bg-gray-800">
-                    {isProcessing ? (
+                    {isProcessing && translatedContent ? (
+                        <div className="space-y-4">
+                            {segments.length > 0 && <SegmentProgress segments={segments} />}
+                            <div className="whitespace-pre-wrap text-gray-800 dark:text-gray-300" {...textProps(targetLang)}>
+                                {translatedContent}
+                                <span className="inline-block w-2 h-4 ml-0.5 bg-primary-500 animate-pulse align-middle" />
+                            </div>
+                        </div>
+                    ) : isProcessing ? (
                         <div className="h-full flex flex-col items-center justify-center text-gray-400 space-y-4">
                             <Loader2 className="w-12 h-12 animate-spin text-primary-500" />
                             <div className="text-center">
                                 <p className="font-medium text-gray-900 dark:text-white">AI Processing</p>
                                 <p className="text-sm">Reading file & translating...</p>
                             </div>
+                            {segments.length > 0 && (
+                                <div className="w-full max-w-sm">
+                                    <SegmentProgress segments={segments} />
+                                </div>
+                            )}
                         </div>
                     ) : translatedContent ? (
-                        <div className="whitespace-pre-wrap text-gray-800 dark:text-gray-300">
-                             {translatedContent}
+                        <div className="space-y-4">
+                            {isPartial && (
+                                <div className="p-4 bg-yellow-50 dark:bg-yellow-900/20 text-yellow-700 dark:text-yellow-400 rounded-lg text-xs">
+                                    Translation stopped. Showing the segments that finished; retry the unfinished segments to complete it.
+                                </div>
+                            )}
+                            <div className="flex flex-wrap items-start gap-2 font-sans">
+                                <MemoryMatchBadge match={memoryMatch} />
+                                {qualityInput && !quality && (
+                                    <button
+                                        onClick={() => runQualityCheck(qualityInput)}
+                                        disabled={isCheckingQuality}
+                                        className="inline-flex items-center px-2 py-1 rounded-md text-xs font-medium bg-gray-100 text-gray-600 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600 disabled:opacity-50"
+                                    >
+                                        {isCheckingQuality ? <Loader2 size={12} className="animate-spin mr-1" /> : <Gauge size={12} className="mr-1" />}
+                                        {isCheckingQuality ? 'Back-translating and scoring...' : 'Check quality'}
+                                    </button>
+                                )}
+                            </div>
+                            <div className="font-sans empty:hidden">
+                                <QualityBadge quality={quality} detailed />
+                            </div>
+                            <GlossaryIssues issues={glossaryIssues} />
+                            {structureProblems.length > 0 && (
+                                <div className="p-4 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-400 rounded-lg text-xs space-y-1">
+                                    <p className="font-semibold">The translated file does not match the original structure, so it cannot be downloaded as {structured?.format.toUpperCase()}.</p>
+                                    {structureProblems.map((problem, i) => <p key={i}>{problem}</p>)}
+                                </div>
+                            )}
+                            {reviewEntries.length > 0 && (
+                                <div className="p-4 bg-yellow-50 dark:bg-yellow-900/20 text-yellow-700 dark:text-yellow-400 rounded-lg text-xs space-y-1">
+                                    <p className="font-semibold">
+                                        {reviewEntries.length} {reviewEntries.length === 1 ? 'entry needs' : 'entries need'} review.
+                                        {dataFormat === 'srt' || dataFormat === 'vtt'
+                                            ? ' Consider shortening these cues; their timing was kept unchanged.'
+                                            : ' Placeholders changed or the translation is missing. They are flagged in the file where the format allows it, otherwise left in the source language.'}
+                                    </p>
+                                    {reviewEntries.slice(0, 20).map((entry, i) => <p key={i} className="truncate">{entry}</p>)}
+                                </div>
+                            )}
+                            {(dataFormat === 'markdown' || dataFormat === 'html') && (
+                                <div className="flex bg-gray-100 dark:bg-gray-700 rounded-lg p-1 w-fit font-sans">
+                                    <button
+                                        onClick={() => setShowPreview(false)}
+                                        className={`flex items-center gap-1 px-3 py-1 rounded-md text-xs font-medium ${!showPreview ? 'bg-white dark:bg-gray-600 shadow-sm text-gray-900 dark:text-white' : 'text-gray-500 dark:text-gray-400'}`}
+                                    >
+                                        <Code size={14} /> Source
+                                    </button>
+                                    <button
+                                        onClick={() => setShowPreview(true)}
+                                        className={`flex items-center gap-1 px-3 py-1 rounded-md text-xs font-medium ${showPreview ? 'bg-white dark:bg-gray-600 shadow-sm text-gray-900 dark:text-white' : 'text-gray-500 dark:text-gray-400'}`}
+                                    >
+                                        <Eye size={14} /> Preview
+                                    </button>
+                                </div>
+                            )}
+                            {showPreview && (dataFormat === 'markdown' || dataFormat === 'html') ? (
+                                // Empty sandbox: scripts and forms in the translated file never run
+                                <iframe
+                                    title="Translated preview"
+                                    sandbox=""
+                                    srcDoc={renderPreview(dataFormat, translatedContent)}
+                                    className="w-full h-[500px] bg-white rounded-lg border border-gray-200 dark:border-gray-700"
+                                />
+                            ) : (
+                                <div className="whitespace-pre-wrap text-gray-800 dark:text-gray-300" {...textProps(targetLang)}>
+                                    {translatedContent}
+                                </div>
+                            )}
                         </div>
                     ) : content ? (
-                         <div className="whitespace-pre-wrap text-gray-500 dark:text-gray-500 opacity-70">
+                         <div className="whitespace-pre-wrap text-gray-500 dark:text-gray-500 opacity-70" {...textProps(sourceLang === 'auto' ? '' : sourceLang)}>
                             {content.substring(0, 500)}...
                             <div className="mt-4 p-4 bg-yellow-50 dark:bg-yellow-900/20 text-yellow-700 dark:text-yellow-400 rounded-lg text-xs">
                                 Preview of content. Click "Translate Document" to process.
@@ -0,0 +1,237 @@
+import React, { useEffect, useState } from 'react';
+import { GlossaryEntry } from '../types';
+import {
+  GlossaryInput,
+  createGlossaryEntry,
+  deleteGlossaryEntry,
+  getGlossary,
+  importGlossaryCsv,
+  updateGlossaryEntry,
+} from '../services/glossary';
+import { languageLabel, textProps, useLanguages } from '../services/languages';
+import { BookA, Check, Loader2, Pencil, Plus, Trash2, Upload, X } from 'lucide-react';
+
+const EMPTY_INPUT: GlossaryInput = {
+  sourceLang: 'en',
+  targetLang: 'ne',
+  source: '',
+  target: '',
+  caseSensitive: false,
+  note: '',
+};
+
+export default function Glossary() {
+  const languages = useLanguages();
+  const [entries, setEntries] = useState<GlossaryEntry[]>([]);
+  const [draft, setDraft] = useState<GlossaryInput>(EMPTY_INPUT);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [pairFilter, setPairFilter] = useState('all');
+  const [error, setError] = useState('');
+  const [importMessage, setImportMessage] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+
+  const reload = async () => setEntries(await getGlossary(true));
+
+  useEffect(() => {
+    reload().catch(() => setError('Failed to load glossary.'));
+  }, []);
+
+  const run = async (action: () => Promise<void>) => {
+    setError('');
+    setIsBusy(true);
+    try {
+      await action();
+      await reload();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      if (editingId) {
+        await updateGlossaryEntry(editingId, draft);
+      } else {
+        await createGlossaryEntry(draft);
+      }
+      setDraft({ ...EMPTY_INPUT, sourceLang: draft.sourceLang, targetLang: draft.targetLang });
+      setEditingId(null);
+    });
+  };
+
+  const handleEdit = (entry: GlossaryEntry) => {
+    setEditingId(entry.id);
+    setDraft({
+      sourceLang: entry.sourceLang,
+      targetLang: entry.targetLang,
+      source: entry.source,
+      target: entry.target,
+      caseSensitive: entry.caseSensitive,
+      note: entry.note || '',
+    });
+  };
+
+  const handleCancelEdit = () => {
+    setEditingId(null);
+    setDraft(EMPTY_INPUT);
+  };
+
+  const handleDelete = (entry: GlossaryEntry) => {
+    if (!confirm(`Delete the glossary entry for "${entry.source}"?`)) return;
+    run(() => deleteGlossaryEntry(entry.id));
+  };
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setImportMessage('');
+    run(async () => {
+      const { imported, errors } = await importGlossaryCsv(await file.text());
+      setImportMessage(
+        `Imported ${imported} ${imported === 1 ? 'entry' : 'entries'}.` +
+        (errors.length ? ` Skipped ${errors.length}: ${errors.slice(0, 3).join('; ')}` : '')
+      );
+    });
+  };
+
+  const pairs = Array.from(new Set<string>(entries.map(e => `${e.sourceLang}>${e.targetLang}`))).sort();
+  const visibleEntries = pairFilter === 'all'
+    ? entries
+    : entries.filter(e => `${e.sourceLang}>${e.targetLang}` === pairFilter);
+
+  const inputClass = "w-full bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-lg px-3 py-2 text-sm text-gray-900 dark:text-white focus:ring-2 focus:ring-primary-500";
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4 mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-1">Glossary</h1>
+          <p className="text-gray-500 dark:text-gray-400">Terms that must always translate the same way, per language pair.</p>
+        </div>
+        <label className="flex items-center px-4 py-2 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 rounded-lg transition-colors text-sm font-medium cursor-pointer">
+          <Upload size={16} className="mr-2" />
+          Import CSV
+          <input type="file" accept=".csv,text/csv" className="hidden" onChange={handleImport} />
+        </label>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 dark:bg-red-900/30 text-red-600 dark:text-red-400 text-sm rounded-lg">{error}</div>
+      )}
+      {importMessage && (
+        <div className="p-3 bg-green-50 dark:bg-green-900/30 text-green-700 dark:text-green-400 text-sm rounded-lg">
+          {importMessage}
+          <p className="text-xs opacity-70 mt-1">Columns: source_lang, target_lang, source, target, note (optional)</p>
+        </div>
+      )}
+
+      {/* Entry form */}
+      <form onSubmit={handleSubmit} className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 grid md:grid-cols-6 gap-4 items-end">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">From</label>
+          <select value={draft.sourceLang} onChange={(e) => setDraft({ ...draft, sourceLang: e.target.value })} className={inputClass}>
+            {languages.map(lang => <option key={lang.code} value={lang.code}>{lang.flag} {lang.name}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">To</label>
+          <select value={draft.targetLang} onChange={(e) => setDraft({ ...draft, targetLang: e.target.value })} className={inputClass}>
+            {languages.map(lang => <option key={lang.code} value={lang.code}>{lang.flag} {lang.name}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Source term</label>
+          <input value={draft.source} onChange={(e) => setDraft({ ...draft, source: e.target.value })} className={inputClass} required />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Translation</label>
+          <input value={draft.target} onChange={(e) => setDraft({ ...draft, target: e.target.value })} className={inputClass} required />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Note</label>
+          <input value={draft.note || ''} onChange={(e) => setDraft({ ...draft, note: e.target.value })} className={inputClass} />
+        </div>
+        <div className="flex items-center gap-2">
+          <label className="flex items-center text-xs text-gray-600 dark:text-gray-400 mr-auto">
+            <input
+              type="checkbox"
+              checked={draft.caseSensitive}
+              onChange={(e) => setDraft({ ...draft, caseSensitive: e.target.checked })}
+              className="mr-1.5"
+            />
+            Match case
+          </label>
+          {editingId && (
+            <button type="button" onClick={handleCancelEdit} className="p-2 rounded-lg text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700" title="Cancel">
+              <X size={18} />
+            </button>
+          )}
+          <button
+            type="submit"
+            disabled={isBusy}
+            className="p-2 rounded-lg bg-primary-600 hover:bg-primary-700 text-white disabled:opacity-50"
+            title={editingId ? 'Save' : 'Add'}
+          >
+            {isBusy ? <Loader2 size={18} className="animate-spin" /> : editingId ? <Check size={18} /> : <Plus size={18} />}
+          </button>
+        </div>
+      </form>
+
+      {/* Entries */}
+      <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-bold text-gray-900 dark:text-white flex items-center">
+            <BookA size={18} className="mr-2 text-primary-600" />
+            {visibleEntries.length} {visibleEntries.length === 1 ? 'Entry' : 'Entries'}
+          </h3>
+          <select value={pairFilter} onChange={(e) => setPairFilter(e.target.value)} className="bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-lg px-3 py-1.5 text-sm text-gray-900 dark:text-white">
+            <option value="all">All language pairs</option>
+            {pairs.map(pair => {
+              const [from, to] = pair.split('>');
+              return <option key={pair} value={pair}>{languageLabel(from)} → {languageLabel(to)}</option>;
+            })}
+          </select>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-left">
+            <thead className="text-xs uppercase text-gray-500 dark:text-gray-400 border-b border-gray-100 dark:border-gray-700">
+              <tr>
+                <th className="py-2 pr-4">Pair</th>
+                <th className="py-2 pr-4">Source</th>
+                <th className="py-2 pr-4">Translation</th>
+                <th className="py-2 pr-4">Note</th>
+                <th className="py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100 dark:divide-gray-700 text-gray-700 dark:text-gray-300">
+              {visibleEntries.map(entry => (
+                <tr key={entry.id} className={editingId === entry.id ? 'bg-primary-50 dark:bg-primary-900/10' : ''}>
+                  <td className="py-2 pr-4 whitespace-nowrap uppercase text-xs text-gray-500">{entry.sourceLang} → {entry.targetLang}</td>
+                  <td className="py-2 pr-4 font-medium" {...textProps(entry.sourceLang)}>{entry.source}</td>
+                  <td className="py-2 pr-4" {...textProps(entry.targetLang)}>{entry.target}</td>
+                  <td className="py-2 pr-4 text-gray-500">{entry.note}</td>
+                  <td className="py-2 text-right whitespace-nowrap">
+                    <button onClick={() => handleEdit(entry)} className="p-1.5 rounded text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700" title="Edit">
+                      <Pencil size={14} />
+                    </button>
+                    <button onClick={() => handleDelete(entry)} className="p-1.5 rounded text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20" title="Delete">
+                      <Trash2 size={14} />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {visibleEntries.length === 0 && (
+            <p className="text-center py-6 text-gray-500 dark:text-gray-400">No glossary entries yet.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
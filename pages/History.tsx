@@ -1,26 +1,345 @@
-import React, { useEffect, useState } from 'react';
-import { getHistory, clearHistory } from '../services/storage';
-import { TranslationRecord } from '../types';
-import { Trash2, Search, Clock, FileText, Type } from 'lucide-react';
+import React, { useDeferredValue, useEffect, useMemo, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  getHistory,
+  clearHistory,
+  importTranslations,
+  createCollection,
+  deleteCollection,
+  deleteTranslation,
+  getCollections,
+  renameCollection,
+  setCollection,
+  setFavorite,
+  setTags,
+} from '../services/storage';
+import { rerunTranslation } from '../services/gemini';
+import { exportHistory, HistoryFormat, parseHistoryFile } from '../services/historyExchange';
+import { buildSearchIndex, countBy, EMPTY_FACETS, facetLang, HistoryFacets, matchesFacets } from '../services/historySearch';
+import { HistoryCollection, TranslationRecord } from '../types';
+import { useAuth } from '../services/authContext';
+import TranslatorNotes from '../components/TranslatorNotes';
+import QualityBadge from '../components/QualityBadge';
+import VirtualList from '../components/VirtualList';
+import { needsReview } from '../services/quality';
+import { languageName, textProps, useLanguages } from '../services/languages';
+import { Trash2, Search, Clock, FileText, Type, Flag, Star, Tag, X, Plus, ExternalLink, RefreshCw, Loader2, FolderPlus, Pencil, Download, Upload, ChevronLeft, ChevronRight } from 'lucide-react';
+
+const PAGE_SIZE = 200;
 
 export default function History() {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  // Text direction and fonts come from the registry, so re-render once it has loaded
+  useLanguages(true);
   const [history, setHistory] = useState<TranslationRecord[]>([]);
+  const [collections, setCollections] = useState<HistoryCollection[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
+  // Typing stays responsive while the results for the previous keystroke render
+  const deferredSearch = useDeferredValue(searchTerm);
+  const [facets, setFacets] = useState<HistoryFacets>(EMPTY_FACETS);
+  const [page, setPage] = useState(0);
+  const [reviewOnly, setReviewOnly] = useState(false);
+  const [favoritesOnly, setFavoritesOnly] = useState(false);
+  // '' shows every collection
+  const [collectionFilter, setCollectionFilter] = useState('');
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  // Record whose tag input is open, and what has been typed into it
+  const [taggingId, setTaggingId] = useState<string | null>(null);
+  const [tagDraft, setTagDraft] = useState('');
+  const [rerunningId, setRerunningId] = useState<string | null>(null);
+  // Records ticked for export; with none ticked the whole history is exported
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [exportFormat, setExportFormat] = useState<HistoryFormat>('json');
+  const importInputRef = useRef<HTMLInputElement>(null);
 
+  // History is per user, so reload once the session is known
   useEffect(() => {
-    setHistory(getHistory());
-  }, []);
+    getHistory().then(setHistory);
+    getCollections().then(setCollections).catch(error => console.error("Collections error:", error));
+    setCollectionFilter('');
+    setSelected(new Set());
+  }, [user]);
+
+  const replaceRecord = (updated: TranslationRecord) =>
+    setHistory(current => current.map(item => (item.id === updated.id ? updated : item)));
+
+  // Every organizing action reports failure the same way
+  const run = async (action: () => Promise<void>, failure: string) => {
+    try {
+      await action();
+    } catch (error) {
+      console.error(error);
+      alert(failure);
+    }
+  };
 
-  const handleClear = () => {
+  const handleClear = async () => {
     if (confirm('Are you sure you want to clear all history?')) {
-      clearHistory();
-      setHistory([]);
+      try {
+        await clearHistory();
+        setHistory([]);
+        setSelected(new Set());
+      } catch (error) {
+        console.error(error);
+        alert("Failed to clear history.");
+      }
+    }
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelected(current => {
+      const next = new Set(current);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleExport = () => {
+    const records = selected.size ? history.filter(item => selected.has(item.id)) : history;
+    if (records.length === 0) return;
+    const { content, mimeType, extension } = exportHistory(records, exportFormat);
+    const element = document.createElement("a");
+    element.href = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    element.download = `translation_history_${new Date().toISOString().split('T')[0]}.${extension}`;
+    document.body.appendChild(element);
+    element.click();
+    document.body.removeChild(element);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const importFile = e.target.files?.[0];
+    e.target.value = '';
+    if (!importFile) return;
+    try {
+      const records = parseHistoryFile(importFile.name, await importFile.text());
+      const { added, skipped } = await importTranslations(records);
+      setHistory(await getHistory());
+      alert(`Imported ${added} ${added === 1 ? 'translation' : 'translations'}${skipped ? `, skipped ${skipped} already in history` : ''}.`);
+    } catch (error) {
+      alert(error instanceof Error ? `Import failed: ${error.message}` : "Import failed.");
+    }
+  };
+
+  const handleFavorite = (item: TranslationRecord) =>
+    run(async () => replaceRecord(await setFavorite(item.id, !item.favorite)), "Failed to update the translation.");
+
+  const handleAddTag = (item: TranslationRecord) => {
+    const tag = tagDraft.trim();
+    setTaggingId(null);
+    setTagDraft('');
+    if (!tag) return;
+    run(async () => replaceRecord(await setTags(item.id, [...(item.tags ?? []), tag])), "Failed to update the tags.");
+  };
+
+  const handleRemoveTag = (item: TranslationRecord, tag: string) =>
+    run(async () => replaceRecord(await setTags(item.id, (item.tags ?? []).filter(t => t !== tag))), "Failed to update the tags.");
+
+  const handleMove = (item: TranslationRecord, collectionId: string) =>
+    run(async () => replaceRecord(await setCollection(item.id, collectionId || undefined)), "Failed to move the translation.");
+
+  const handleDelete = (item: TranslationRecord) => {
+    if (!confirm('Delete this translation from history?')) return;
+    run(async () => {
+      await deleteTranslation(item.id);
+      setHistory(current => current.filter(i => i.id !== item.id));
+      setSelected(current => {
+        const next = new Set(current);
+        next.delete(item.id);
+        return next;
+      });
+    }, "Failed to delete the translation.");
+  };
+
+  // The translator pages load the record (and stored file) from history by id
+  const handleOpen = (item: TranslationRecord) => {
+    navigate(item.type === 'document' ? '/document' : '/', { state: { recordId: item.id } });
+  };
+
+  const handleRerun = async (item: TranslationRecord) => {
+    setRerunningId(item.id);
+    try {
+      await rerunTranslation(item);
+      setHistory(await getHistory());
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Translation failed.");
+    } finally {
+      setRerunningId(null);
     }
   };
 
-  const filteredHistory = history.filter(item => 
-    item.sourceText.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    item.translatedText.toLowerCase().includes(searchTerm.toLowerCase())
+  const handleNewCollection = () => {
+    const name = prompt('Name of the new collection');
+    if (!name?.trim()) return;
+    run(async () => {
+      const collection = await createCollection(name);
+      setCollections(await getCollections());
+      setCollectionFilter(collection.id);
+    }, "Failed to create the collection.");
+  };
+
+  const handleRenameCollection = (collection: HistoryCollection) => {
+    const name = prompt('Rename collection', collection.name);
+    if (!name?.trim() || name.trim() === collection.name) return;
+    run(async () => {
+      await renameCollection(collection.id, name);
+      setCollections(await getCollections());
+    }, "Failed to rename the collection.");
+  };
+
+  const handleDeleteCollection = (collection: HistoryCollection) => {
+    if (!confirm(`Delete the collection "${collection.name}"? Its translations stay in history.`)) return;
+    run(async () => {
+      await deleteCollection(collection.id);
+      setCollections(await getCollections());
+      setCollectionFilter('');
+      setHistory(await getHistory());
+    }, "Failed to delete the collection.");
+  };
+
+  const reviewCount = history.filter(item => needsReview(item.quality)).length;
+  const activeCollection = collections.find(c => c.id === collectionFilter);
+
+  const searchIndex = useMemo(() => buildSearchIndex(history), [history]);
+  const matchingIds = useMemo(() => searchIndex.search(deferredSearch), [searchIndex, deferredSearch]);
+
+  const filteredHistory = useMemo(() => history.filter(item =>
+    (!matchingIds || matchingIds.has(item.id)) &&
+    matchesFacets(item, facets) &&
+    (!reviewOnly || needsReview(item.quality)) &&
+    (!favoritesOnly || item.favorite) &&
+    (!collectionFilter || item.collectionId === collectionFilter) &&
+    (!tagFilter || item.tags?.some(t => t.toLowerCase() === tagFilter.toLowerCase()))
+  ), [history, matchingIds, facets, reviewOnly, favoritesOnly, collectionFilter, tagFilter]);
+
+  // Facet options with their counts over the whole history
+  const sourceOptions = useMemo(() => countBy(history, item => facetLang(item.sourceLang)), [history]);
+  const targetOptions = useMemo(() => countBy(history, item => facetLang(item.targetLang)), [history]);
+  const typeOptions = useMemo(() => countBy(history, item => item.type), [history]);
+
+  // Starring or tagging on a later page keeps the page; changing the filters does not
+  useEffect(() => {
+    setPage(0);
+  }, [deferredSearch, facets, reviewOnly, favoritesOnly, collectionFilter, tagFilter]);
+
+  const pageCount = Math.max(1, Math.ceil(filteredHistory.length / PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageItems = filteredHistory.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE);
+  const hasFacets = Object.values(facets).some(Boolean);
+
+  const iconButton = "p-1.5 rounded text-gray-400 hover:text-gray-700 hover:bg-gray-100 dark:hover:text-gray-200 dark:hover:bg-gray-700 transition-colors";
+  const facetClass = "bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg px-3 py-1.5 text-sm text-gray-700 dark:text-gray-300 focus:ring-2 focus:ring-primary-500";
+
+  const renderItem = (item: TranslationRecord) => (
+    <div className="bg-white dark:bg-gray-800 p-5 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700 hover:shadow-md transition-shadow">
+      <div className="flex flex-wrap justify-between items-start gap-2 mb-3">
+        <div className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={selected.has(item.id)}
+            onChange={() => toggleSelected(item.id)}
+            title="Select for export"
+            className="rounded text-primary-600 focus:ring-primary-500"
+          />
+          <button onClick={() => handleFavorite(item)} title={item.favorite ? 'Unstar' : 'Star'} className="text-gray-300 hover:text-yellow-500 dark:text-gray-600">
+            <Star size={16} className={item.favorite ? 'fill-yellow-400 text-yellow-500' : ''} />
+          </button>
+          <span className={`p-1.5 rounded-md ${item.type === 'document' ? 'bg-blue-100 text-blue-600' : 'bg-purple-100 text-purple-600'}`}>
+            {item.type === 'document' ? <FileText size={14} /> : <Type size={14} />}
+          </span>
+          <div className="flex items-center gap-2 text-sm font-medium text-gray-500 dark:text-gray-400">
+            <span className="uppercase">{item.sourceLang}</span>
+            <span>→</span>
+            <span className="uppercase">{item.targetLang}</span>
+          </div>
+          {item.partial && (
+            <span className="px-2 py-0.5 rounded-full bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-400 text-xs font-medium">
+              Partial
+            </span>
+          )}
+          <QualityBadge quality={item.quality} />
+        </div>
+        <div className="flex items-center gap-1">
+          <select
+            value={item.collectionId ?? ''}
+            onChange={(e) => handleMove(item, e.target.value)}
+            className="bg-transparent border-none text-xs text-gray-500 dark:text-gray-400 focus:ring-0 max-w-[140px]"
+            title="Collection"
+          >
+            <option value="">No collection</option>
+            {collections.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+          </select>
+          <button onClick={() => handleOpen(item)} className={iconButton} title="Open in translator">
+            <ExternalLink size={14} />
+          </button>
+          <button onClick={() => handleRerun(item)} disabled={rerunningId !== null} className={`${iconButton} disabled:opacity-50`} title="Translate again with the current model">
+            {rerunningId === item.id ? <Loader2 size={14} className="animate-spin" /> : <RefreshCw size={14} />}
+          </button>
+          <button onClick={() => handleDelete(item)} className={iconButton} title="Delete">
+            <Trash2 size={14} />
+          </button>
+          <div className="flex items-center text-xs text-gray-400 ml-2">
+            <Clock size={12} className="mr-1" />
+            {new Date(item.timestamp).toLocaleString()}
+          </div>
+        </div>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-4">
+        <div className="p-3 bg-gray-50 dark:bg-gray-900/50 rounded-lg text-sm text-gray-700 dark:text-gray-300 line-clamp-3" {...textProps(item.sourceLang)}>
+          {item.sourceText || <span className="italic text-gray-400">{item.fileName || 'Uploaded file'}</span>}
+        </div>
+        <div className="p-3 bg-indigo-50 dark:bg-indigo-900/20 rounded-lg text-sm text-gray-700 dark:text-gray-300 line-clamp-3" {...textProps(item.targetLang)}>
+          {item.translatedText}
+        </div>
+      </div>
+      {item.notes && (
+        <div className="mt-3">
+          <TranslatorNotes notes={item.notes} />
+        </div>
+      )}
+
+      {/* Tags */}
+      <div className="mt-3 flex flex-wrap items-center gap-1.5">
+        {item.tags?.map(tag => (
+          <span key={tag} className="flex items-center px-2 py-0.5 rounded-full bg-gray-100 dark:bg-gray-700 text-xs text-gray-600 dark:text-gray-300">
+            <button onClick={() => setTagFilter(tag)} title="Show translations with this tag">{tag}</button>
+            <button onClick={() => handleRemoveTag(item, tag)} className="ml-1 text-gray-400 hover:text-red-500" title="Remove tag">
+              <X size={10} />
+            </button>
+          </span>
+        ))}
+        {taggingId === item.id ? (
+          <input
+            autoFocus
+            value={tagDraft}
+            onChange={(e) => setTagDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleAddTag(item);
+              if (e.key === 'Escape') {
+                setTagDraft('');
+                setTaggingId(null);
+              }
+            }}
+            onBlur={() => handleAddTag(item)}
+            placeholder="Tag"
+            className="w-24 px-2 py-0.5 rounded-full border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-800 text-xs text-gray-700 dark:text-gray-300 focus:ring-1 focus:ring-primary-500"
+          />
+        ) : (
+          <button
+            onClick={() => {
+              setTaggingId(item.id);
+              setTagDraft('');
+            }}
+            className="flex items-center px-2 py-0.5 rounded-full text-xs text-gray-400 hover:text-primary-600 hover:bg-gray-50 dark:hover:bg-gray-700"
+          >
+            <Plus size={10} className="mr-0.5" />
+            Tag
+          </button>
+        )}
+      </div>
+    </div>
   );
 
   return (
@@ -28,15 +347,47 @@ export default function History() {
       <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4 mb-8">
         <div>
           <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-1">Translation History</h1>
-          <p className="text-gray-500 dark:text-gray-400">View your recent translation activity.</p>
+          <p className="text-gray-500 dark:text-gray-400">
+            {user ? `Translation activity for ${user.username}.` : 'View your recent translation activity.'}
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="flex items-center bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg">
+            <select
+              value={exportFormat}
+              onChange={(e) => setExportFormat(e.target.value as HistoryFormat)}
+              className="bg-transparent border-none text-sm text-gray-700 dark:text-gray-300 focus:ring-0 pl-3 pr-8 py-2"
+              title="Export format"
+            >
+              <option value="json">JSON</option>
+              <option value="csv">CSV</option>
+              <option value="tmx">TMX</option>
+            </select>
+            <button
+              onClick={handleExport}
+              disabled={history.length === 0}
+              className="flex items-center px-3 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 hover:text-primary-600 border-l border-gray-200 dark:border-gray-700 disabled:opacity-50"
+            >
+              <Download size={16} className="mr-2" />
+              {selected.size ? `Export ${selected.size} selected` : 'Export all'}
+            </button>
+          </div>
+          <button
+            onClick={() => importInputRef.current?.click()}
+            className="flex items-center px-4 py-2 text-gray-700 bg-white border border-gray-200 hover:bg-gray-50 dark:bg-gray-800 dark:border-gray-700 dark:text-gray-300 dark:hover:bg-gray-700 rounded-lg transition-colors text-sm font-medium"
+          >
+            <Upload size={16} className="mr-2" />
+            Import
+          </button>
+          <input ref={importInputRef} type="file" accept=".json,.csv,.tmx,.xml" onChange={handleImport} className="hidden" />
+          <button
+            onClick={handleClear}
+            className="flex items-center px-4 py-2 text-red-600 bg-red-50 hover:bg-red-100 dark:bg-red-900/20 dark:text-red-400 dark:hover:bg-red-900/30 rounded-lg transition-colors text-sm font-medium"
+          >
+            <Trash2 size={16} className="mr-2" />
+            Clear History
+          </button>
         </div>
-        <button
-          onClick={handleClear}
-          className="flex items-center px-4 py-2 text-red-600 bg-red-50 hover:bg-red-100 dark:bg-red-900/20 dark:text-red-400 dark:hover:bg-red-900/30 rounded-lg transition-colors text-sm font-medium"
-        >
-          <Trash2 size={16} className="mr-2" />
-          Clear History
-        </button>
       </div>
 
       {/* Search */}
@@ -53,44 +404,133 @@ export default function History() {
         />
       </div>
 
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          onClick={() => setFavoritesOnly(!favoritesOnly)}
+          className={`flex items-center px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+            favoritesOnly
+              ? 'bg-yellow-500 text-white'
+              : 'bg-yellow-50 text-yellow-700 hover:bg-yellow-100 dark:bg-yellow-900/20 dark:text-yellow-400 dark:hover:bg-yellow-900/30'
+          }`}
+        >
+          <Star size={14} className="mr-2" />
+          Starred
+        </button>
+
+        {reviewCount > 0 && (
+          <button
+            onClick={() => setReviewOnly(!reviewOnly)}
+            className={`flex items-center px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+              reviewOnly
+                ? 'bg-red-600 text-white'
+                : 'bg-red-50 text-red-600 hover:bg-red-100 dark:bg-red-900/20 dark:text-red-400 dark:hover:bg-red-900/30'
+            }`}
+          >
+            <Flag size={14} className="mr-2" />
+            {reviewCount} {reviewCount === 1 ? 'translation needs' : 'translations need'} review
+          </button>
+        )}
+
+        <select
+          value={collectionFilter}
+          onChange={(e) => setCollectionFilter(e.target.value)}
+          className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg px-3 py-1.5 text-sm text-gray-700 dark:text-gray-300 focus:ring-2 focus:ring-primary-500"
+        >
+          <option value="">All collections</option>
+          {collections.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+        </select>
+        {activeCollection && (
+          <>
+            <button onClick={() => handleRenameCollection(activeCollection)} className={iconButton} title="Rename collection">
+              <Pencil size={14} />
+            </button>
+            <button onClick={() => handleDeleteCollection(activeCollection)} className={iconButton} title="Delete collection">
+              <Trash2 size={14} />
+            </button>
+          </>
+        )}
+        <button onClick={handleNewCollection} className={iconButton} title="New collection">
+          <FolderPlus size={16} />
+        </button>
+
+        {tagFilter && (
+          <button
+            onClick={() => setTagFilter(null)}
+            className="flex items-center px-3 py-1.5 rounded-lg text-sm font-medium bg-primary-600 text-white"
+          >
+            <Tag size={14} className="mr-2" />
+            {tagFilter}
+            <X size={14} className="ml-2" />
+          </button>
+        )}
+      </div>
+
+      {/* Facets */}
+      <div className="flex flex-wrap items-center gap-2">
+        <select value={facets.sourceLang} onChange={(e) => setFacets({ ...facets, sourceLang: e.target.value })} className={facetClass} title="Source language">
+          <option value="">Any source language</option>
+          {sourceOptions.map(([code, count]) => (
+            <option key={code} value={code}>{code === 'auto' ? 'Detected' : languageName(code)} ({count})</option>
+          ))}
+        </select>
+        <select value={facets.targetLang} onChange={(e) => setFacets({ ...facets, targetLang: e.target.value })} className={facetClass} title="Target language">
+          <option value="">Any target language</option>
+          {targetOptions.map(([code, count]) => (
+            <option key={code} value={code}>{languageName(code)} ({count})</option>
+          ))}
+        </select>
+        <select value={facets.type} onChange={(e) => setFacets({ ...facets, type: e.target.value as HistoryFacets['type'] })} className={facetClass} title="Type">
+          <option value="">Any type</option>
+          {typeOptions.map(([type, count]) => (
+            <option key={type} value={type}>{type[0].toUpperCase() + type.slice(1)} ({count})</option>
+          ))}
+        </select>
+        <input type="date" value={facets.from} max={facets.to || undefined} onChange={(e) => setFacets({ ...facets, from: e.target.value })} className={facetClass} title="From" />
+        <span className="text-gray-400 text-sm">–</span>
+        <input type="date" value={facets.to} min={facets.from || undefined} onChange={(e) => setFacets({ ...facets, to: e.target.value })} className={facetClass} title="To" />
+        {hasFacets && (
+          <button onClick={() => setFacets(EMPTY_FACETS)} className="text-sm text-primary-600 dark:text-primary-400 hover:underline">
+            Reset filters
+          </button>
+        )}
+      </div>
+
       {/* List */}
-      <div className="space-y-4">
-        {filteredHistory.length > 0 ? (
-          filteredHistory.map((item) => (
-            <div key={item.id} className="bg-white dark:bg-gray-800 p-5 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700 hover:shadow-md transition-shadow">
-              <div className="flex justify-between items-start mb-3">
-                <div className="flex items-center gap-2">
-                  <span className={`p-1.5 rounded-md ${item.type === 'document' ? 'bg-blue-100 text-blue-600' : 'bg-purple-100 text-purple-600'}`}>
-                    {item.type === 'document' ? <FileText size={14} /> : <Type size={14} />}
-                  </span>
-                  <div className="flex items-center gap-2 text-sm font-medium text-gray-500 dark:text-gray-400">
-                    <span className="uppercase">{item.sourceLang}</span>
-                    <span>→</span>
-                    <span className="uppercase">{item.targetLang}</span>
-                  </div>
-                </div>
-                <div className="flex items-center text-xs text-gray-400">
-                  <Clock size={12} className="mr-1" />
-                  {new Date(item.timestamp).toLocaleString()}
-                </div>
-              </div>
-              
-              <div className="grid md:grid-cols-2 gap-4">
-                <div className="p-3 bg-gray-50 dark:bg-gray-900/50 rounded-lg text-sm text-gray-700 dark:text-gray-300 line-clamp-3">
-                  {item.sourceText}
-                </div>
-                <div className="p-3 bg-indigo-50 dark:bg-indigo-900/20 rounded-lg text-sm text-gray-700 dark:text-gray-300 line-clamp-3">
-                  {item.translatedText}
-                </div>
+      {filteredHistory.length > 0 ? (
+        <>
+          <div className="flex items-center justify-between text-sm text-gray-500 dark:text-gray-400">
+            <span>
+              {(currentPage * PAGE_SIZE + 1).toLocaleString()}–{(currentPage * PAGE_SIZE + pageItems.length).toLocaleString()} of {filteredHistory.length.toLocaleString()}
+            </span>
+            {pageCount > 1 && (
+              <div className="flex items-center gap-1">
+                <button onClick={() => setPage(currentPage - 1)} disabled={currentPage === 0} className={`${iconButton} disabled:opacity-30`} title="Previous page">
+                  <ChevronLeft size={16} />
+                </button>
+                <span>Page {currentPage + 1} of {pageCount}</span>
+                <button onClick={() => setPage(currentPage + 1)} disabled={currentPage >= pageCount - 1} className={`${iconButton} disabled:opacity-30`} title="Next page">
+                  <ChevronRight size={16} />
+                </button>
               </div>
-            </div>
-          ))
-        ) : (
-          <div className="text-center py-12 text-gray-500 dark:text-gray-400">
-            No history found.
+            )}
           </div>
-        )}
-      </div>
+          {/* Keyed by page so each page starts scrolled to the top */}
+          <div key={currentPage}>
+            <VirtualList
+              items={pageItems}
+              getKey={item => item.id}
+              renderItem={renderItem}
+              estimatedHeight={200}
+              className="h-[70vh] pr-1"
+            />
+          </div>
+        </>
+      ) : (
+        <div className="text-center py-12 text-gray-500 dark:text-gray-400">
+          No history found.
+        </div>
+      )}
     </div>
   );
-}
\ No newline at end of file
+}
@@ -1,17 +1,53 @@
-import React, { useState, useRef } from 'react';
-import { LANGUAGES } from '../types';
-import { translateText, generateSpeech, playAudioBuffer, transcribeAudio, refineText } from '../services/gemini';
-import { ArrowRightLeft, Mic, Copy, Volume2, Check, Loader2, StopCircle, Sparkles, Briefcase, Coffee, FileText } from 'lucide-react';
+import React, { useState, useRef, useEffect } from 'react';
+import { useLocation } from 'react-router-dom';
+import { DEFAULT_PREFERENCES, GlossaryIssue, LanguageDetection, MemoryMatchSummary, QualityEstimate, TranslationAlternative, TranslatorNote } from '../types';
+import GlossaryIssues from '../components/GlossaryIssues';
+import MemoryMatchBadge from '../components/MemoryMatchBadge';
+import TranslatorNotes from '../components/TranslatorNotes';
+import QualityBadge from '../components/QualityBadge';
+import { assessTranslation } from '../services/quality';
+import { approveTranslation } from '../services/translationMemory';
+import { translateText, detectLanguage, generateSpeech, playAudioBuffer, transcribeAudio, refineText, TranslationCancelledError } from '../services/gemini';
+import { getPreferences } from '../services/preferences';
+import { findLanguage, languageName, textProps, useLanguages } from '../services/languages';
+import { getTranslation, updateTranslation } from '../services/storage';
+import { useAuth } from '../services/authContext';
+import { ArrowRightLeft, Mic, Copy, Volume2, Check, Loader2, StopCircle, Sparkles, Briefcase, Coffee, FileText, BadgeCheck, ScanSearch, AlertTriangle, Layers, Gauge } from 'lucide-react';
+
+// Source option that asks the model which language the input is in
+const DETECT = 'auto';
+// Below this the detection is shown as uncertain so the user checks it
+const LOW_CONFIDENCE = 0.6;
 
 export default function Home() {
-  const [sourceLang, setSourceLang] = useState('ne');
-  const [targetLang, setTargetLang] = useState('en');
+  const { user } = useAuth();
+  const location = useLocation();
+  // Set when History opens a past translation here
+  const reopenId: string | undefined = location.state?.recordId;
+  const languages = useLanguages();
+  const [sourceLang, setSourceLang] = useState(DEFAULT_PREFERENCES.sourceLang);
+  const [targetLang, setTargetLang] = useState(DEFAULT_PREFERENCES.targetLang);
+  const [voice, setVoice] = useState(DEFAULT_PREFERENCES.voice);
   const [inputText, setInputText] = useState('');
   
   // Output States
   const [outputText, setOutputText] = useState('');
+  const [glossaryIssues, setGlossaryIssues] = useState<GlossaryIssue[]>([]);
+  const [memoryMatch, setMemoryMatch] = useState<MemoryMatchSummary | undefined>();
+  const [isApproved, setIsApproved] = useState(false);
+  // Structured mode: the primary translation plus alternatives become selectable chips
+  const [withAlternatives, setWithAlternatives] = useState(false);
+  const [choices, setChoices] = useState<TranslationAlternative[]>([]);
+  const [notes, setNotes] = useState<TranslatorNote[]>([]);
+  const [recordId, setRecordId] = useState<string | undefined>();
+  const [quality, setQuality] = useState<QualityEstimate | undefined>();
+  const [isCheckingQuality, setIsCheckingQuality] = useState(false);
+  // Result of the last detection while the source is set to DETECT
+  const [detection, setDetection] = useState<LanguageDetection | null>(null);
 
   const [isLoading, setIsLoading] = useState(false);
+  // True while a translation streams in; the output fills as chunks arrive
+  const [isTranslating, setIsTranslating] = useState(false);
   const [isSpeaking, setIsSpeaking] = useState(false);
   const [isCopied, setIsCopied] = useState(false);
   const [isListening, setIsListening] = useState(false);
@@ -20,37 +56,171 @@ export default function Home() {
   // Audio Recording Refs
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const audioChunksRef = useRef<Blob[]>([]);
+  const translationAbortRef = useRef<AbortController | null>(null);
+  // Output as saved in the history record; edits after that are not what the record holds
+  const recordTextRef = useRef('');
+
+  // Apply the signed-in user's saved defaults; a reopened translation keeps its own languages
+  useEffect(() => {
+    getPreferences().then(prefs => {
+      if (!reopenId) {
+        setSourceLang(prefs.sourceLang);
+        setTargetLang(prefs.targetLang);
+      }
+      setVoice(prefs.voice);
+    });
+  }, [user]);
+
+  useEffect(() => {
+    if (!reopenId) return;
+    getTranslation(reopenId)
+      .then(record => {
+        if (!record) return;
+        setSourceLang(findLanguage(record.sourceLang)?.code ?? DETECT);
+        setTargetLang(findLanguage(record.targetLang)?.code ?? DEFAULT_PREFERENCES.targetLang);
+        setDetection(null);
+        setInputText(record.sourceText);
+        setOutputText(record.translatedText);
+        setNotes(record.notes ?? []);
+        setQuality(record.quality);
+        setRecordId(record.id);
+        recordTextRef.current = record.translatedText;
+      })
+      .catch(error => console.error("History error:", error));
+  }, [reopenId]);
+
+  // A detected language missing from the registry is still usable by its name
+  const detectedName = (found: LanguageDetection) => findLanguage(found.code)?.name || found.name;
+
+  // Language the current output was translated from
+  const effectiveSource = sourceLang === DETECT
+    ? (detection ? detectedName(detection) : '')
+    : languageName(sourceLang);
+
+  const swapSource = sourceLang === DETECT
+    ? languages.find(l => l.code === detection?.code)?.code
+    : sourceLang;
 
   const handleSwap = () => {
+    if (!swapSource) return;
     setSourceLang(targetLang);
-    setTargetLang(sourceLang);
+    setTargetLang(swapSource);
+    setDetection(null);
     setInputText(outputText);
     setOutputText(inputText);
+    setGlossaryIssues([]);
+    setMemoryMatch(undefined);
+    setChoices([]);
+    setNotes([]);
+    setQuality(undefined);
   };
 
-  const handleTranslate = async () => {
+  const handleSourceChange = (code: string) => {
+    setSourceLang(code);
+    setDetection(null);
+  };
+
+  // sourceOverride lets the detection override re-run with the chosen language
+  // before the state update has landed.
+  const handleTranslate = async (sourceOverride?: string) => {
     if (!inputText.trim()) return;
-    setIsLoading(true);
+    const source = sourceOverride ?? sourceLang;
+    const controller = new AbortController();
+    translationAbortRef.current = controller;
+    setIsTranslating(true);
+    setOutputText('');
+    setGlossaryIssues([]);
+    setMemoryMatch(undefined);
+    setIsApproved(false);
+    setChoices([]);
+    setNotes([]);
+    setRecordId(undefined);
+    setQuality(undefined);
     
     try {
-      const sName = LANGUAGES.find(l => l.code === sourceLang)?.name || sourceLang;
-      const tName = LANGUAGES.find(l => l.code === targetLang)?.name || targetLang;
+      let sourceName = languageName(source);
+      if (source === DETECT) {
+        const found = await detectLanguage(inputText);
+        setDetection(found);
+        sourceName = detectedName(found);
+      }
+      if (controller.signal.aborted) return;
 
-      const result = await translateText(inputText, sName, tName);
-      setOutputText(result);
+      const result = await translateText(inputText, sourceName, languageName(targetLang), {
+        signal: controller.signal,
+        onPartial: setOutputText,
+        structured: withAlternatives,
+      });
+      setOutputText(result.text);
+      setGlossaryIssues(result.glossaryIssues);
+      setMemoryMatch(result.memoryMatch);
+      setRecordId(result.recordId);
+      setNotes(result.notes ?? []);
+      setChoices(result.alternatives?.length ? [{ text: result.text, tone: 'primary' }, ...result.alternatives] : []);
+      recordTextRef.current = result.text;
+
+      if ((await getPreferences()).qualityCheck) {
+        checkQuality(result.text, sourceName, result.recordId);
+      }
     } catch (error) {
-      alert("Translation failed. Please check your API Key configuration.");
+      if (error instanceof TranslationCancelledError) {
+        setOutputText(error.partialText);
+      } else {
+        alert(error instanceof Error && error.message === "Failed to detect language."
+          ? "Could not detect the language. Please choose the source language."
+          : "Translation failed. Please check your API Key configuration.");
+      }
     } finally {
-      setIsLoading(false);
+      translationAbortRef.current = null;
+      setIsTranslating(false);
     }
   };
 
+  const handleStop = () => {
+    translationAbortRef.current?.abort();
+  };
+
+  const checkQuality = async (output: string, sourceName: string, id?: string) => {
+    setIsCheckingQuality(true);
+    try {
+      setQuality(await assessTranslation(inputText, output, sourceName, languageName(targetLang), id));
+    } catch (error) {
+      alert("Failed to check translation quality.");
+    } finally {
+      setIsCheckingQuality(false);
+    }
+  };
+
+  // The estimate is only stored on the history record if the output is still what was saved.
+  const handleCheckQuality = () => {
+    if (!outputText.trim() || !effectiveSource) return;
+    checkQuality(outputText, effectiveSource, outputText === recordTextRef.current ? recordId : undefined);
+  };
+
+  // The chosen alternative replaces the output and the saved history record.
+  const handleChoose = (choice: TranslationAlternative) => {
+    setOutputText(choice.text);
+    setIsApproved(false);
+    setQuality(undefined);
+    if (recordId) {
+      updateTranslation(recordId, { translatedText: choice.text, quality: undefined });
+      recordTextRef.current = choice.text;
+    }
+  };
+
+  // Replaces a wrong detection with the user's choice and translates again.
+  const handleOverride = (code: string) => {
+    handleSourceChange(code);
+    handleTranslate(code);
+  };
+
   const handleRefine = async (type: 'polish' | 'formal' | 'casual' | 'summarize') => {
     if (!outputText) return;
     setIsRefining(true);
     try {
       const result = await refineText(outputText, type);
       setOutputText(result);
+      setQuality(undefined);
     } catch (error) {
       alert("Failed to refine text.");
     } finally {
@@ -58,6 +228,14 @@ export default function Home() {
     }
   };
 
+  // Approved output (including manual edits) feeds the translation memory.
+  const handleApprove = () => {
+    if (!inputText.trim() || !outputText.trim()) return;
+    if (!effectiveSource) return;
+    approveTranslation(inputText, outputText, effectiveSource, languageName(targetLang));
+    setIsApproved(true);
+  };
+
   const handleCopy = () => {
     navigator.clipboard.writeText(outputText);
     setIsCopied(true);
@@ -68,7 +246,7 @@ export default function Home() {
     if (!outputText) return;
     setIsSpeaking(true);
     try {
-      const buffer = await generateSpeech(outputText, targetLang);
+      const buffer = await generateSpeech(outputText, targetLang, findLanguage(targetLang)?.voice || voice);
       playAudioBuffer(buffer);
     } catch (error) {
       console.error(error);
@@ -116,6 +294,7 @@ export default function Home() {
             const base64String = (reader.result as string).split(',')[1];
             const text = await transcribeAudio(base64String, audioBlob.type);
             setInputText(text);
+            setDetection(null);
             setIsLoading(false);
           };
         } catch (error) {
@@ -147,10 +326,11 @@ export default function Home() {
           <div className="flex items-center gap-2 w-full md:w-auto">
             <select
               value={sourceLang}
-              onChange={(e) => setSourceLang(e.target.value)}
+              onChange={(e) => handleSourceChange(e.target.value)}
               className="flex-1 bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-lg px-4 py-2 text-sm focus:ring-2 focus:ring-primary-500 focus:outline-none dark:text-white"
             >
-              {LANGUAGES.map((lang) => (
+              <option value={DETECT}>✨ Detect language</option>
+              {languages.map((lang) => (
                 <option key={`source-${lang.code}`} value={lang.code}>
                   {lang.flag} {lang.name}
                 </option>
@@ -160,7 +340,9 @@ export default function Home() {
 
           <button 
             onClick={handleSwap}
-            className="p-2 rounded-full hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors text-gray-500 dark:text-gray-400"
+            disabled={!swapSource}
+            title={swapSource ? "Swap languages" : "Detect a supported language before swapping"}
+            className="p-2 rounded-full hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors text-gray-500 dark:text-gray-400 disabled:opacity-40 disabled:hover:bg-transparent"
           >
             <ArrowRightLeft size={20} />
           </button>
@@ -171,7 +353,7 @@ export default function Home() {
               onChange={(e) => setTargetLang(e.target.value)}
               className="flex-1 bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-lg px-4 py-2 text-sm focus:ring-2 focus:ring-primary-500 focus:outline-none dark:text-white"
             >
-              {LANGUAGES.map((lang) => (
+              {languages.map((lang) => (
                 <option key={`target-${lang.code}`} value={lang.code}>
                   {lang.flag} {lang.name}
                 </option>
@@ -180,14 +362,46 @@ export default function Home() {
           </div>
         </div>
 
+        {sourceLang === DETECT && detection && (
+          <div className={`px-4 py-2 border-b text-sm flex flex-wrap items-center gap-2 ${
+            detection.confidence < LOW_CONFIDENCE
+              ? 'bg-amber-50 dark:bg-amber-900/20 border-amber-100 dark:border-amber-900 text-amber-800 dark:text-amber-300'
+              : 'bg-primary-50 dark:bg-primary-900/20 border-primary-100 dark:border-primary-900 text-primary-800 dark:text-primary-300'
+          }`}>
+            {detection.confidence < LOW_CONFIDENCE ? <AlertTriangle size={16} /> : <ScanSearch size={16} />}
+            <span>
+              Detected <strong>{detectedName(detection)}</strong>
+              {detection.script && ` (${detection.script})`} · {Math.round(detection.confidence * 100)}% confident
+              {detection.confidence < LOW_CONFIDENCE && ' — please check'}
+            </span>
+            <select
+              value=""
+              onChange={(e) => e.target.value && handleOverride(e.target.value)}
+              disabled={isTranslating}
+              className="ml-auto bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-lg px-2 py-1 text-xs dark:text-white"
+            >
+              <option value="">Not right? Choose language…</option>
+              {languages.map((lang) => (
+                <option key={`override-${lang.code}`} value={lang.code}>
+                  {lang.flag} {lang.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
         {/* Input/Output Areas */}
         <div className="grid md:grid-cols-2 h-[500px] md:h-[400px] divide-y md:divide-y-0 md:divide-x divide-gray-100 dark:divide-gray-700">
           {/* Source */}
           <div className="relative p-6 flex flex-col h-full bg-white dark:bg-gray-800">
             <textarea
               value={inputText}
-              onChange={(e) => setInputText(e.target.value)}
+              onChange={(e) => {
+                setInputText(e.target.value);
+                setDetection(null);
+              }}
               placeholder="Enter text here..."
+              {...textProps(sourceLang === DETECT ? detection?.code ?? '' : sourceLang)}
               className="flex-1 w-full resize-none border-none focus:ring-0 bg-transparent text-lg text-gray-800 dark:text-gray-100 placeholder-gray-400"
               spellCheck="false"
             />
@@ -213,23 +427,61 @@ export default function Home() {
           <div className="relative p-0 flex flex-col h-full bg-gray-50/50 dark:bg-gray-900/50">
              
              <div className="flex-1 relative p-6">
-                {isLoading || isRefining ? (
+                {isLoading || isRefining || (isTranslating && !outputText) ? (
                 <div className="flex-1 h-full flex flex-col items-center justify-center text-primary-600">
                     <Loader2 className="animate-spin mb-2 w-8 h-8" /> 
                     <p>{isListening ? "Listening..." : isRefining ? "Refining with AI..." : "Processing..."}</p>
                 </div>
                 ) : (
                     <textarea
-                    readOnly
                     value={outputText}
+                    readOnly={isTranslating}
+                    {...textProps(targetLang)}
+                    onChange={(e) => {
+                      setOutputText(e.target.value);
+                      setIsApproved(false);
+                      setQuality(undefined);
+                    }}
                     placeholder="Translation will appear here"
                     className="flex-1 w-full h-full resize-none border-none focus:ring-0 bg-transparent text-lg text-gray-800 dark:text-gray-100 placeholder-gray-400"
                     />
                 )}
              </div>
              
-             {outputText && !isLoading && !isRefining && (
+             {outputText && !isLoading && !isRefining && !isTranslating && (
                <div className="p-4 pt-0">
+                <div className="pb-4 space-y-2 empty:hidden">
+                  <MemoryMatchBadge match={memoryMatch} />
+                  <QualityBadge quality={quality} detailed />
+                  {isCheckingQuality && (
+                    <p className="flex items-center text-xs text-gray-500 dark:text-gray-400">
+                      <Loader2 size={12} className="animate-spin mr-1" /> Back-translating and scoring...
+                    </p>
+                  )}
+                  <GlossaryIssues issues={glossaryIssues} />
+                  <TranslatorNotes notes={notes} />
+                </div>
+
+                {choices.length > 0 && (
+                  <div className="flex flex-wrap gap-2 pb-4">
+                    {choices.map((choice, i) => (
+                      <button
+                        key={i}
+                        onClick={() => handleChoose(choice)}
+                        title={choice.text}
+                        className={`max-w-full px-3 py-1.5 rounded-full text-xs border transition-colors text-left ${
+                          choice.text === outputText
+                            ? 'bg-primary-600 border-primary-600 text-white'
+                            : 'bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:border-primary-400'
+                        }`}
+                      >
+                        <span className="font-semibold capitalize mr-1">{choice.tone || `Option ${i + 1}`}:</span>
+                        <span>{choice.text.length > 60 ? `${choice.text.slice(0, 60)}…` : choice.text}</span>
+                      </button>
+                    ))}
+                  </div>
+                )}
+
                 {/* AI Tools */}
                 <div className="flex items-center gap-2 overflow-x-auto pb-4 scrollbar-hide">
                     <button onClick={() => handleRefine('polish')} className="flex items-center px-3 py-1.5 bg-white dark:bg-gray-800 border border-purple-200 dark:border-purple-900 text-purple-600 dark:text-purple-400 rounded-lg text-xs font-medium hover:bg-purple-50 dark:hover:bg-purple-900/30 whitespace-nowrap shadow-sm">
@@ -244,6 +496,9 @@ export default function Home() {
                     <button onClick={() => handleRefine('summarize')} className="flex items-center px-3 py-1.5 bg-white dark:bg-gray-800 border border-green-200 dark:border-green-900 text-green-600 dark:text-green-400 rounded-lg text-xs font-medium hover:bg-green-50 dark:hover:bg-green-900/30 whitespace-nowrap shadow-sm">
                       <FileText size={14} className="mr-1.5" /> Summarize
                     </button>
+                    <button onClick={handleCheckQuality} disabled={isCheckingQuality || !effectiveSource} className="flex items-center px-3 py-1.5 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-300 rounded-lg text-xs font-medium hover:bg-gray-50 dark:hover:bg-gray-700 whitespace-nowrap shadow-sm disabled:opacity-50">
+                      <Gauge size={14} className="mr-1.5" /> Check quality
+                    </button>
                 </div>
 
                 {/* Standard Actions */}
@@ -263,6 +518,14 @@ export default function Home() {
                     >
                     {isCopied ? <Check size={20} className="text-green-500" /> : <Copy size={20} />}
                     </button>
+                    <button 
+                    onClick={handleApprove}
+                    disabled={isApproved}
+                    className="p-2 rounded-full bg-white dark:bg-gray-800 text-gray-600 dark:text-gray-300 shadow-sm border border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors disabled:text-green-500"
+                    title={isApproved ? "Saved to translation memory" : "Approve and save to translation memory"}
+                    >
+                    <BadgeCheck size={20} />
+                    </button>
                 </div>
                </div>
              )}
@@ -270,14 +533,33 @@ export default function Home() {
         </div>
       </div>
 
-      <div className="flex justify-center">
-        <button
-          onClick={handleTranslate}
-          disabled={isLoading || isRefining || !inputText.trim()}
-          className="px-8 py-3 bg-gradient-to-r from-primary-600 to-indigo-600 hover:from-primary-700 hover:to-indigo-700 text-white font-semibold rounded-full shadow-lg hover:shadow-xl transform hover:-translate-y-0.5 transition-all disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none"
-        >
-          {isLoading || isRefining ? 'Processing...' : 'Translate Text'}
-        </button>
+      <div className="flex flex-col items-center gap-3">
+        {isTranslating ? (
+          <button
+            onClick={handleStop}
+            className="flex items-center px-8 py-3 bg-red-600 hover:bg-red-700 text-white font-semibold rounded-full shadow-lg hover:shadow-xl transition-all"
+          >
+            <StopCircle size={20} className="mr-2" /> Stop
+          </button>
+        ) : (
+          <button
+            onClick={() => handleTranslate()}
+            disabled={isLoading || isRefining || !inputText.trim()}
+            className="px-8 py-3 bg-gradient-to-r from-primary-600 to-indigo-600 hover:from-primary-700 hover:to-indigo-700 text-white font-semibold rounded-full shadow-lg hover:shadow-xl transform hover:-translate-y-0.5 transition-all disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none"
+          >
+            {isLoading || isRefining ? 'Processing...' : 'Translate Text'}
+          </button>
+        )}
+        <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400 cursor-pointer select-none">
+          <input
+            type="checkbox"
+            checked={withAlternatives}
+            onChange={(e) => setWithAlternatives(e.target.checked)}
+            disabled={isTranslating}
+            className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+          />
+          <Layers size={16} /> Show alternatives and translator notes
+        </label>
       </div>
     </div>
   );
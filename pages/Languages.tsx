@@ -0,0 +1,205 @@
+import React, { useState } from 'react';
+import { Language, VOICES } from '../types';
+import { createLanguage, deleteLanguage, LanguageInput, updateLanguage, useLanguages } from '../services/languages';
+import { Check, Globe, Loader2, Pencil, Plus, Trash2, X } from 'lucide-react';
+
+const EMPTY_INPUT: LanguageInput = {
+  code: '',
+  name: '',
+  flag: '',
+  script: 'Latn',
+  direction: 'ltr',
+  font: '',
+  voice: '',
+  enabled: true,
+};
+
+export default function Languages() {
+  const languages = useLanguages(true);
+  const [draft, setDraft] = useState<LanguageInput>(EMPTY_INPUT);
+  const [editingCode, setEditingCode] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+
+  const run = async (action: () => Promise<void>) => {
+    setError('');
+    setIsBusy(true);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      if (editingCode) {
+        const { code, ...changes } = draft;
+        await updateLanguage(editingCode, changes);
+      } else {
+        await createLanguage(draft);
+      }
+      setDraft(EMPTY_INPUT);
+      setEditingCode(null);
+    });
+  };
+
+  const handleEdit = (lang: Language) => {
+    setEditingCode(lang.code);
+    setDraft({ ...lang, font: lang.font || '', voice: lang.voice || '' });
+  };
+
+  const handleCancelEdit = () => {
+    setEditingCode(null);
+    setDraft(EMPTY_INPUT);
+  };
+
+  const handleToggle = (lang: Language) => {
+    run(async () => {
+      await updateLanguage(lang.code, { enabled: !lang.enabled });
+    });
+  };
+
+  const handleDelete = (lang: Language) => {
+    if (!confirm(`Remove ${lang.name} from the registry? Disabling it keeps its settings.`)) return;
+    run(() => deleteLanguage(lang.code));
+  };
+
+  const inputClass = "w-full bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-lg px-3 py-2 text-sm text-gray-900 dark:text-white focus:ring-2 focus:ring-primary-500";
+  const labelClass = "block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1";
+
+  return (
+    <div className="space-y-6">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-1">Languages</h1>
+        <p className="text-gray-500 dark:text-gray-400">The languages offered on every page, with their script, text direction, font and voice.</p>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 dark:bg-red-900/30 text-red-600 dark:text-red-400 text-sm rounded-lg">{error}</div>
+      )}
+
+      {/* Language form */}
+      <form onSubmit={handleSubmit} className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 grid md:grid-cols-4 gap-4 items-end">
+        <div>
+          <label className={labelClass}>Code</label>
+          <input
+            value={draft.code}
+            onChange={(e) => setDraft({ ...draft, code: e.target.value })}
+            placeholder="hi"
+            disabled={!!editingCode}
+            className={`${inputClass} disabled:opacity-60`}
+            required
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Name (English)</label>
+          <input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} placeholder="Hindi" className={inputClass} required />
+        </div>
+        <div>
+          <label className={labelClass}>Flag</label>
+          <input value={draft.flag} onChange={(e) => setDraft({ ...draft, flag: e.target.value })} placeholder="🇮🇳" className={inputClass} required />
+        </div>
+        <div>
+          <label className={labelClass}>Script (ISO 15924)</label>
+          <input value={draft.script} onChange={(e) => setDraft({ ...draft, script: e.target.value })} placeholder="Deva" className={inputClass} required />
+        </div>
+        <div>
+          <label className={labelClass}>Direction</label>
+          <select value={draft.direction} onChange={(e) => setDraft({ ...draft, direction: e.target.value as LanguageInput['direction'] })} className={inputClass}>
+            <option value="ltr">Left to right</option>
+            <option value="rtl">Right to left</option>
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Font</label>
+          <input value={draft.font || ''} onChange={(e) => setDraft({ ...draft, font: e.target.value })} placeholder="'Noto Sans Devanagari', sans-serif" className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>Voice</label>
+          <select value={draft.voice || ''} onChange={(e) => setDraft({ ...draft, voice: e.target.value })} className={inputClass}>
+            <option value="">User's preference</option>
+            {VOICES.map(voice => <option key={voice} value={voice}>{voice}</option>)}
+          </select>
+        </div>
+        <div className="flex items-center gap-2">
+          <label className="flex items-center text-xs text-gray-600 dark:text-gray-400 mr-auto">
+            <input
+              type="checkbox"
+              checked={draft.enabled}
+              onChange={(e) => setDraft({ ...draft, enabled: e.target.checked })}
+              className="mr-1.5"
+            />
+            Enabled
+          </label>
+          {editingCode && (
+            <button type="button" onClick={handleCancelEdit} className="p-2 rounded-lg text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700" title="Cancel">
+              <X size={18} />
+            </button>
+          )}
+          <button
+            type="submit"
+            disabled={isBusy}
+            className="p-2 rounded-lg bg-primary-600 hover:bg-primary-700 text-white disabled:opacity-50"
+            title={editingCode ? 'Save' : 'Add'}
+          >
+            {isBusy ? <Loader2 size={18} className="animate-spin" /> : editingCode ? <Check size={18} /> : <Plus size={18} />}
+          </button>
+        </div>
+      </form>
+
+      {/* Registry */}
+      <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700">
+        <h3 className="text-lg font-bold text-gray-900 dark:text-white flex items-center mb-4">
+          <Globe size={18} className="mr-2 text-primary-600" />
+          {languages.filter(l => l.enabled).length} of {languages.length} enabled
+        </h3>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-left">
+            <thead className="text-xs uppercase text-gray-500 dark:text-gray-400 border-b border-gray-100 dark:border-gray-700">
+              <tr>
+                <th className="py-2 pr-4">Language</th>
+                <th className="py-2 pr-4">Script</th>
+                <th className="py-2 pr-4">Direction</th>
+                <th className="py-2 pr-4">Font</th>
+                <th className="py-2 pr-4">Voice</th>
+                <th className="py-2 pr-4">Enabled</th>
+                <th className="py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100 dark:divide-gray-700 text-gray-700 dark:text-gray-300">
+              {languages.map(lang => (
+                <tr key={lang.code} className={editingCode === lang.code ? 'bg-primary-50 dark:bg-primary-900/10' : lang.enabled ? '' : 'opacity-60'}>
+                  <td className="py-2 pr-4 font-medium whitespace-nowrap">
+                    {lang.flag} {lang.name} <span className="text-xs text-gray-400 uppercase ml-1">{lang.code}</span>
+                  </td>
+                  <td className="py-2 pr-4">{lang.script}</td>
+                  <td className="py-2 pr-4 uppercase text-xs">{lang.direction}</td>
+                  <td className="py-2 pr-4 text-gray-500 truncate max-w-[200px]" style={lang.font ? { fontFamily: lang.font } : undefined}>
+                    {lang.font || '—'}
+                  </td>
+                  <td className="py-2 pr-4 text-gray-500">{lang.voice || '—'}</td>
+                  <td className="py-2 pr-4">
+                    <input type="checkbox" checked={lang.enabled} onChange={() => handleToggle(lang)} disabled={isBusy} />
+                  </td>
+                  <td className="py-2 text-right whitespace-nowrap">
+                    <button onClick={() => handleEdit(lang)} className="p-1.5 rounded text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700" title="Edit">
+                      <Pencil size={14} />
+                    </button>
+                    <button onClick={() => handleDelete(lang)} className="p-1.5 rounded text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20" title="Remove">
+                      <Trash2 size={14} />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+import React, { useEffect, useState } from 'react';
+import { DEFAULT_PREFERENCES, UserPreferences, VOICES } from '../types';
+import { useLanguages } from '../services/languages';
+import { getPreferences, savePreferences } from '../services/preferences';
+import { useAuth } from '../services/authContext';
+import { Check, Loader2, Save } from 'lucide-react';
+
+export default function Settings() {
+  const { user } = useAuth();
+  const languages = useLanguages();
+  const [preferences, setPreferences] = useState<UserPreferences>(DEFAULT_PREFERENCES);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isSaved, setIsSaved] = useState(false);
+
+  useEffect(() => {
+    getPreferences().then(setPreferences);
+  }, [user]);
+
+  const update = <K extends keyof UserPreferences>(field: K, value: UserPreferences[K]) => {
+    setPreferences(prev => ({ ...prev, [field]: value }));
+    setIsSaved(false);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      setPreferences(await savePreferences(preferences));
+      setIsSaved(true);
+    } catch (error) {
+      console.error(error);
+      alert("Failed to save preferences.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const selectClass = "w-full bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-lg px-3 py-2 text-sm text-gray-900 dark:text-white focus:ring-2 focus:ring-primary-500";
+
+  return (
+    <div className="space-y-6">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">Settings</h1>
+        <p className="text-gray-500 dark:text-gray-400">
+          {user ? `Preferences for ${user.username}.` : 'Preferences are saved in this browser. Sign in to keep them across devices.'}
+        </p>
+      </div>
+
+      <div className="max-w-xl bg-white dark:bg-gray-800 p-6 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Default Source Language</label>
+          <select value={preferences.sourceLang} onChange={(e) => update('sourceLang', e.target.value)} className={selectClass}>
+            {languages.map((lang) => (
+              <option key={lang.code} value={lang.code}>{lang.flag} {lang.name}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Default Target Language</label>
+          <select value={preferences.targetLang} onChange={(e) => update('targetLang', e.target.value)} className={selectClass}>
+            {languages.map((lang) => (
+              <option key={lang.code} value={lang.code}>{lang.flag} {lang.name}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Voice</label>
+          <select value={preferences.voice} onChange={(e) => update('voice', e.target.value)} className={selectClass}>
+            {VOICES.map((voice) => (
+              <option key={voice} value={voice}>{voice}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            Translation Memory Threshold: {Math.round(preferences.tmThreshold * 100)}%
+          </label>
+          <input
+            type="range"
+            min={50}
+            max={100}
+            step={5}
+            value={Math.round(preferences.tmThreshold * 100)}
+            onChange={(e) => update('tmThreshold', Number(e.target.value) / 100)}
+            className="w-full accent-primary-600"
+          />
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+            Past translations at least this similar are sent to the model as references. Exact matches are reused directly.
+          </p>
+        </div>
+
+        <label className="flex items-start gap-3 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={preferences.qualityCheck}
+            onChange={(e) => update('qualityCheck', e.target.checked)}
+            className="mt-1 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+          />
+          <span>
+            <span className="block text-sm font-medium text-gray-700 dark:text-gray-300">Check quality automatically</span>
+            <span className="block text-xs text-gray-500 dark:text-gray-400">
+              Back-translate every result and score it, so translations into languages you cannot read are flagged for review. Doubles model usage.
+            </span>
+          </span>
+        </label>
+
+        <button
+          onClick={handleSave}
+          disabled={isSaving}
+          className="flex items-center px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white font-semibold rounded-lg shadow-sm transition-colors disabled:opacity-50"
+        >
+          {isSaving ? <Loader2 size={18} className="animate-spin mr-2" /> : isSaved ? <Check size={18} className="mr-2" /> : <Save size={18} className="mr-2" />}
+          {isSaved ? 'Saved' : 'Save Preferences'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+import { randomUUID } from 'crypto';
+import { AnalyticsData, TranslationEvent, TranslationRecord } from '../types';
+import { DocumentRequest, TranslateRequest } from '../services/providers';
+import { languageName } from '../services/languageRegistry';
+import { DateRange, dateKeys, resolveRange, toDateKey } from '../services/dateRange';
+import { RequestContext } from './http';
+import { createLogStore } from './store';
+
+// Translations the backend ran for any user, logged by the translation routes and
+// aggregated for the admin dashboard.
+
+type TranslationDetails = Pick<TranslationEvent, 'type' | 'sourceLang' | 'targetLang' | 'characters' | 'documentId'>;
+
+// Events older than this are dropped when the log is compacted
+const RETENTION_DAYS = 365;
+
+const events = createLogStore<TranslationEvent>('translations', RETENTION_DAYS);
+
+/** What a text request counts as; back-translations for quality checks are not counted. */
+export const textTranslation = (request: TranslateRequest): TranslationDetails | null =>
+  request.purpose === 'backTranslation'
+    ? null
+    : { type: 'text', sourceLang: request.sourceLang, targetLang: request.targetLang, characters: request.text.length };
+
+export const documentTranslation = (request: DocumentRequest): TranslationDetails => ({
+  type: 'document',
+  sourceLang: request.sourceLang,
+  targetLang: request.targetLang,
+  characters: request.content.length,
+  ...(request.documentId ? { documentId: request.documentId } : {}),
+});
+
+/**
+ * Runs one translation for a request and logs it, unless `details` is null. Nothing is logged
+ * once the client has disconnected: the browser keeps a stopped translation as a partial
+ * record, which is not a finished translation.
+ */
+export const trackTranslation = async <T>(
+  details: TranslationDetails | null,
+  { claims, signal }: RequestContext,
+  run: () => Promise<T>
+): Promise<T> => {
+  const startedAt = Date.now();
+
+  const log = (status: TranslationEvent['status'], error?: unknown) => {
+    if (!details) return;
+    const timestamp = Date.now();
+    try {
+      events.append({
+        ...details,
+        id: randomUUID(),
+        timestamp,
+        userId: claims?.sub ?? null,
+        durationMs: timestamp - startedAt,
+        status,
+        ...(error !== undefined ? { message: error instanceof Error ? error.message : String(error) } : {}),
+      });
+    } catch (logError) {
+      console.error('Analytics log error:', logError);
+    }
+  };
+
+  try {
+    const result = await run();
+    if (!signal.aborted) log('success');
+    return result;
+  } catch (error) {
+    if (!signal.aborted) log('error', error);
+    throw error;
+  }
+};
+
+interface Translation {
+  type: TranslationRecord['type'];
+  sourceLang: string;
+  targetLang: string;
+  characters: number;
+  startedAt: number;
+  finishedAt: number;
+  failed: boolean;
+}
+
+// Documents are translated segment by segment; their segments count as one translation,
+// which failed if any segment did.
+const toTranslations = (logged: TranslationEvent[]): Translation[] => {
+  const documents = new Map<string, Translation>();
+  const translations: Translation[] = [];
+
+  logged.forEach(event => {
+    const startedAt = event.timestamp - event.durationMs;
+    const failed = event.status === 'error';
+    const key = event.documentId && `${event.userId}\u0000${event.documentId}`;
+    const document = key ? documents.get(key) : undefined;
+    if (document) {
+      document.characters += event.characters;
+      document.startedAt = Math.min(document.startedAt, startedAt);
+      document.finishedAt = Math.max(document.finishedAt, event.timestamp);
+      document.failed ||= failed;
+      return;
+    }
+    const translation: Translation = {
+      type: event.type,
+      sourceLang: event.sourceLang,
+      targetLang: event.targetLang,
+      characters: event.characters,
+      startedAt,
+      finishedAt: event.timestamp,
+      failed,
+    };
+    translations.push(translation);
+    if (key) documents.set(key, translation);
+  });
+
+  return translations;
+};
+
+const pairName = (lang: string) => (lang.toLowerCase() === 'auto' ? 'Detected' : languageName(lang));
+
+/** Translations by all users over a range of server-local dates (the last 7 days by default). */
+export const getAnalytics = (range?: Partial<DateRange>): AnalyticsData => {
+  const { from, to, start, end } = resolveRange(range);
+  const all = toTranslations(events.read().filter(event => event.timestamp >= start && event.timestamp < end));
+  const translations = all.filter(translation => !translation.failed);
+
+  const languageCounts = new Map<string, number>();
+  const pairCounts = new Map<string, { source: string; target: string; count: number }>();
+  const types = new Map<TranslationRecord['type'], { count: number; characters: number }>();
+  const hourHeatmap = Array.from({ length: 7 }, () => new Array<number>(24).fill(0));
+  const days = new Map(dateKeys(start, end).map(date => [date, { count: 0, characters: 0 }]));
+
+  let charactersTranslated = 0;
+  let latencyTotal = 0;
+
+  translations.forEach(translation => {
+    const { characters } = translation;
+    charactersTranslated += characters;
+
+    const target = languageName(translation.targetLang);
+    languageCounts.set(target, (languageCounts.get(target) ?? 0) + 1);
+
+    const source = pairName(translation.sourceLang);
+    const pair = pairCounts.get(`${source}\u0000${target}`) ?? { source, target, count: 0 };
+    pair.count++;
+    pairCounts.set(`${source}\u0000${target}`, pair);
+
+    const type = types.get(translation.type) ?? { count: 0, characters: 0 };
+    type.count++;
+    type.characters += characters;
+    types.set(translation.type, type);
+
+    const day = days.get(toDateKey(translation.finishedAt));
+    if (day) {
+      day.count++;
+      day.characters += characters;
+    }
+
+    const time = new Date(translation.finishedAt);
+    hourHeatmap[time.getDay()][time.getHours()]++;
+
+    latencyTotal += translation.finishedAt - translation.startedAt;
+  });
+
+  return {
+    range: { from, to },
+    totalTranslations: translations.length,
+    charactersTranslated,
+    languageDistribution: [...languageCounts].map(([name, value]) => ({ name, value })),
+    dailyActivity: [...days].map(([date, day]) => ({ date, ...day })),
+    languagePairs: [...pairCounts.values()].sort((a, b) => b.count - a.count),
+    byType: [...types].map(([type, stats]) => ({ type, ...stats })),
+    errorCount: all.length - translations.length,
+    averageLatencyMs: translations.length ? Math.round(latencyTotal / translations.length) : null,
+    hourHeatmap,
+  };
+};
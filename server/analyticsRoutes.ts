@@ -0,0 +1,10 @@
+import { UserRole } from '../types';
+import { Handler, readDateRange } from './http';
+import { requireRole } from './auth';
+import { getAnalytics } from './analytics';
+
+export const analyticsRoutes: Record<string, Handler> = {
+  'GET /api/admin/analytics': requireRole(UserRole.ADMIN, async ({ query }) => ({
+    analytics: getAnalytics(readDateRange(query)),
+  })),
+};
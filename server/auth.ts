@@ -0,0 +1,281 @@
+import { createHash, createHmac, randomBytes, randomUUID, scryptSync, timingSafeEqual } from 'crypto';
+import { UserRole } from '../types';
+import { createJsonStore } from './store';
+import { Handler, HttpError } from './http';
+
+const ACCESS_TOKEN_TTL = 15 * 60; // seconds
+const REFRESH_TOKEN_TTL = 7 * 24 * 60 * 60; // seconds
+const MIN_PASSWORD_LENGTH = 8;
+// scrypt hashes the whole password, so very long ones would cost CPU on every sign-in
+const MAX_PASSWORD_LENGTH = 256;
+
+// Failed sign-ins allowed per account and per client address within the window
+const LOGIN_WINDOW_MS = 15 * 60 * 1000;
+const MAX_FAILED_LOGINS_PER_USER = 5;
+const MAX_FAILED_LOGINS_PER_ADDRESS = 20;
+// Accounts one client address may create within the window
+const REGISTRATION_WINDOW_MS = 60 * 60 * 1000;
+const MAX_REGISTRATIONS_PER_ADDRESS = 10;
+
+export interface StoredUser {
+  id: string;
+  username: string;
+  passwordHash: string;
+  role: UserRole;
+  createdAt: number;
+}
+
+interface Session {
+  id: string;
+  userId: string;
+  refreshHash: string;
+  expiresAt: number;
+}
+
+export interface TokenClaims {
+  sub: string;
+  username: string;
+  role: UserRole;
+  sid: string;
+  iat: number;
+  exp: number;
+}
+
+export interface AuthResult {
+  accessToken: string;
+  refreshToken: string;
+  user: PublicUser;
+}
+
+export type PublicUser = Pick<StoredUser, 'id' | 'username' | 'role'>;
+
+const users = createJsonStore<StoredUser[]>('users', []);
+const sessions = createJsonStore<Session[]>('sessions', []);
+
+let secret: string | null = null;
+const getSecret = () => {
+  if (!secret) {
+    secret = process.env.AUTH_SECRET || '';
+    if (!secret) {
+      console.warn('AUTH_SECRET is not set; using a random secret. Sessions will not survive a restart.');
+      secret = randomBytes(32).toString('hex');
+    }
+  }
+  return secret;
+};
+
+const now = () => Math.floor(Date.now() / 1000);
+const sha256 = (value: string) => createHash('sha256').update(value).digest('hex');
+const normalizeUsername = (username: string) => username.trim().toLowerCase();
+
+// --- Throttling ---
+
+/** Counts attempts per key over a sliding window, in memory; a restart clears the counts. */
+const createThrottle = (limit: number, windowMs: number) => {
+  const attempts = new Map<string, number[]>();
+
+  const recent = (key: string) => (attempts.get(key) ?? []).filter(time => time > Date.now() - windowMs);
+
+  // Throws 429 while the key has used up its attempts
+  const check = (key: string) => {
+    const times = recent(key);
+    if (times.length < limit) return;
+    const minutes = Math.ceil((times[0] + windowMs - Date.now()) / 60000);
+    throw new HttpError(429, `Too many attempts. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`);
+  };
+
+  const record = (key: string) => {
+    // Drop keys whose attempts have all expired, so the map stays small
+    attempts.forEach((times, other) => {
+      if (times[times.length - 1] <= Date.now() - windowMs) attempts.delete(other);
+    });
+    attempts.set(key, [...recent(key), Date.now()]);
+  };
+
+  return { check, record, reset: (key: string) => { attempts.delete(key); } };
+};
+
+const failedLoginsByUser = createThrottle(MAX_FAILED_LOGINS_PER_USER, LOGIN_WINDOW_MS);
+const failedLoginsByAddress = createThrottle(MAX_FAILED_LOGINS_PER_ADDRESS, LOGIN_WINDOW_MS);
+const registrationsByAddress = createThrottle(MAX_REGISTRATIONS_PER_ADDRESS, REGISTRATION_WINDOW_MS);
+
+export const toPublicUser = ({ id, username, role }: StoredUser): PublicUser => ({ id, username, role });
+
+// --- Passwords ---
+
+export const hashPassword = (password: string) => {
+  const salt = randomBytes(16).toString('hex');
+  const hash = scryptSync(password, salt, 64).toString('hex');
+  return `scrypt$${salt}$${hash}`;
+};
+
+export const verifyPassword = (password: string, stored: string) => {
+  const [scheme, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const expected = Buffer.from(hash, 'hex');
+  const actual = scryptSync(password, salt, expected.length);
+  return timingSafeEqual(expected, actual);
+};
+
+// --- Tokens (HS256 JWT) ---
+
+const base64Url = (input: string | Buffer) => Buffer.from(input).toString('base64url');
+
+const sign = (data: string) => createHmac('sha256', getSecret()).update(data).digest('base64url');
+
+export const signToken = (claims: TokenClaims) => {
+  const header = base64Url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+  const payload = base64Url(JSON.stringify(claims));
+  return `${header}.${payload}.${sign(`${header}.${payload}`)}`;
+};
+
+/**
+ * Returns the claims of a valid, unexpired token whose session is still open,
+ * or null. Logging out closes the session, so its tokens stop working immediately.
+ */
+export const verifyToken = (token: string): TokenClaims | null => {
+  const [header, payload, signature] = token.split('.');
+  if (!header || !payload || !signature) return null;
+
+  const expected = Buffer.from(sign(`${header}.${payload}`));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  let claims: TokenClaims;
+  try {
+    claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+
+  if (claims.exp <= now()) return null;
+  if (!sessions.read().some(s => s.id === claims.sid && s.expiresAt > now())) return null;
+  return claims;
+};
+
+// --- Users & sessions ---
+
+export const findUser = (id: string) => users.read().find(u => u.id === id);
+
+export const listUsers = () => users.read();
+
+export const createUser = (username: string, password: string, role: UserRole): StoredUser => {
+  const name = normalizeUsername(username);
+  if (!name) throw new HttpError(400, 'Username is required');
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new HttpError(400, `Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+  if (password.length > MAX_PASSWORD_LENGTH) {
+    throw new HttpError(400, `Password must be at most ${MAX_PASSWORD_LENGTH} characters`);
+  }
+  if (users.read().some(u => u.username === name)) {
+    throw new HttpError(409, 'Username is already taken');
+  }
+
+  const user: StoredUser = {
+    id: randomUUID(),
+    username: name,
+    passwordHash: hashPassword(password),
+    role,
+    createdAt: Date.now(),
+  };
+  users.update(list => [...list, user]);
+  return user;
+};
+
+const issueTokens = (user: StoredUser, sessionId: string): AuthResult => {
+  const refreshSecret = randomBytes(32).toString('base64url');
+  const issuedAt = now();
+
+  sessions.update(list => [
+    ...list.filter(s => s.id !== sessionId && s.expiresAt > issuedAt),
+    { id: sessionId, userId: user.id, refreshHash: sha256(refreshSecret), expiresAt: issuedAt + REFRESH_TOKEN_TTL },
+  ]);
+
+  return {
+    accessToken: signToken({
+      sub: user.id,
+      username: user.username,
+      role: user.role,
+      sid: sessionId,
+      iat: issuedAt,
+      exp: issuedAt + ACCESS_TOKEN_TTL,
+    }),
+    // The session id prefix lets us find the session without scanning hashes.
+    refreshToken: `${sessionId}.${refreshSecret}`,
+    user: toPublicUser(user),
+  };
+};
+
+/**
+ * Signs in from `address`. Failed attempts are throttled per username and per address,
+ * whether or not the account exists; a successful sign-in clears the username's count.
+ */
+export const login = (username: string, password: string, address: string): AuthResult => {
+  const name = normalizeUsername(username);
+  failedLoginsByUser.check(name);
+  failedLoginsByAddress.check(address);
+
+  const user = users.read().find(u => u.username === name);
+  // Always run the hash so response time does not reveal whether the user exists.
+  const valid = password.length <= MAX_PASSWORD_LENGTH && verifyPassword(password, user?.passwordHash || hashPassword(''));
+  if (!user || !valid) {
+    failedLoginsByUser.record(name);
+    failedLoginsByAddress.record(address);
+    throw new HttpError(401, 'Invalid credentials');
+  }
+  failedLoginsByUser.reset(name);
+  return issueTokens(user, randomUUID());
+};
+
+// Self-service sign-up always creates a regular user; admins are seeded on the server.
+export const register = (username: string, password: string, address: string): AuthResult => {
+  registrationsByAddress.check(address);
+  const user = createUser(username, password, UserRole.USER);
+  registrationsByAddress.record(address);
+  return issueTokens(user, randomUUID());
+};
+
+// Rotates the refresh token: the old one cannot be used again.
+export const refresh = (refreshToken: string): AuthResult => {
+  const [sessionId, refreshSecret] = refreshToken.split('.');
+  const session = sessions.read().find(s => s.id === sessionId);
+  if (!session || !refreshSecret || session.expiresAt <= now() || session.refreshHash !== sha256(refreshSecret)) {
+    throw new HttpError(401, 'Invalid or expired refresh token');
+  }
+  const user = findUser(session.userId);
+  if (!user) {
+    throw new HttpError(401, 'Invalid or expired refresh token');
+  }
+  return issueTokens(user, session.id);
+};
+
+export const logout = (sessionId: string) => {
+  sessions.update(list => list.filter(s => s.id !== sessionId));
+};
+
+// Creates the first admin from ADMIN_USERNAME / ADMIN_PASSWORD when no admin exists yet.
+export const seedAdmin = () => {
+  if (users.read().some(u => u.role === UserRole.ADMIN)) return;
+
+  const username = process.env.ADMIN_USERNAME;
+  const password = process.env.ADMIN_PASSWORD;
+  if (!username || !password) {
+    console.warn('No admin account exists. Set ADMIN_USERNAME and ADMIN_PASSWORD to create one.');
+    return;
+  }
+  createUser(username, password, UserRole.ADMIN);
+  console.log(`Created admin account "${normalizeUsername(username)}".`);
+};
+
+// --- Route guards ---
+
+export const requireAuth = (handler: Handler): Handler => (ctx) => {
+  if (!ctx.claims) throw new HttpError(401, 'Authentication required');
+  return handler(ctx);
+};
+
+export const requireRole = (role: UserRole, handler: Handler): Handler => requireAuth((ctx) => {
+  if (ctx.claims?.role !== role) throw new HttpError(403, 'Insufficient permissions');
+  return handler(ctx);
+});
@@ -0,0 +1,24 @@
+import { clientAddress, Handler, HttpError, requireString } from './http';
+import { findUser, login, logout, refresh, register, requireAuth, toPublicUser } from './auth';
+
+export const authRoutes: Record<string, Handler> = {
+  'POST /api/auth/login': async ({ body, req }) =>
+    login(requireString(body, 'username'), requireString(body, 'password'), clientAddress(req)),
+
+  'POST /api/auth/register': async ({ body, req }) =>
+    register(requireString(body, 'username'), requireString(body, 'password'), clientAddress(req)),
+
+  'POST /api/auth/refresh': async ({ body }) =>
+    refresh(requireString(body, 'refreshToken')),
+
+  'POST /api/auth/logout': requireAuth(async ({ claims }) => {
+    logout(claims!.sid);
+    return { ok: true };
+  }),
+
+  'GET /api/auth/me': requireAuth(async ({ claims }) => {
+    const user = findUser(claims!.sub);
+    if (!user) throw new HttpError(401, 'Account no longer exists');
+    return { user: toPublicUser(user) };
+  }),
+};
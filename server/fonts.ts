@@ -0,0 +1,34 @@
+import { FALLBACK_FONT, fontFamily, googleFontsCss } from '../services/languageRegistry';
+import { HttpError } from './http';
+import { listLanguages } from './languages';
+
+// Font files for the PDF export, which embeds them rather than drawing page images.
+// Google Fonts gives browsers WOFF2 files split by unicode range, but clients it does
+// not recognise get one TrueType file with the whole font, which is what jsPDF embeds.
+
+// Base64 file contents by family; failed downloads are forgotten so they can be retried
+const cache = new Map<string, Promise<string>>();
+
+const download = async (family: string) => {
+  const css = await fetch(googleFontsCss(family));
+  if (!css.ok) throw new HttpError(404, `Google Fonts has no family named "${family}"`);
+  const url = (await css.text()).match(/url\((https:[^)]+)\)\s*format\(['"]truetype['"]\)/)?.[1];
+  if (!url) throw new HttpError(502, `Google Fonts returned no TrueType file for "${family}"`);
+  const file = await fetch(url);
+  if (!file.ok) throw new HttpError(502, `Could not download the font file for "${family}"`);
+  return Buffer.from(await file.arrayBuffer()).toString('base64');
+};
+
+/** A TrueType font named by a registry language (or the fallback font), base64-encoded. */
+export const getFont = (family: string) => {
+  const known = new Set([FALLBACK_FONT, ...listLanguages().map(language => fontFamily(language.font))]);
+  if (!known.has(family)) throw new HttpError(404, `No language uses the font "${family}"`);
+
+  let font = cache.get(family);
+  if (!font) {
+    font = download(family);
+    cache.set(family, font);
+    font.catch(() => cache.delete(family));
+  }
+  return font;
+};
@@ -0,0 +1,91 @@
+import { randomUUID } from 'crypto';
+import { GlossaryEntry, GlossaryTerm } from '../types';
+import { GlossaryInput, parseGlossaryCsv, toLangCode } from '../services/glossary';
+import { createJsonStore } from './store';
+import { HttpError } from './http';
+
+const MAX_TERMS_PER_REQUEST = 200;
+
+const glossary = createJsonStore<GlossaryEntry[]>('glossary', []);
+
+const sameTerm = (a: GlossaryInput, b: GlossaryInput) =>
+  a.sourceLang === b.sourceLang &&
+  a.targetLang === b.targetLang &&
+  a.source.toLowerCase() === b.source.toLowerCase();
+
+export const validateGlossaryInput = (body: any, partial = false): Partial<GlossaryInput> => {
+  const input: Partial<GlossaryInput> = {};
+
+  (['sourceLang', 'targetLang', 'source', 'target'] as const).forEach(field => {
+    const value = typeof body?.[field] === 'string' ? body[field].trim() : '';
+    if (value) {
+      input[field] = field.endsWith('Lang') ? toLangCode(value) : value;
+    } else if (!partial) {
+      throw new HttpError(400, `Missing or invalid field: ${field}`);
+    }
+  });
+
+  if (typeof body?.caseSensitive === 'boolean') input.caseSensitive = body.caseSensitive;
+  else if (!partial) input.caseSensitive = false;
+  if (typeof body?.note === 'string') input.note = body.note.trim() || undefined;
+
+  return input;
+};
+
+export const listEntries = () => glossary.read();
+
+export const createEntry = (input: GlossaryInput): GlossaryEntry => {
+  if (glossary.read().some(e => sameTerm(e, input))) {
+    throw new HttpError(409, `A glossary entry for "${input.source}" already exists for this language pair`);
+  }
+  const entry: GlossaryEntry = { ...input, id: randomUUID(), updatedAt: Date.now() };
+  glossary.update(list => [...list, entry]);
+  return entry;
+};
+
+export const updateEntry = (id: string, input: Partial<GlossaryInput>): GlossaryEntry => {
+  const existing = glossary.read().find(e => e.id === id);
+  if (!existing) throw new HttpError(404, 'Glossary entry not found');
+
+  const updated: GlossaryEntry = { ...existing, ...input, id, updatedAt: Date.now() };
+  if (glossary.read().some(e => e.id !== id && sameTerm(e, updated))) {
+    throw new HttpError(409, `A glossary entry for "${updated.source}" already exists for this language pair`);
+  }
+  glossary.update(list => list.map(e => (e.id === id ? updated : e)));
+  return updated;
+};
+
+export const deleteEntry = (id: string) => {
+  if (!glossary.read().some(e => e.id === id)) throw new HttpError(404, 'Glossary entry not found');
+  glossary.update(list => list.filter(e => e.id !== id));
+};
+
+// Rows matching an existing term for the same pair replace its translation.
+export const importCsv = (csv: string) => {
+  const { entries, errors } = parseGlossaryCsv(csv);
+  const now = Date.now();
+
+  glossary.update(list => {
+    const next = [...list];
+    entries.forEach(input => {
+      const index = next.findIndex(e => sameTerm(e, input));
+      if (index >= 0) {
+        next[index] = { ...next[index], ...input, updatedAt: now };
+      } else {
+        next.push({ ...input, id: randomUUID(), updatedAt: now });
+      }
+    });
+    return next;
+  });
+
+  return { imported: entries.length, errors };
+};
+
+// Terms arrive from the browser with translation requests; keep only well-formed ones.
+export const readGlossaryTerms = (body: any): GlossaryTerm[] | undefined => {
+  if (!Array.isArray(body?.glossary)) return undefined;
+  return body.glossary
+    .filter((t: any) => typeof t?.source === 'string' && typeof t?.target === 'string')
+    .slice(0, MAX_TERMS_PER_REQUEST)
+    .map((t: any) => ({ source: t.source, target: t.target, caseSensitive: t.caseSensitive === true }));
+};
@@ -0,0 +1,27 @@
+import { UserRole } from '../types';
+import { GlossaryInput } from '../services/glossary';
+import { Handler, requireString } from './http';
+import { requireRole } from './auth';
+import { createEntry, deleteEntry, importCsv, listEntries, updateEntry, validateGlossaryInput } from './glossary';
+
+// Anyone may read the glossary since every translation applies it; only admins edit it.
+export const glossaryRoutes: Record<string, Handler> = {
+  'GET /api/glossary': async () => ({ entries: listEntries() }),
+
+  'POST /api/glossary': requireRole(UserRole.ADMIN, async ({ body }) => ({
+    entry: createEntry(validateGlossaryInput(body) as GlossaryInput),
+  })),
+
+  'PUT /api/glossary/:id': requireRole(UserRole.ADMIN, async ({ body, params }) => ({
+    entry: updateEntry(params.id, validateGlossaryInput(body, true)),
+  })),
+
+  'DELETE /api/glossary/:id': requireRole(UserRole.ADMIN, async ({ params }) => {
+    deleteEntry(params.id);
+    return { ok: true };
+  }),
+
+  'POST /api/glossary/import': requireRole(UserRole.ADMIN, async ({ body }) =>
+    importCsv(requireString(body, 'csv'))
+  ),
+};
@@ -0,0 +1,175 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import type { TokenClaims } from './auth';
+import type { ModelUsage } from '../services/providers';
+import type { DateRange } from '../services/dateRange';
+
+// Base64 uploads of 5MB files grow by a third; leave headroom.
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+
+export class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export interface RequestContext {
+  body: any;
+  req: IncomingMessage;
+  // Claims of a verified bearer token, if the request carried one
+  claims: TokenClaims | null;
+  // Values of `:name` segments in the route pattern
+  params: Record<string, string>;
+  // The URL's query string, e.g. `?from=2024-01-01`
+  query: URLSearchParams;
+  // Aborted when the client disconnects, so upstream model calls can stop early
+  signal: AbortSignal;
+}
+
+/**
+ * Returned by a handler to stream text instead of sending one JSON body.
+ * `run` reports the accumulated output through `onPartial`, the model's token usage
+ * through `onUsage`, and resolves with the final text.
+ */
+export class TextStream {
+  constructor(public run: (onPartial: (text: string) => void, onUsage: (usage: ModelUsage) => void) => Promise<string>) {}
+}
+
+export type Handler = (ctx: RequestContext) => Promise<unknown>;
+
+export interface MatchResult {
+  handler: Handler | null;
+  params: Record<string, string>;
+  // True when the path is known but not for this method (405 rather than 404)
+  pathExists: boolean;
+}
+
+/**
+ * Resolves "METHOD /path" against route keys, where path segments may be
+ * `:name` placeholders, e.g. "DELETE /api/glossary/:id".
+ */
+export const matchRoute = (routes: Record<string, Handler>, method: string, path: string): MatchResult => {
+  const segments = path.split('/');
+  let pathMatched = false;
+
+  for (const [key, handler] of Object.entries(routes)) {
+    const [routeMethod, pattern] = key.split(' ');
+    const patternSegments = pattern.split('/');
+    if (patternSegments.length !== segments.length) continue;
+
+    const params: Record<string, string> = {};
+    const matches = patternSegments.every((segment, i) => {
+      if (segment.startsWith(':')) {
+        params[segment.slice(1)] = decodeURIComponent(segments[i]);
+        return segments[i] !== '';
+      }
+      return segment === segments[i];
+    });
+    if (!matches) continue;
+
+    pathMatched = true;
+    if (routeMethod === method) return { handler, params, pathExists: true };
+  }
+
+  return { handler: null, params: {}, pathExists: pathMatched };
+};
+
+export const readJson = (req: IncomingMessage): Promise<any> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, 'Request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+
+    req.on('end', () => {
+      if (chunks.length === 0) return resolve({});
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      } catch {
+        reject(new HttpError(400, 'Invalid JSON body'));
+      }
+    });
+
+    req.on('error', reject);
+  });
+
+export const sendJson = (res: ServerResponse, status: number, payload: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(payload));
+};
+
+// Newline-delimited JSON: `{ text }` deltas, then `{ done: true, text, usage? }` or `{ error }`.
+// The status is already sent by the time the model fails, so errors travel in-band.
+export const sendStream = async (res: ServerResponse, stream: TextStream) => {
+  res.writeHead(200, { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-cache' });
+  const write = (event: object) => res.write(`${JSON.stringify(event)}\n`);
+  let sent = 0;
+  let usage: ModelUsage | undefined;
+
+  try {
+    const text = await stream.run(
+      partial => {
+        if (partial.length <= sent) return;
+        write({ text: partial.slice(sent) });
+        sent = partial.length;
+      },
+      reported => { usage = reported; }
+    );
+    write({ done: true, text, usage });
+  } catch (error) {
+    if (!res.destroyed) {
+      console.error('Stream error:', error);
+      write({ error: 'Upstream model request failed' });
+    }
+  }
+  res.end();
+};
+
+export const requireString = (body: any, field: string): string => {
+  const value = body?.[field];
+  if (typeof value !== 'string' || !value) {
+    throw new HttpError(400, `Missing or invalid field: ${field}`);
+  }
+  return value;
+};
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+// Optional `from` and `to` yyyy-mm-dd query parameters of the admin reports.
+export const readDateRange = (query: URLSearchParams): Partial<DateRange> => {
+  const range: Partial<DateRange> = {};
+  (['from', 'to'] as const).forEach(field => {
+    const value = query.get(field);
+    if (!value) return;
+    if (!DATE.test(value) || Number.isNaN(Date.parse(value))) {
+      throw new HttpError(400, `Invalid date: ${field}`);
+    }
+    range[field] = value;
+  });
+  return range;
+};
+
+// The Vite dev proxy (and a reverse proxy on the same host) forwards the browser's address
+// in X-Forwarded-For; the header is only trusted from a local connection.
+const LOOPBACK = new Set(['127.0.0.1', '::1', '::ffff:127.0.0.1']);
+
+export const clientAddress = (req: IncomingMessage) => {
+  const remote = req.socket.remoteAddress || '';
+  const forwarded = req.headers['x-forwarded-for'];
+  if (!LOOPBACK.has(remote) || typeof forwarded !== 'string') return remote;
+  // Each proxy appends the address it received the request from
+  return forwarded.split(',').pop()!.trim() || remote;
+};
+
+export const getBearerToken = (req: IncomingMessage) => {
+  const header = req.headers.authorization || '';
+  return header.startsWith('Bearer ') ? header.slice('Bearer '.length) : null;
+};
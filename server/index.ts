@@ -0,0 +1,84 @@
+import { createServer } from 'http';
+import { loadEnvFile } from 'process';
+import { getBearerToken, Handler, HttpError, matchRoute, readJson, sendJson, sendStream, TextStream } from './http';
+import { aiRoutes } from './routes';
+import { authRoutes } from './authRoutes';
+import { userRoutes } from './userRoutes';
+import { glossaryRoutes } from './glossaryRoutes';
+import { languageRoutes } from './languageRoutes';
+import { usageRoutes } from './usageRoutes';
+import { analyticsRoutes } from './analyticsRoutes';
+import { loadLanguages } from './languages';
+import { withActivityTracking } from './users';
+import { seedAdmin, verifyToken } from './auth';
+
+// Secrets live in .env.local next to the frontend config, but are only ever read here.
+try {
+  loadEnvFile('.env.local');
+} catch {
+  // Fall back to the process environment
+}
+
+const PORT = Number(process.env.API_PORT) || 3001;
+
+const routes: Record<string, Handler> = {
+  ...withActivityTracking(aiRoutes),
+  ...authRoutes,
+  ...userRoutes,
+  ...glossaryRoutes,
+  ...languageRoutes,
+  ...usageRoutes,
+  ...analyticsRoutes,
+};
+
+seedAdmin();
+loadLanguages();
+
+// Exit normally on Ctrl+C and on shutdown, so buffered store writes are flushed (see server/store.ts)
+process.on('SIGINT', () => process.exit());
+process.on('SIGTERM', () => process.exit());
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url || '/', 'http://localhost');
+  const path = url.pathname;
+  const match = matchRoute(routes, req.method || 'GET', path);
+
+  if (match.handler === null) {
+    return match.pathExists
+      ? sendJson(res, 405, { error: 'Method not allowed' })
+      : sendJson(res, 404, { error: 'Not found' });
+  }
+
+  // A connection closed before the response finished means the client gave up
+  const disconnect = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) disconnect.abort();
+  });
+
+  try {
+    const token = getBearerToken(req);
+    const body = req.method === 'GET' || req.method === 'DELETE' ? {} : await readJson(req);
+    const result = await match.handler({
+      body,
+      req,
+      claims: token ? verifyToken(token) : null,
+      params: match.params,
+      query: url.searchParams,
+      signal: disconnect.signal,
+    });
+    if (result instanceof TextStream) {
+      return sendStream(res, result);
+    }
+    sendJson(res, 200, result);
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return sendJson(res, error.status, { error: error.message });
+    }
+    console.error(`${path} error:`, error);
+    sendJson(res, 502, { error: 'Upstream model request failed' });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`LinguistAI API listening on http://localhost:${PORT} (provider: ${process.env.TRANSLATION_PROVIDER || 'gemini'})`);
+});
@@ -0,0 +1,27 @@
+import { UserRole } from '../types';
+import { LanguageInput } from '../services/languageRegistry';
+import { Handler } from './http';
+import { requireRole } from './auth';
+import { getFont } from './fonts';
+import { createLanguage, deleteLanguage, listLanguages, updateLanguage, validateLanguageInput } from './languages';
+
+// Every page renders its language lists from the registry, so anyone may read it; only admins edit it.
+export const languageRoutes: Record<string, Handler> = {
+  'GET /api/languages': async () => ({ languages: listLanguages() }),
+
+  // TrueType files of the registry's fonts, embedded by the PDF export
+  'GET /api/fonts/:family': async ({ params }) => ({ family: params.family, data: await getFont(params.family) }),
+
+  'POST /api/languages': requireRole(UserRole.ADMIN, async ({ body }) => ({
+    language: createLanguage(validateLanguageInput(body) as LanguageInput),
+  })),
+
+  'PUT /api/languages/:code': requireRole(UserRole.ADMIN, async ({ body, params }) => ({
+    language: updateLanguage(params.code, validateLanguageInput(body, true)),
+  })),
+
+  'DELETE /api/languages/:code': requireRole(UserRole.ADMIN, async ({ params }) => {
+    deleteLanguage(params.code);
+    return { ok: true };
+  }),
+};
@@ -0,0 +1,82 @@
+import { DEFAULT_LANGUAGES, Language, VOICES } from '../types';
+import { LanguageInput, setLanguages } from '../services/languageRegistry';
+import { createJsonStore } from './store';
+import { HttpError } from './http';
+
+const languages = createJsonStore<Language[]>('languages', DEFAULT_LANGUAGES);
+
+// Keeps server-side lookups (e.g. glossary language codes) in step with the store.
+const save = (next: Language[]) => {
+  setLanguages(languages.update(() => next));
+};
+
+export const validateLanguageInput = (body: any, partial = false): Partial<LanguageInput> => {
+  const input: Partial<LanguageInput> = {};
+
+  if (!partial) {
+    const code = typeof body?.code === 'string' ? body.code.trim().toLowerCase() : '';
+    if (!/^[a-z]{2,3}(-[a-z0-9]{2,8})?$/.test(code)) {
+      throw new HttpError(400, 'Language code must be an ISO 639 code such as "hi" or "pt-br"');
+    }
+    input.code = code;
+  }
+
+  (['name', 'flag', 'script'] as const).forEach(field => {
+    const value = typeof body?.[field] === 'string' ? body[field].trim() : '';
+    if (value) input[field] = value;
+    else if (!partial) throw new HttpError(400, `Missing or invalid field: ${field}`);
+  });
+  if (input.script && !/^[A-Z][a-z]{3}$/.test(input.script)) {
+    throw new HttpError(400, 'Script must be an ISO 15924 code such as "Deva" or "Arab"');
+  }
+
+  if (body?.direction === 'ltr' || body?.direction === 'rtl') input.direction = body.direction;
+  else if (body?.direction !== undefined) throw new HttpError(400, 'Direction must be "ltr" or "rtl"');
+  else if (!partial) input.direction = 'ltr';
+
+  // An empty string clears the optional fields
+  if (typeof body?.font === 'string') input.font = body.font.trim() || undefined;
+  if (typeof body?.voice === 'string') {
+    const voice = body.voice.trim();
+    if (voice && !VOICES.includes(voice)) throw new HttpError(400, `Unknown voice: ${voice}`);
+    input.voice = voice || undefined;
+  }
+
+  if (typeof body?.enabled === 'boolean') input.enabled = body.enabled;
+  else if (!partial) input.enabled = true;
+
+  return input;
+};
+
+export const listLanguages = () => languages.read();
+
+export const loadLanguages = () => setLanguages(languages.read());
+
+export const createLanguage = (input: LanguageInput): Language => {
+  if (languages.read().some(l => l.code === input.code)) {
+    throw new HttpError(409, `Language "${input.code}" already exists`);
+  }
+  save([...languages.read(), input]);
+  return input;
+};
+
+export const updateLanguage = (code: string, input: Partial<LanguageInput>): Language => {
+  const existing = languages.read().find(l => l.code === code);
+  if (!existing) throw new HttpError(404, 'Language not found');
+
+  const updated: Language = { ...existing, ...input, code };
+  if (!updated.enabled && languages.read().filter(l => l.enabled && l.code !== code).length === 0) {
+    throw new HttpError(400, 'At least one language must stay enabled');
+  }
+  save(languages.read().map(l => (l.code === code ? updated : l)));
+  return updated;
+};
+
+// History records and glossary entries keep their codes; they show the code once the language is gone.
+export const deleteLanguage = (code: string) => {
+  if (!languages.read().some(l => l.code === code)) throw new HttpError(404, 'Language not found');
+  if (languages.read().filter(l => l.enabled && l.code !== code).length === 0) {
+    throw new HttpError(400, 'At least one language must stay enabled');
+  }
+  save(languages.read().filter(l => l.code !== code));
+};
@@ -0,0 +1,153 @@
+import { DocumentRequest, getProvider, ModelUsage, ReferenceTranslation, RefineStyle, TranslateRequest } from '../services/providers';
+import { ApiOperation, UserRole } from '../types';
+import { Handler, HttpError, RequestContext, requireString, TextStream } from './http';
+import { requireRole } from './auth';
+import { readGlossaryTerms } from './glossary';
+import { trackUsage } from './usage';
+import { documentTranslation, textTranslation, trackTranslation } from './analytics';
+
+const REFINE_STYLES: RefineStyle[] = ['summarize', 'polish', 'formal', 'casual'];
+const MAX_REFERENCES = 10;
+const MAX_DOCUMENT_ID = 64;
+
+// Translation memory references arrive from the browser; keep only well-formed ones.
+const readReferences = (body: any): ReferenceTranslation[] | undefined => {
+  if (!Array.isArray(body?.references)) return undefined;
+  return body.references
+    .filter((r: any) => typeof r?.source === 'string' && typeof r?.target === 'string')
+    .slice(0, MAX_REFERENCES)
+    .map((r: any) => ({ source: r.source, target: r.target }));
+};
+
+const readTranslateRequest = (body: any): TranslateRequest => ({
+  text: requireString(body, 'text'),
+  sourceLang: requireString(body, 'sourceLang'),
+  targetLang: requireString(body, 'targetLang'),
+  glossary: readGlossaryTerms(body),
+  references: readReferences(body),
+  purpose: body.purpose === 'backTranslation' ? 'backTranslation' : undefined,
+});
+
+const readDocumentRequest = (body: any): DocumentRequest => ({
+  content: requireString(body, 'content'),
+  sourceLang: requireString(body, 'sourceLang'),
+  targetLang: requireString(body, 'targetLang'),
+  glossary: readGlossaryTerms(body),
+  references: readReferences(body),
+  format: body.format === 'units' ? 'units' : 'text',
+  documentId: typeof body.documentId === 'string' && body.documentId.length <= MAX_DOCUMENT_ID ? body.documentId : undefined,
+});
+
+// Logs the call (see server/usage.ts) and sends the provider's result under `field`,
+// with the token usage it reported.
+const withUsage = async (
+  field: string,
+  operation: ApiOperation,
+  ctx: RequestContext,
+  call: (onUsage: (usage: ModelUsage) => void) => Promise<unknown>
+) => {
+  let usage: ModelUsage | undefined;
+  const result = await trackUsage(operation, ctx, track => call(reported => {
+    usage = reported;
+    track(reported);
+  }));
+  return { [field]: result, usage };
+};
+
+// Streaming counterpart of withUsage; the call is logged once the stream ends.
+const trackedStream = (operation: ApiOperation, ctx: RequestContext, run: TextStream['run']) =>
+  new TextStream((onPartial, onUsage) => trackUsage(operation, ctx, track => run(onPartial, reported => {
+    track(reported);
+    onUsage(reported);
+  })));
+
+const documentOperation = (request: DocumentRequest): ApiOperation =>
+  request.format === 'units' ? 'translateUnits' : 'translateDocument';
+
+// Handlers keyed by "METHOD /path". Each returns the JSON payload for a 200 response,
+// or a TextStream for the /stream variants.
+export const aiRoutes: Record<string, Handler> = {
+  'POST /api/translate': async (ctx) => {
+    const request = readTranslateRequest(ctx.body);
+    return withUsage('text', 'translate', ctx, onUsage =>
+      trackTranslation(textTranslation(request), ctx, () => getProvider().translateText({ ...request, onUsage })));
+  },
+
+  'POST /api/translate/stream': async (ctx) => {
+    const request = readTranslateRequest(ctx.body);
+    return trackedStream('translate', ctx, (onPartial, onUsage) => trackTranslation(textTranslation(request), ctx, () =>
+      getProvider().translateText({ ...request, signal: ctx.signal, onPartial, onUsage })));
+  },
+
+  'POST /api/translate/structured': async (ctx) => {
+    const request = readTranslateRequest(ctx.body);
+    return withUsage('translation', 'translateStructured', ctx, onUsage => trackTranslation(textTranslation(request), ctx, () =>
+      getProvider().translateStructured({ ...request, signal: ctx.signal, onUsage })));
+  },
+
+  // Text documents send `content`; binary files (PDF, images) send base64 `data` and `mimeType`.
+  'POST /api/document': async (ctx) => {
+    const { body } = ctx;
+    const targetLang = requireString(body, 'targetLang');
+    if (typeof body.data === 'string') {
+      const file = { type: 'document', sourceLang: 'auto', targetLang, characters: 0 } as const;
+      return withUsage('text', 'translateFile', ctx, onUsage => trackTranslation(file, ctx, () => getProvider().translateFile({
+        data: body.data,
+        mimeType: requireString(body, 'mimeType'),
+        targetLang,
+        glossary: readGlossaryTerms(body),
+        onUsage,
+      })));
+    }
+    const request = readDocumentRequest(body);
+    return withUsage('text', documentOperation(request), ctx, onUsage => trackTranslation(documentTranslation(request), ctx, () =>
+      getProvider().translateDocument({ ...request, onUsage })));
+  },
+
+  'POST /api/document/stream': async (ctx) => {
+    const request = readDocumentRequest(ctx.body);
+    return trackedStream(documentOperation(request), ctx, (onPartial, onUsage) => trackTranslation(documentTranslation(request), ctx, () =>
+      getProvider().translateDocument({ ...request, signal: ctx.signal, onPartial, onUsage })));
+  },
+
+  'POST /api/detect': async (ctx) =>
+    withUsage('detection', 'detectLanguage', ctx, onUsage =>
+      getProvider().detectLanguage({ text: requireString(ctx.body, 'text'), onUsage })),
+
+  'POST /api/quality': async (ctx) =>
+    withUsage('judgement', 'judgeQuality', ctx, onUsage => getProvider().judgeTranslation({
+      sourceText: requireString(ctx.body, 'sourceText'),
+      translatedText: requireString(ctx.body, 'translatedText'),
+      backTranslation: requireString(ctx.body, 'backTranslation'),
+      sourceLang: requireString(ctx.body, 'sourceLang'),
+      targetLang: requireString(ctx.body, 'targetLang'),
+      onUsage,
+    })),
+
+  'POST /api/transcribe': async (ctx) =>
+    withUsage('text', 'transcribe', ctx, onUsage => getProvider().transcribeAudio({
+      data: requireString(ctx.body, 'data'),
+      mimeType: requireString(ctx.body, 'mimeType'),
+      onUsage,
+    })),
+
+  'POST /api/speech': async (ctx) =>
+    withUsage('audio', 'speech', ctx, onUsage => getProvider().generateSpeech({
+      text: requireString(ctx.body, 'text'),
+      langCode: requireString(ctx.body, 'langCode'),
+      voice: typeof ctx.body.voice === 'string' ? ctx.body.voice : undefined,
+      onUsage,
+    })),
+
+  'POST /api/refine': async (ctx) => {
+    const style = requireString(ctx.body, 'style') as RefineStyle;
+    if (!REFINE_STYLES.includes(style)) {
+      throw new HttpError(400, `Unknown refine style: ${style}`);
+    }
+    return withUsage('text', 'refine', ctx, onUsage => getProvider().refineText(requireString(ctx.body, 'text'), style, { onUsage }));
+  },
+
+  'POST /api/insights': requireRole(UserRole.ADMIN, async (ctx) =>
+    withUsage('text', 'insights', ctx, onUsage => getProvider().generateInsights(ctx.body.data ?? {}, { onUsage }))
+  ),
+};
@@ -0,0 +1,135 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync, writeFileSync, renameSync } from 'fs';
+import { appendFile, mkdir, rename, writeFile } from 'fs/promises';
+import { join } from 'path';
+
+// Resolved lazily so DATA_DIR from .env.local is honoured.
+const dataDir = () => process.env.DATA_DIR || join('server', 'data');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Buffered writes are flushed when the process exits normally
+const exitFlushes = new Set<() => void>();
+process.on('exit', () => exitFlushes.forEach(flush => flush()));
+
+const writeAtomically = (file: string, contents: string) => {
+  mkdirSync(dataDir(), { recursive: true });
+  writeFileSync(`${file}.tmp`, contents);
+  renameSync(`${file}.tmp`, file);
+};
+
+/**
+ * Minimal JSON-file persistence for server state. Writes go to a temp file first
+ * so a crash mid-write never leaves a truncated store behind. With `flushMs`, changes
+ * made within that window are written once, for state that changes on every request.
+ */
+export const createJsonStore = <T>(name: string, initial: T, options: { flushMs?: number } = {}) => {
+  let data: T | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const file = () => join(dataDir(), `${name}.json`);
+
+  const read = (): T => {
+    if (data === null) {
+      data = existsSync(file()) ? JSON.parse(readFileSync(file(), 'utf8')) : initial;
+    }
+    return data as T;
+  };
+
+  const flush = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+    writeAtomically(file(), JSON.stringify(data, null, 2));
+  };
+
+  const write = (next: T) => {
+    data = next;
+    if (!options.flushMs) return flush();
+    if (!timer) timer = setTimeout(flush, options.flushMs);
+  };
+
+  exitFlushes.add(() => {
+    if (timer) flush();
+  });
+
+  const update = (fn: (current: T) => T) => {
+    write(fn(read()));
+    return read();
+  };
+
+  return { read, write, update };
+};
+
+/**
+ * Append-only NDJSON log for records written on every request, such as per-call telemetry.
+ * Entries are appended in batches, so logging never rewrites the file; entries older than
+ * `retentionDays` are dropped by a compaction that runs at most once a day.
+ */
+export const createLogStore = <T extends { timestamp: number }>(name: string, retentionDays: number, flushMs = 1000) => {
+  let entries: T[] | null = null;
+  let pending: string[] = [];
+  let lastCompacted = 0;
+  // Appends and compactions run one at a time, in order
+  let queue = Promise.resolve();
+
+  const file = () => join(dataDir(), `${name}.ndjson`);
+
+  const enqueue = (task: () => Promise<void>) => {
+    queue = queue.then(task).catch(error => console.error(`${name} log error:`, error));
+  };
+
+  // In time order. A line cut short by a crash is skipped.
+  const read = (): T[] => {
+    if (entries === null) {
+      const lines = existsSync(file()) ? readFileSync(file(), 'utf8').split('\n') : [];
+      entries = lines.flatMap(line => {
+        try {
+          return line ? [JSON.parse(line) as T] : [];
+        } catch {
+          return [];
+        }
+      });
+    }
+    return entries;
+  };
+
+  const flush = () => {
+    if (pending.length === 0) return;
+    const lines = pending.join('');
+    pending = [];
+    enqueue(async () => {
+      await mkdir(dataDir(), { recursive: true });
+      await appendFile(file(), lines);
+    });
+  };
+
+  const compact = () => {
+    lastCompacted = Date.now();
+    const cutoff = lastCompacted - retentionDays * DAY_MS;
+    const oldest = read()[0];
+    if (!oldest || oldest.timestamp >= cutoff) return;
+    entries = read().filter(entry => entry.timestamp >= cutoff);
+    // The rewritten file holds every entry, including those not yet appended
+    pending = [];
+    const contents = entries.map(entry => `${JSON.stringify(entry)}\n`).join('');
+    enqueue(async () => {
+      await mkdir(dataDir(), { recursive: true });
+      await writeFile(`${file()}.tmp`, contents);
+      await rename(`${file()}.tmp`, file());
+    });
+  };
+
+  const append = (entry: T) => {
+    read().push(entry);
+    pending.push(`${JSON.stringify(entry)}\n`);
+    if (pending.length === 1) setTimeout(flush, flushMs);
+    if (Date.now() - lastCompacted > DAY_MS) compact();
+  };
+
+  exitFlushes.add(() => {
+    if (pending.length === 0) return;
+    mkdirSync(dataDir(), { recursive: true });
+    appendFileSync(file(), pending.join(''));
+  });
+
+  return { read, append };
+};
@@ -0,0 +1,176 @@
+import { randomUUID } from 'crypto';
+import { ApiCall, ApiOperation, ApiOperationStats, ApiUsageData } from '../types';
+import { getProvider, ModelUsage } from '../services/providers';
+import { DateRange, dateKeys, resolveRange, toDateKey } from '../services/dateRange';
+import { RequestContext } from './http';
+import { createLogStore } from './store';
+
+// Per-call telemetry for the admin API usage report: every model call the backend makes
+// is timed and logged with the user, the tokens the provider reported and what they cost.
+
+export interface ModelPrice {
+  // USD per million tokens
+  input: number;
+  output: number;
+}
+
+// Gemini list prices (standard tier, prompts up to 200k tokens). Override or extend them
+// with MODEL_PRICES in .env.local, e.g. {"llama3.1": {"input": 0, "output": 0}}.
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.5-flash-preview-tts': { input: 0.5, output: 10 },
+  'gemini-3-pro-preview': { input: 2, output: 12 },
+};
+
+// Calls older than this are dropped when the log is compacted
+const RETENTION_DAYS = 365;
+
+const calls = createLogStore<ApiCall>('usage', RETENTION_DAYS);
+
+const readConfiguredPrices = (): Record<string, ModelPrice> => {
+  const raw = process.env.MODEL_PRICES;
+  if (!raw) return {};
+  try {
+    const parsed = JSON.parse(raw);
+    return Object.fromEntries(
+      Object.entries(parsed).filter(([, price]: [string, any]) =>
+        typeof price?.input === 'number' && typeof price?.output === 'number'
+      )
+    ) as Record<string, ModelPrice>;
+  } catch {
+    console.error("MODEL_PRICES is not valid JSON; using the default prices.");
+    return {};
+  }
+};
+
+// Read on first use, after .env.local has been loaded
+let prices: Record<string, ModelPrice> | null = null;
+
+const modelPrices = () => {
+  if (!prices) prices = { ...DEFAULT_PRICES, ...readConfiguredPrices() };
+  return prices;
+};
+
+/**
+ * Cost of one call in USD, or null when the model has no price. Versioned model names
+ * (gemini-2.5-flash-001) use the price of their longest listed prefix.
+ */
+export const priceCall = ({ model, inputTokens, outputTokens }: ModelUsage): number | null => {
+  const all = modelPrices();
+  const key = all[model]
+    ? model
+    : Object.keys(all).filter(name => model.startsWith(name)).sort((a, b) => b.length - a.length)[0];
+  if (!key) return null;
+  const price = all[key];
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+};
+
+const recordCall = (call: Omit<ApiCall, 'id' | 'timestamp'>) => {
+  calls.append({ ...call, id: randomUUID(), timestamp: Date.now() });
+};
+
+/**
+ * Runs one provider call for a request and logs it. `call` must pass the `onUsage` it
+ * receives on to the provider. A call that fails after the client disconnected counts
+ * as cancelled.
+ */
+export const trackUsage = async <T>(
+  operation: ApiOperation,
+  { claims, signal }: RequestContext,
+  call: (onUsage: (usage: ModelUsage) => void) => Promise<T>
+): Promise<T> => {
+  const startedAt = Date.now();
+  let usage: ModelUsage | undefined;
+
+  const log = (status: ApiCall['status'], error?: unknown) => {
+    try {
+      recordCall({
+        operation,
+        userId: claims?.sub ?? null,
+        provider: getProvider().name,
+        model: usage?.model ?? null,
+        latencyMs: Date.now() - startedAt,
+        inputTokens: usage?.inputTokens ?? 0,
+        outputTokens: usage?.outputTokens ?? 0,
+        costUsd: usage ? priceCall(usage) : null,
+        status,
+        ...(error !== undefined ? { error: error instanceof Error ? error.message : String(error) } : {}),
+      });
+    } catch (logError) {
+      // A full disk should not fail the translation itself
+      console.error('Usage log error:', logError);
+    }
+  };
+
+  try {
+    const result = await call(reported => { usage = reported; });
+    log('success');
+    return result;
+  } catch (error) {
+    log(signal.aborted ? 'cancelled' : 'error', error);
+    throw error;
+  }
+};
+
+/** Model calls, tokens and cost over a range of server-local dates (the last 7 days by default). */
+export const getApiUsage = (range?: Partial<DateRange>): ApiUsageData => {
+  const { from, to, start, end } = resolveRange(range);
+  const inRange = calls.read().filter(call => call.timestamp >= start && call.timestamp < end);
+
+  const days = new Map(dateKeys(start, end).map(date => [date, { calls: 0, errors: 0, tokens: 0, costUsd: 0 }]));
+  const operations = new Map<ApiOperation, ApiOperationStats>();
+  const models = new Map<string, ApiUsageData['byModel'][number]>();
+  let latencyTotal = 0;
+
+  inRange.forEach(call => {
+    const cost = call.costUsd ?? 0;
+    const failed = call.status === 'error';
+    latencyTotal += call.latencyMs;
+
+    const day = days.get(toDateKey(call.timestamp));
+    if (day) {
+      day.calls++;
+      if (failed) day.errors++;
+      day.tokens += call.inputTokens + call.outputTokens;
+      day.costUsd += cost;
+    }
+
+    const op = operations.get(call.operation) ?? {
+      operation: call.operation, calls: 0, errors: 0, averageLatencyMs: 0, maxLatencyMs: 0, inputTokens: 0, outputTokens: 0, costUsd: 0,
+    };
+    op.calls++;
+    if (failed) op.errors++;
+    // Running sum for now; divided below
+    op.averageLatencyMs += call.latencyMs;
+    op.maxLatencyMs = Math.max(op.maxLatencyMs, call.latencyMs);
+    op.inputTokens += call.inputTokens;
+    op.outputTokens += call.outputTokens;
+    op.costUsd += cost;
+    operations.set(call.operation, op);
+
+    if (call.model) {
+      const model = models.get(call.model) ?? { model: call.model, calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 };
+      model.calls++;
+      model.inputTokens += call.inputTokens;
+      model.outputTokens += call.outputTokens;
+      model.costUsd += cost;
+      models.set(call.model, model);
+    }
+  });
+
+  const sum = (value: (call: ApiCall) => number) => inRange.reduce((total, call) => total + value(call), 0);
+
+  return {
+    range: { from, to },
+    calls: inRange.length,
+    errors: inRange.filter(call => call.status === 'error').length,
+    inputTokens: sum(call => call.inputTokens),
+    outputTokens: sum(call => call.outputTokens),
+    costUsd: sum(call => call.costUsd ?? 0),
+    unpricedCalls: inRange.filter(call => call.status === 'success' && call.costUsd === null).length,
+    averageLatencyMs: inRange.length ? Math.round(latencyTotal / inRange.length) : null,
+    daily: [...days].map(([date, day]) => ({ date, ...day })),
+    byOperation: [...operations.values()].map(op => ({ ...op, averageLatencyMs: Math.round(op.averageLatencyMs / op.calls) })),
+    byModel: [...models.values()].sort((a, b) => b.costUsd - a.costUsd),
+  };
+};
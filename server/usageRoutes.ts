@@ -0,0 +1,10 @@
+import { UserRole } from '../types';
+import { Handler, readDateRange } from './http';
+import { requireRole } from './auth';
+import { getApiUsage } from './usage';
+
+export const usageRoutes: Record<string, Handler> = {
+  'GET /api/admin/usage': requireRole(UserRole.ADMIN, async ({ query }) => ({
+    usage: getApiUsage(readDateRange(query)),
+  })),
+};
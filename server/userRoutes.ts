@@ -0,0 +1,31 @@
+import { UserPreferences, UserRole } from '../types';
+import { Handler } from './http';
+import { requireAuth, requireRole } from './auth';
+import { getPreferences, listUserSummaries, savePreferences } from './users';
+
+const STRING_FIELDS = ['sourceLang', 'targetLang', 'voice'] as const;
+
+export const userRoutes: Record<string, Handler> = {
+  'GET /api/users/me/preferences': requireAuth(async ({ claims }) => ({
+    preferences: getPreferences(claims!.sub),
+  })),
+
+  // Partial update; unknown or malformed fields are ignored.
+  'PUT /api/users/me/preferences': requireAuth(async ({ body, claims }) => {
+    const update: Partial<UserPreferences> = {};
+    STRING_FIELDS.forEach(field => {
+      if (typeof body[field] === 'string' && body[field]) update[field] = body[field];
+    });
+    if (typeof body.tmThreshold === 'number' && body.tmThreshold >= 0.5 && body.tmThreshold <= 1) {
+      update.tmThreshold = body.tmThreshold;
+    }
+    if (typeof body.qualityCheck === 'boolean') {
+      update.qualityCheck = body.qualityCheck;
+    }
+    return { preferences: savePreferences(claims!.sub, update) };
+  }),
+
+  'GET /api/admin/users': requireRole(UserRole.ADMIN, async () => ({
+    users: listUserSummaries(),
+  })),
+};
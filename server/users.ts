@@ -0,0 +1,60 @@
+import { DEFAULT_PREFERENCES, UserPreferences, UserSummary } from '../types';
+import { createJsonStore } from './store';
+import { listUsers as listAccounts } from './auth';
+import { Handler } from './http';
+
+interface UserActivity {
+  requests: number;
+  lastActiveAt: number;
+}
+
+const preferences = createJsonStore<Record<string, UserPreferences>>('preferences', {});
+// Updated on every model request, so changes are written at most every few seconds
+const activity = createJsonStore<Record<string, UserActivity>>('activity', {}, { flushMs: 5000 });
+
+export const getPreferences = (userId: string): UserPreferences => ({
+  ...DEFAULT_PREFERENCES,
+  ...preferences.read()[userId],
+});
+
+export const savePreferences = (userId: string, next: Partial<UserPreferences>) => {
+  const merged = { ...getPreferences(userId), ...next };
+  preferences.update(all => ({ ...all, [userId]: merged }));
+  return merged;
+};
+
+// Counts model requests per signed-in user so admins can tell users apart.
+export const recordActivity = (userId: string) => {
+  activity.update(all => ({
+    ...all,
+    [userId]: {
+      requests: (all[userId]?.requests || 0) + 1,
+      lastActiveAt: Date.now(),
+    },
+  }));
+};
+
+// Wraps every handler so successful requests by signed-in users are counted.
+export const withActivityTracking = (routes: Record<string, Handler>): Record<string, Handler> =>
+  Object.fromEntries(
+    Object.entries(routes).map(([key, handler]) => [
+      key,
+      async (ctx) => {
+        const result = await handler(ctx);
+        if (ctx.claims) recordActivity(ctx.claims.sub);
+        return result;
+      },
+    ])
+  );
+
+export const listUserSummaries = (): UserSummary[] => {
+  const stats = activity.read();
+  return listAccounts().map(user => ({
+    id: user.id,
+    username: user.username,
+    role: user.role,
+    createdAt: user.createdAt,
+    requests: stats[user.id]?.requests || 0,
+    lastActiveAt: stats[user.id]?.lastActiveAt || null,
+  }));
+};
@@ -0,0 +1,12 @@
+import { AnalyticsData } from '../types';
+import { getJson } from './api';
+import { DateRange } from './dateRange';
+
+// Admin analytics cover every user: the server logs each translation it runs for them
+// (see server/analytics.ts) instead of reading this browser's history.
+
+/** Translations by all users over a range of dates. */
+export const getAnalytics = async (range: DateRange): Promise<AnalyticsData> => {
+  const query = new URLSearchParams({ from: range.from, to: range.to });
+  return (await getJson<{ analytics: AnalyticsData }>(`/api/admin/analytics?${query}`)).analytics;
+};
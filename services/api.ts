@@ -0,0 +1,148 @@
+import { AuthUser } from '../types';
+import { readLines } from './providers/streaming';
+import type { ModelUsage } from './providers/types';
+
+// Thin client for the LinguistAI backend (see server/). Paths are relative so the
+// Vite dev proxy and same-origin deployments both work.
+
+const ACCESS_TOKEN_KEY = 'authToken';
+const REFRESH_TOKEN_KEY = 'refreshToken';
+
+export class ApiError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+export interface AuthSession {
+  accessToken: string;
+  refreshToken: string;
+  user: AuthUser;
+}
+
+// --- Session tokens ---
+
+const sessionListeners = new Set<() => void>();
+
+export const getAccessToken = () => localStorage.getItem(ACCESS_TOKEN_KEY);
+
+export const setSession = ({ accessToken, refreshToken }: AuthSession) => {
+  localStorage.setItem(ACCESS_TOKEN_KEY, accessToken);
+  localStorage.setItem(REFRESH_TOKEN_KEY, refreshToken);
+};
+
+export const clearSession = () => {
+  localStorage.removeItem(ACCESS_TOKEN_KEY);
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
+  sessionListeners.forEach(listener => listener());
+};
+
+// Notified when the session is dropped, e.g. because the refresh token expired.
+export const onSessionCleared = (listener: () => void) => {
+  sessionListeners.add(listener);
+  return () => { sessionListeners.delete(listener); };
+};
+
+// Concurrent 401s share one refresh request, since refresh tokens are single-use.
+let pendingRefresh: Promise<boolean> | null = null;
+
+const refreshSession = () => {
+  const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+  if (!refreshToken) return Promise.resolve(false);
+
+  if (!pendingRefresh) {
+    pendingRefresh = fetch('/api/auth/refresh', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ refreshToken }),
+    })
+      .then(async response => {
+        if (!response.ok) {
+          clearSession();
+          return false;
+        }
+        setSession(await response.json());
+        return true;
+      })
+      .catch(() => false)
+      .finally(() => { pendingRefresh = null; });
+  }
+  return pendingRefresh;
+};
+
+// --- Requests ---
+
+const authorizedFetch = async (method: 'GET' | 'POST' | 'PUT' | 'DELETE', path: string, body?: unknown, signal?: AbortSignal) => {
+  const send = () => {
+    const token = getAccessToken();
+    return fetch(path, {
+      method,
+      signal,
+      headers: {
+        ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+  };
+
+  const response = await send();
+  if (response.status === 401 && getAccessToken() && await refreshSession()) {
+    return send();
+  }
+  return response;
+};
+
+const request = async <T>(method: 'GET' | 'POST' | 'PUT' | 'DELETE', path: string, body?: unknown, signal?: AbortSignal): Promise<T> => {
+  const response = await authorizedFetch(method, path, body, signal);
+  const payload = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new ApiError(response.status, payload.error || `Request to ${path} failed`);
+  }
+  return payload as T;
+};
+
+export const getJson = <T>(path: string) => request<T>('GET', path);
+
+export const postJson = <T>(path: string, body: unknown = {}, signal?: AbortSignal) => request<T>('POST', path, body, signal);
+
+export const putJson = <T>(path: string, body: unknown) => request<T>('PUT', path, body);
+
+export const deleteJson = <T>(path: string) => request<T>('DELETE', path);
+
+/**
+ * POSTs to a streaming endpoint, which answers with newline-delimited JSON:
+ * `{ text }` deltas, then `{ done: true, text, usage? }` with the final text or `{ error }`.
+ * Aborting `signal` cancels the request on the server too.
+ */
+export const postStream = async (
+  path: string,
+  body: unknown,
+  onPartial?: (text: string) => void,
+  signal?: AbortSignal,
+  onUsage?: (usage: ModelUsage) => void
+): Promise<string> => {
+  const response = await authorizedFetch('POST', path, body, signal);
+  if (!response.ok) {
+    const payload = await response.json().catch(() => ({}));
+    throw new ApiError(response.status, payload.error || `Request to ${path} failed`);
+  }
+
+  let text = '';
+  let final: string | null = null;
+  await readLines(response, line => {
+    const event = JSON.parse(line);
+    if (event.error) throw new ApiError(502, event.error);
+    if (event.done) {
+      final = event.text;
+      if (event.usage) onUsage?.(event.usage);
+    } else {
+      text += event.text;
+      onPartial?.(text);
+    }
+  });
+
+  if (final === null) throw new ApiError(502, `Stream from ${path} ended early`);
+  return final;
+};
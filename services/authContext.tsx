@@ -1,35 +1,75 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
+import { AuthUser, UserRole } from '../types';
+import { AuthSession, clearSession, getAccessToken, getJson, onSessionCleared, postJson, setSession } from './api';
+import { setHistoryOwner } from './storage';
 
 interface AuthContextType {
+  user: AuthUser | null;
   isAuthenticated: boolean;
-  login: (token: string) => void;
-  logout: () => void;
+  // True until the stored token has been verified with the server
+  isLoading: boolean;
+  hasRole: (role: UserRole) => boolean;
+  login: (username: string, password: string) => Promise<AuthUser>;
+  register: (username: string, password: string) => Promise<AuthUser>;
+  logout: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // History is scoped synchronously, before any page re-renders for the new user.
+  const applyUser = (next: AuthUser | null) => {
+    setHistoryOwner(next?.id ?? null);
+    setUser(next);
+  };
 
   useEffect(() => {
-    const token = localStorage.getItem('authToken');
-    if (token === 'fake-jwt-token-admin') {
-      setIsAuthenticated(true);
+    const unsubscribe = onSessionCleared(() => applyUser(null));
+
+    if (!getAccessToken()) {
+      setIsLoading(false);
+      return unsubscribe;
     }
+
+    // Never trust the stored token alone: the server checks signature, expiry and session.
+    getJson<{ user: AuthUser }>('/api/auth/me')
+      .then(({ user }) => applyUser(user))
+      .catch(() => clearSession())
+      .finally(() => setIsLoading(false));
+
+    return unsubscribe;
   }, []);
 
-  const login = (token: string) => {
-    localStorage.setItem('authToken', token);
-    setIsAuthenticated(true);
+  const startSession = (session: AuthSession) => {
+    setSession(session);
+    applyUser(session.user);
+    return session.user;
   };
 
-  const logout = () => {
-    localStorage.removeItem('authToken');
-    setIsAuthenticated(false);
+  const login = async (username: string, password: string) =>
+    startSession(await postJson<AuthSession>('/api/auth/login', { username, password }));
+
+  const register = async (username: string, password: string) =>
+    startSession(await postJson<AuthSession>('/api/auth/register', { username, password }));
+
+  const logout = async () => {
+    try {
+      await postJson('/api/auth/logout');
+    } catch (error) {
+      console.error("Logout error:", error);
+    } finally {
+      clearSession();
+      applyUser(null);
+    }
   };
 
+  const hasRole = (role: UserRole) => user?.role === role;
+
   return (
-    <AuthContext.Provider value={{ isAuthenticated, login, logout }}>
+    <AuthContext.Provider value={{ user, isAuthenticated: !!user, isLoading, hasRole, login, register, logout }}>
       {children}
     </AuthContext.Provider>
   );
@@ -39,4 +79,4 @@ export const useAuth = () => {
   const context = useContext(AuthContext);
   if (!context) throw new Error('useAuth must be used within an AuthProvider');
   return context;
-};
\ No newline at end of file
+};
@@ -0,0 +1,37 @@
+// Ranges of calendar dates (yyyy-mm-dd) for the admin reports. Dates are local to
+// whoever resolves them: the admin's browser, or the server for its own stores.
+
+export interface DateRange {
+  from: string;
+  to: string;
+}
+
+export const toDateKey = (time: number) => {
+  const d = new Date(time);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+const startOfDate = (date: string) => new Date(`${date}T00:00:00`).getTime();
+
+// Days are not always 24 hours across a DST change, so dates are stepped instead of milliseconds
+const addDays = (time: number, days: number) => {
+  const d = new Date(time);
+  d.setDate(d.getDate() + days);
+  return d.getTime();
+};
+
+/** Timestamps covering a range of dates (inclusive; the last 7 days by default). */
+export const resolveRange = (range?: Partial<DateRange>) => {
+  const to = range?.to || toDateKey(Date.now());
+  const from = range?.from || toDateKey(addDays(startOfDate(to), -6));
+  return { from, to, start: startOfDate(from), end: addDays(startOfDate(to), 1) };
+};
+
+/** Every date from `start` up to, not including, `end`. */
+export const dateKeys = (start: number, end: number) => {
+  const keys: string[] = [];
+  for (let day = start; day < end; day = addDays(day, 1)) {
+    keys.push(toDateKey(day));
+  }
+  return keys;
+};
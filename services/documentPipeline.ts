@@ -0,0 +1,240 @@
+// Splits long documents into segments that fit a model's token budget, translates
+// them with bounded concurrency and reassembles them in their original order.
+
+export const MAX_SEGMENT_TOKENS = 1500;
+export const DEFAULT_CONCURRENCY = 3;
+
+export type SegmentStatus = 'pending' | 'running' | 'done' | 'failed';
+
+export interface DocumentSegment {
+  index: number;
+  text: string;
+  // Whitespace that followed the segment in the source, restored on reassembly
+  separator: string;
+  // On the first segment: blank lines that opened the source, restored the same way
+  leading?: string;
+  status: SegmentStatus;
+  output?: string;
+  error?: string;
+  // For structured documents: indexes of the units packed into this segment
+  units?: number[];
+}
+
+export class DocumentPipelineError extends Error {
+  constructor(public segments: DocumentSegment[]) {
+    const failed = segments.filter(s => s.status === 'failed').length;
+    super(`${failed} of ${segments.length} segments failed to translate.`);
+    this.name = 'DocumentPipelineError';
+  }
+}
+
+/**
+ * Rough token estimate. Latin text averages ~4 characters per token, while
+ * Devanagari, Sinhala and CJK tokenize far less efficiently.
+ */
+export const estimateTokens = (text: string) => {
+  let ascii = 0;
+  let other = 0;
+  for (const char of text) {
+    if (char.charCodeAt(0) < 128) ascii++;
+    else other++;
+  }
+  return Math.ceil(ascii / 4 + other / 1.5);
+};
+
+const isHeading = (block: string) => /^(#{1,6}\s|\d+(\.\d+)*\.?\s+\S)/.test(block.trimStart());
+
+type Piece = { text: string; separator: string };
+
+// Line breaks first, then sentence ends (including the Devanagari danda).
+const SPLITTERS = [/(\n)/, /((?<=[.!?।॥])\s+)/];
+
+const hardSplit = (text: string, budget: number): Piece[] => {
+  const chars = Array.from(text);
+  const size = Math.max(1, Math.floor(chars.length * budget / estimateTokens(text)));
+  const pieces: Piece[] = [];
+  for (let i = 0; i < chars.length; i += size) {
+    pieces.push({ text: chars.slice(i, i + size).join(''), separator: '' });
+  }
+  return pieces;
+};
+
+// Breaks a single oversized block on lines, then sentences, then hard character limits.
+const splitOversized = (block: string, budget: number, level = 0): Piece[] => {
+  if (level >= SPLITTERS.length) return hardSplit(block, budget);
+
+  // Alternating [text, delimiter, text, delimiter, ...]
+  const parts = block.split(SPLITTERS[level]);
+  const pieces: Piece[] = [];
+  let current: Piece | null = null;
+
+  for (let i = 0; i < parts.length; i += 2) {
+    const text = parts[i];
+    const separator = parts[i + 1] || '';
+
+    if (estimateTokens(text) > budget) {
+      if (current) pieces.push(current);
+      current = null;
+      const sub = splitOversized(text, budget, level + 1);
+      sub[sub.length - 1].separator += separator;
+      pieces.push(...sub);
+    } else if (current && estimateTokens(current.text + current.separator + text) <= budget) {
+      current = { text: current.text + current.separator + text, separator };
+    } else {
+      if (current) pieces.push(current);
+      current = { text, separator };
+    }
+  }
+  if (current) pieces.push(current);
+  return pieces;
+};
+
+/**
+ * Packs paragraphs into segments under `budget` tokens. A heading starts a new
+ * segment once the current one is a quarter full, so sections stay together.
+ */
+export const segmentDocument = (content: string, budget = MAX_SEGMENT_TOKENS): DocumentSegment[] => {
+  // Alternating [block, separator, block, separator, ...]
+  const parts = content.split(/(\n[ \t]*\n\s*)/);
+  const segments: Piece[] = [];
+  let current: Piece | null = null;
+  let leading = '';
+
+  const flush = () => {
+    if (current) segments.push(current);
+    current = null;
+  };
+
+  for (let i = 0; i < parts.length; i += 2) {
+    const block = parts[i];
+    const separator = parts[i + 1] || '';
+    if (!block.trim()) {
+      const previous = current ?? segments[segments.length - 1];
+      if (previous) previous.separator += block + separator;
+      else leading += block + separator;
+      continue;
+    }
+
+    if (estimateTokens(block) > budget) {
+      flush();
+      const pieces = splitOversized(block, budget);
+      pieces[pieces.length - 1].separator += separator;
+      segments.push(...pieces);
+      continue;
+    }
+
+    if (current) {
+      const joined = current.text + current.separator + block;
+      const startsSection = isHeading(block) && estimateTokens(current.text) >= budget / 4;
+      if (!startsSection && estimateTokens(joined) <= budget) {
+        current = { text: joined, separator };
+        continue;
+      }
+      flush();
+    }
+    current = { text: block, separator };
+  }
+  flush();
+
+  return segments.map((segment, index) => ({
+    ...segment,
+    ...(index === 0 && leading ? { leading } : {}),
+    index,
+    status: 'pending',
+  }));
+};
+
+// --- Structured units ---
+// Formats such as DOCX or JSON are translated as a list of independent units.
+// Units are numbered with markers the model must echo, so output can be mapped back.
+
+export const unitMarker = (index: number) => `⟦${index}⟧`;
+
+export const packUnits = (units: string[], budget = MAX_SEGMENT_TOKENS): DocumentSegment[] => {
+  const segments: DocumentSegment[] = [];
+  let current: number[] = [];
+  let tokens = 0;
+
+  const flush = () => {
+    if (current.length === 0) return;
+    segments.push({
+      index: segments.length,
+      text: current.map(i => `${unitMarker(i)} ${units[i]}`).join('\n\n'),
+      separator: '',
+      status: 'pending',
+      units: current,
+    });
+    current = [];
+    tokens = 0;
+  };
+
+  units.forEach((unit, i) => {
+    const unitTokens = estimateTokens(unit) + 4;
+    // An oversized unit still goes out on its own; units are never split.
+    if (current.length > 0 && tokens + unitTokens > budget) flush();
+    current.push(i);
+    tokens += unitTokens;
+  });
+  flush();
+
+  return segments;
+};
+
+// Throws if the model dropped a unit, so the segment is marked failed and can be retried.
+export const parseUnits = (output: string, expected: number[]): Map<number, string> => {
+  const parts = output.split(/⟦(\d+)⟧/);
+  const result = new Map<number, string>();
+  for (let i = 1; i < parts.length; i += 2) {
+    result.set(Number(parts[i]), parts[i + 1].trim());
+  }
+
+  const missing = expected.filter(i => !result.has(i));
+  if (missing.length > 0) {
+    throw new Error(`Model output is missing ${missing.length} of ${expected.length} units`);
+  }
+  return result;
+};
+
+export const assembleSegments = (segments: DocumentSegment[]) =>
+  [...segments].sort((a, b) => a.index - b.index).map(s => (s.leading ?? '') + (s.output ?? '') + s.separator).join('').trimEnd();
+
+/**
+ * Runs `worker` over every segment that is not already done, at most `concurrency`
+ * at a time. Failures are recorded on the segment rather than aborting the rest,
+ * so a later call only retries what failed. Once `signal` aborts no further segments
+ * are started; they stay pending for a later call.
+ */
+export const runSegments = async (
+  segments: DocumentSegment[],
+  worker: (segment: DocumentSegment) => Promise<string>,
+  onUpdate: (segments: DocumentSegment[]) => void = () => {},
+  signal?: AbortSignal,
+  concurrency = DEFAULT_CONCURRENCY
+): Promise<DocumentSegment[]> => {
+  let state = segments.map(s => (s.status === 'done' ? s : { ...s, status: 'pending' as const, error: undefined }));
+  const queue = state.filter(s => s.status === 'pending').map(s => s.index);
+
+  const setSegment = (index: number, patch: Partial<DocumentSegment>) => {
+    state = state.map(s => (s.index === index ? { ...s, ...patch } : s));
+    onUpdate(state);
+  };
+
+  const next = async (): Promise<void> => {
+    if (signal?.aborted) return;
+    const index = queue.shift();
+    if (index === undefined) return;
+
+    setSegment(index, { status: 'running' });
+    try {
+      const output = await worker(state.find(s => s.index === index)!);
+      setSegment(index, { status: 'done', output });
+    } catch (error) {
+      setSegment(index, { status: 'failed', error: error instanceof Error ? error.message : String(error) });
+    }
+    return next();
+  };
+
+  onUpdate(state);
+  await Promise.all(Array.from({ length: Math.min(concurrency, queue.length) }, next));
+  return state;
+};
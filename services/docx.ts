@@ -0,0 +1,164 @@
+import JSZip from 'jszip';
+
+// Reads and writes Word (.docx) files at the OOXML level. Only the text of runs is
+// replaced, so headings, lists, tables, styles, bold and italic survive translation.
+
+export const DOCX_MIME = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const TEXT_PARTS = /^word\/(document|header\d*|footer\d*|footnotes|endnotes)\.xml$/;
+
+// Consecutive runs with identical formatting, translated as one tagged span
+interface TextGroup {
+  nodes: Element[];
+}
+
+interface DocxParagraph {
+  groups: TextGroup[];
+}
+
+export interface DocxDocument {
+  zip: JSZip;
+  parts: Map<string, Document>;
+  paragraphs: DocxParagraph[];
+  // One unit per paragraph, each formatting span wrapped in <tN>...</tN>
+  units: string[];
+}
+
+const escapeText = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+const unescapeText = (text: string) => text.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&');
+
+const closest = (node: Element, localName: string): Element | null => {
+  let current = node.parentElement;
+  while (current && !(current.namespaceURI === W_NS && current.localName === localName)) {
+    current = current.parentElement;
+  }
+  return current;
+};
+
+// Runs merge only when formatting matches and they hold nothing but text (no tabs, breaks or fields).
+const formattingKey = (textNode: Element) => {
+  const run = textNode.parentElement!;
+  const rPr = Array.from(run.children).find(c => c.localName === 'rPr');
+  const simple = Array.from(run.children).every(c => c.localName === 'rPr' || c.localName === 't');
+  if (!simple) return null;
+  return `${run.parentElement?.localName}|${rPr ? new XMLSerializer().serializeToString(rPr) : ''}`;
+};
+
+const groupText = (group: TextGroup) => group.nodes.map(n => n.textContent || '').join('');
+
+export const parseDocx = async (data: ArrayBuffer): Promise<DocxDocument> => {
+  const zip = await JSZip.loadAsync(data);
+  const parts = new Map<string, Document>();
+  const paragraphs: DocxParagraph[] = [];
+
+  const partNames = Object.keys(zip.files).filter(name => TEXT_PARTS.test(name)).sort((a, b) =>
+    // Main document first, then headers, footers and notes
+    Number(!a.endsWith('document.xml')) - Number(!b.endsWith('document.xml')) || a.localeCompare(b)
+  );
+
+  for (const name of partNames) {
+    const xml = new DOMParser().parseFromString(await zip.file(name)!.async('string'), 'application/xml');
+    parts.set(name, xml);
+
+    const byParagraph = new Map<Element, Element[]>();
+    Array.from(xml.getElementsByTagNameNS(W_NS, 't')).forEach(t => {
+      const paragraph = closest(t, 'p');
+      if (!paragraph) return;
+      byParagraph.set(paragraph, [...(byParagraph.get(paragraph) || []), t]);
+    });
+
+    byParagraph.forEach(textNodes => {
+      const groups: TextGroup[] = [];
+      let previousKey: string | null = null;
+      textNodes.forEach(node => {
+        const key = formattingKey(node);
+        if (key !== null && key === previousKey) {
+          groups[groups.length - 1].nodes.push(node);
+        } else {
+          groups.push({ nodes: [node] });
+        }
+        previousKey = key;
+      });
+
+      if (groups.some(g => groupText(g).trim())) paragraphs.push({ groups });
+    });
+  }
+
+  const units = paragraphs.map(p => p.groups.map((g, i) => `<t${i}>${escapeText(groupText(g))}</t${i}>`).join(''));
+  return { zip, parts, paragraphs, units };
+};
+
+/** A unit as plain text: inline tags removed and XML entities decoded. */
+export const docxUnitText = (unit: string) => unescapeText(unit.replace(/<\/?t\d+>/g, ''));
+
+export const docxToText = (units: string[]) => units.map(docxUnitText).join('\n');
+
+/**
+ * Writes translated units back into the runs they came from. If the model dropped
+ * all inline tags, the paragraph's text goes into its first run; a run whose tag
+ * alone was dropped keeps its original text.
+ */
+export const buildTranslatedDocx = async (doc: DocxDocument, translatedUnits: string[]): Promise<Blob> => {
+  doc.paragraphs.forEach((paragraph, index) => {
+    const unit = translatedUnits[index] ?? '';
+    const spans = new Map<number, string>();
+    for (const match of unit.matchAll(/<t(\d+)>([\s\S]*?)<\/t\1>/g)) {
+      spans.set(Number(match[1]), unescapeText(match[2]));
+    }
+    const tagged = spans.size > 0;
+    if (!tagged) {
+      spans.set(0, docxUnitText(unit));
+    }
+
+    paragraph.groups.forEach((group, g) => {
+      const text = spans.get(g) ?? (tagged ? groupText(group) : '');
+      group.nodes.forEach((node, n) => {
+        node.textContent = n === 0 ? text : '';
+        node.setAttribute('xml:space', 'preserve');
+      });
+    });
+  });
+
+  doc.parts.forEach((xml, name) => {
+    doc.zip.file(name, new XMLSerializer().serializeToString(xml));
+  });
+
+  return doc.zip.generateAsync({ type: 'blob', mimeType: DOCX_MIME });
+};
+
+// --- Plain text to .docx ---
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+</Types>`;
+
+const ROOT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+</Relationships>`;
+
+const HEADING_SIZES = [0, 36, 32, 28, 26, 24, 24]; // half-points, by heading level
+
+const paragraphXml = (line: string) => {
+  const heading = line.match(/^(#{1,6})\s+(.*)$/);
+  const text = escapeText(heading ? heading[2] : line);
+  const runProps = heading ? `<w:rPr><w:b/><w:sz w:val="${HEADING_SIZES[heading[1].length]}"/></w:rPr>` : '';
+  return `<w:p><w:r>${runProps}<w:t xml:space="preserve">${text}</w:t></w:r></w:p>`;
+};
+
+// A real (if unstyled) Word document for outputs that did not start as .docx
+export const createDocxFromText = async (text: string): Promise<Blob> => {
+  const body = text.split(/\r?\n/).map(paragraphXml).join('');
+  const zip = new JSZip();
+  zip.file('[Content_Types].xml', CONTENT_TYPES);
+  zip.file('_rels/.rels', ROOT_RELS);
+  zip.file('word/document.xml',
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+    `<w:document xmlns:w="${W_NS}"><w:body>${body}<w:sectPr/></w:body></w:document>`
+  );
+  return zip.generateAsync({ type: 'blob', mimeType: DOCX_MIME });
+};
@@ -1,162 +1,398 @@
-import { GoogleGenAI, Modality, Type } from "@google/genai";
-import { saveTranslation } from "./storage";
+import { getTranslationFile, saveTranslation } from "./storage";
+import { getProvider, RefineStyle, StreamOptions } from "./providers";
+import { checkGlossary, findApplicableTerms, getGlossary } from "./glossary";
+import { findDocumentReferences, findMemoryMatches } from "./translationMemory";
+import { getPreferences } from "./preferences";
+import {
+  assembleSegments,
+  DocumentPipelineError,
+  DocumentSegment,
+  packUnits,
+  parseUnits,
+  runSegments,
+  segmentDocument,
+} from "./documentPipeline";
+import { GlossaryEntry, LanguageDetection, MemoryMatch, TranslationRecord, TranslationResult } from "../types";
 
-// Initialize Gemini Client
-// WARNING: In a real production app, never expose API keys on the frontend.
-// Requests should go through your own backend.
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// All model calls go through the configured TranslationProvider (see services/providers).
+// In the browser that is the backend proxy, so no API key is ever bundled.
+
+// A missing glossary should never block a translation.
+const loadGlossary = async (): Promise<GlossaryEntry[]> => {
+  try {
+    return await getGlossary();
+  } catch (error) {
+    console.error("Glossary error:", error);
+    return [];
+  }
+};
+
+const toReferences = (matches: MemoryMatch[]) =>
+  matches.map(m => ({ source: m.sourceText, target: m.translatedText }));
+
+const summarizeMatches = (matches: MemoryMatch[]) =>
+  matches.length ? { score: matches[0].score, exact: false, references: matches.length } : undefined;
+
+/**
+ * Thrown when the caller aborts a streaming translation. Whatever had arrived is in
+ * `partialText` (and saved to history as a partial record); document translations also
+ * carry their segments, with unfinished ones left failed or pending so they can be resumed.
+ */
+export class TranslationCancelledError extends Error {
+  constructor(public partialText: string, public segments: DocumentSegment[] = []) {
+    super('Translation cancelled');
+    this.name = 'TranslationCancelledError';
+  }
+}
+
+export interface TextTranslationOptions extends StreamOptions {
+  // Ask for alternatives and translator notes as well; the answer is not streamed
+  structured?: boolean;
+}
 
 export const translateText = async (
   text: string,
   sourceLang: string,
-  targetLang: string
-): Promise<string> => {
+  targetLang: string,
+  options: TextTranslationOptions = {}
+): Promise<TranslationResult> => {
+  const startedAt = Date.now();
+  let partialText = '';
   try {
-    const model = 'gemini-2.5-flash';
-    const prompt = `Translate the following text from ${sourceLang} to ${targetLang}. 
-    Preserve meaning, correct grammar, and avoid literal translations. 
-    Return ONLY the translated text, no preamble or markdown formatting.
-    
-    Text: "${text}"`;
-
-    const response = await ai.models.generateContent({
-      model: model,
-      contents: prompt,
-    });
+    const glossary = findApplicableTerms(await loadGlossary(), text, sourceLang, targetLang);
+    const { tmThreshold } = await getPreferences();
+    const matches = await findMemoryMatches(text, sourceLang, targetLang, tmThreshold);
+    const request = { text, sourceLang, targetLang, glossary, references: toReferences(matches), signal: options.signal };
 
-    const translatedText = response.text?.trim() || "";
+    // An exact translation memory hit is reused without calling the model.
+    const exact = matches.find(m => m.score === 1);
+    const structured = !exact && options.structured ? await getProvider().translateStructured(request) : undefined;
+    const translatedText = exact
+      ? exact.translatedText
+      : structured
+        ? structured.primary
+        : await getProvider().translateText({
+            ...request,
+            onPartial: options.onPartial && (partial => {
+              partialText = partial;
+              options.onPartial!(partial);
+            }),
+          });
     
     // Save to history
-    saveTranslation({
+    const record = await saveTranslation({
       sourceText: text,
       translatedText,
       sourceLang,
       targetLang,
-      type: 'text'
+      type: 'text',
+      durationMs: Date.now() - startedAt,
+      ...(structured?.notes.length ? { notes: structured.notes } : {}),
     });
 
-    return translatedText;
+    return {
+      text: translatedText,
+      glossaryIssues: checkGlossary(text, translatedText, glossary),
+      memoryMatch: exact ? { score: 1, exact: true, references: 0 } : summarizeMatches(matches),
+      alternatives: structured?.alternatives,
+      notes: structured?.notes,
+      recordId: record.id,
+    };
 
   } catch (error) {
+    if (options.signal?.aborted) {
+      if (partialText) {
+        saveTranslation({ sourceText: text, translatedText: partialText, sourceLang, targetLang, type: 'text', partial: true });
+      }
+      throw new TranslationCancelledError(partialText);
+    }
     console.error("Translation error:", error);
     throw new Error("Failed to translate text. Please try again.");
   }
 };
 
+export interface DocumentTranslationOptions extends StreamOptions {
+  // Segments from an earlier run that partly failed; only unfinished ones are translated again
+  segments?: DocumentSegment[];
+  onProgress?: (segments: DocumentSegment[]) => void;
+  // The uploaded file, kept with the history record when it fits
+  file?: File;
+}
+
+// Finished segments plus whatever has streamed in for the running ones
+const assemblePartial = (segments: DocumentSegment[], partials: Map<number, string>) =>
+  assembleSegments(segments.map(s => (s.status === 'done' ? s : { ...s, output: partials.get(s.index) ?? '' })));
+
+/**
+ * Translates a document segment by segment so long files never hit the model's
+ * output limit. Throws DocumentPipelineError with the segment states if any
+ * segment fails; pass them back in `options.segments` to retry just those.
+ */
 export const translateDocumentContent = async (
   content: string,
   sourceLang: string,
-  targetLang: string
-): Promise<string> => {
+  targetLang: string,
+  options: DocumentTranslationOptions = {}
+): Promise<TranslationResult> => {
+  const startedAt = Date.now();
+  // Groups the segment requests into one translation in the admin analytics
+  const documentId = crypto.randomUUID();
   try {
-    const model = 'gemini-2.5-flash';
-    
-    // Determine source language instruction
-    const sourceInstruction = (sourceLang === 'auto' || sourceLang === 'Detect Language')
-      ? "Detect the source language automatically" 
-      : `from ${sourceLang}`;
+    const glossaryEntries = await loadGlossary();
+    // Memory entries are per language pair, so there is nothing to match when the source is detected.
+    const { tmThreshold } = await getPreferences();
+    const allMatches: MemoryMatch[] = [];
+    const partials = new Map<number, string>();
+    let latest: DocumentSegment[] = [];
 
-    const prompt = `Translate the following document content ${sourceInstruction} to ${targetLang}. 
-    Maintain the original structure/paragraphs as much as possible.
-    
-    Document Content:
-    ${content}`;
+    const segments = await runSegments(
+      options.segments ?? segmentDocument(content),
+      async (segment) => {
+        const matches = sourceLang === 'auto' ? [] : await findDocumentReferences(segment.text, sourceLang, targetLang, tmThreshold);
+        allMatches.push(...matches);
+        return getProvider().translateDocument({
+          documentId,
+          content: segment.text,
+          sourceLang,
+          targetLang,
+          glossary: findApplicableTerms(glossaryEntries, segment.text, sourceLang, targetLang),
+          references: toReferences(matches),
+          signal: options.signal,
+          onPartial: options.onPartial && (partial => {
+            partials.set(segment.index, partial);
+            options.onPartial!(assemblePartial(latest, partials));
+          }),
+        });
+      },
+      (update) => {
+        latest = update;
+        options.onProgress?.(update);
+      },
+      options.signal
+    );
 
-    const response = await ai.models.generateContent({
-      model: model,
-      contents: prompt,
-    });
+    if (options.signal?.aborted) {
+      const partialText = assemblePartial(segments, new Map());
+      if (partialText) {
+        saveTranslation({
+          sourceText: content,
+          translatedText: partialText,
+          sourceLang: sourceLang === 'auto' ? 'Auto' : sourceLang,
+          targetLang,
+          type: 'document',
+          partial: true,
+        }, options.file);
+      }
+      throw new TranslationCancelledError(partialText, segments);
+    }
 
-    const translatedText = response.text?.trim() || "";
+    if (segments.some(s => s.status === 'failed')) {
+      throw new DocumentPipelineError(segments);
+    }
+
+    const translatedText = assembleSegments(segments);
 
-    saveTranslation({
-      sourceText: content.substring(0, 100) + "...", // truncate for storage
-      translatedText: translatedText.substring(0, 100) + "...",
+    const record = await saveTranslation({
+      sourceText: content,
+      translatedText,
       sourceLang: sourceLang === 'auto' ? 'Auto' : sourceLang,
       targetLang,
-      type: 'document'
-    });
+      type: 'document',
+      durationMs: Date.now() - startedAt,
+    }, options.file);
 
-    return translatedText;
+    const glossary = findApplicableTerms(glossaryEntries, content, sourceLang, targetLang);
+    return {
+      text: translatedText,
+      glossaryIssues: checkGlossary(content, translatedText, glossary),
+      memoryMatch: summarizeMatches(allMatches.sort((a, b) => b.score - a.score)),
+      recordId: record.id,
+    };
 
   } catch (error) {
+    if (error instanceof DocumentPipelineError || error instanceof TranslationCancelledError) throw error;
     console.error("Document translation error:", error);
     throw new Error("Failed to translate document.");
   }
 };
 
+export interface UnitTranslationResult extends TranslationResult {
+  // Translations in the same order and count as the input units
+  units: string[];
+  // Source units as plain text, aligned line by line with `text`
+  sourceText: string;
+}
+
+const stripInlineTags = (text: string) => text.replace(/<\/?t\d+>/g, '');
+
+export interface UnitTranslationOptions extends DocumentTranslationOptions {
+  // Plain text of a unit, for history, memory lookups and the quality check; strips inline tags by default
+  toPlainText?: (unit: string) => string;
+}
+
+/**
+ * Translates structured content (DOCX paragraphs, JSON strings, subtitle cues, ...)
+ * unit by unit, so callers can write each translation back into its original place.
+ * Units may carry inline tags (<t0>...</t0>) that the model keeps intact.
+ * Failure and retry behave as in translateDocumentContent.
+ */
+export const translateUnits = async (
+  units: string[],
+  sourceLang: string,
+  targetLang: string,
+  options: UnitTranslationOptions = {}
+): Promise<UnitTranslationResult> => {
+  const toPlainText = options.toPlainText ?? stripInlineTags;
+  const startedAt = Date.now();
+  const documentId = crypto.randomUUID();
+  try {
+    const glossaryEntries = await loadGlossary();
+    const { tmThreshold } = await getPreferences();
+    const allMatches: MemoryMatch[] = [];
+
+    const segments = await runSegments(
+      options.segments ?? packUnits(units),
+      async (segment) => {
+        const plain = segment.units!.map(i => toPlainText(units[i])).join('\n\n');
+        const matches = sourceLang === 'auto' ? [] : await findDocumentReferences(plain, sourceLang, targetLang, tmThreshold);
+        allMatches.push(...matches);
+        const output = await getProvider().translateDocument({
+          documentId,
+          content: segment.text,
+          sourceLang,
+          targetLang,
+          glossary: findApplicableTerms(glossaryEntries, plain, sourceLang, targetLang),
+          references: toReferences(matches),
+          format: 'units',
+          signal: options.signal,
+        });
+        // Validate now so a dropped unit fails this segment instead of the whole document
+        parseUnits(output, segment.units!);
+        return output;
+      },
+      options.onProgress,
+      options.signal
+    );
+
+    // Structured files are only useful complete, so a stopped run keeps no partial output.
+    if (options.signal?.aborted) {
+      throw new TranslationCancelledError('', segments);
+    }
+
+    if (segments.some(s => s.status === 'failed')) {
+      throw new DocumentPipelineError(segments);
+    }
+
+    const translatedUnits = [...units];
+    segments.forEach(segment => {
+      parseUnits(segment.output!, segment.units!).forEach((text, index) => {
+        translatedUnits[index] = text;
+      });
+    });
+
+    const sourceText = units.map(toPlainText).join('\n');
+    const translatedText = translatedUnits.map(toPlainText).join('\n');
+
+    const record = await saveTranslation({
+      sourceText,
+      translatedText,
+      sourceLang: sourceLang === 'auto' ? 'Auto' : sourceLang,
+      targetLang,
+      type: 'document',
+      durationMs: Date.now() - startedAt,
+    }, options.file);
+
+    const glossary = findApplicableTerms(glossaryEntries, sourceText, sourceLang, targetLang);
+    return {
+      text: translatedText,
+      units: translatedUnits,
+      sourceText,
+      glossaryIssues: checkGlossary(sourceText, translatedText, glossary),
+      memoryMatch: summarizeMatches(allMatches.sort((a, b) => b.score - a.score)),
+      recordId: record.id,
+    };
+
+  } catch (error) {
+    if (error instanceof DocumentPipelineError || error instanceof TranslationCancelledError) throw error;
+    console.error("Unit translation error:", error);
+    throw new Error("Failed to translate document.");
+  }
+};
+
 export const translateBinaryFile = async (
     base64Data: string,
     mimeType: string,
-    targetLang: string
-): Promise<string> => {
+    targetLang: string,
+    file?: File
+): Promise<TranslationResult> => {
+    const startedAt = Date.now();
     try {
-        // Gemini 2.5 Flash supports PDF, Images, etc.
-        const model = 'gemini-2.5-flash';
-        
-        const response = await ai.models.generateContent({
-            model: model,
-            contents: {
-                parts: [
-                    {
-                        inlineData: {
-                            data: base64Data,
-                            mimeType: mimeType
-                        }
-                    },
-                    {
-                        text: `Analyze this document/image. Extract all text and translate it to ${targetLang}. Preserve the original layout, formatting, and structure as much as possible. Return only the translated content.`
-                    }
-                ]
-            }
-        });
-
-        const text = response.text?.trim() || "";
+        // The source text is not known up front, so every term for the target language is sent.
+        const glossary = findApplicableTerms(await loadGlossary(), null, 'auto', targetLang);
+        const text = await getProvider().translateFile({ data: base64Data, mimeType, targetLang, glossary });
         
-        saveTranslation({
-            sourceText: "[File Content]",
-            translatedText: text.substring(0, 100) + "...",
+        // The file itself stands in for the source text
+        const record = await saveTranslation({
+            sourceText: '',
+            translatedText: text,
             sourceLang: 'Auto',
             targetLang,
-            type: 'document'
-        });
+            type: 'document',
+            durationMs: Date.now() - startedAt,
+        }, file);
 
-        return text;
+        // Without the source text there is nothing to check the output against.
+        return { text, glossaryIssues: [], recordId: record.id };
     } catch (error) {
         console.error("File translation error", error);
         throw error;
     }
 };
 
+const blobToBase64 = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve((reader.result as string).split(',')[1]);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+/**
+ * Translates a history record's source again with the current provider and settings.
+ * The result is saved as a new record; the original stays as it was. Records without
+ * source text need their stored file.
+ */
+export const rerunTranslation = async (record: TranslationRecord): Promise<TranslationResult> => {
+  if (record.truncated) {
+    throw new Error("Only an excerpt of this document was kept, so it cannot be translated again.");
+  }
+  if (record.type !== 'document') {
+    return translateText(record.sourceText, record.sourceLang, record.targetLang);
+  }
+  if (record.sourceText) {
+    return translateDocumentContent(record.sourceText, record.sourceLang === 'Auto' ? 'auto' : record.sourceLang, record.targetLang);
+  }
+  const stored = await getTranslationFile(record.id);
+  if (!stored) throw new Error("The original file was not kept, so it cannot be translated again.");
+  const file = new File([stored.blob], stored.name, { type: stored.type });
+  return translateBinaryFile(await blobToBase64(file), file.type, record.targetLang, file);
+};
+
+export const detectLanguage = async (text: string): Promise<LanguageDetection> => {
+  try {
+    return await getProvider().detectLanguage({ text });
+  } catch (error) {
+    console.error("Language detection error:", error);
+    throw new Error("Failed to detect language.");
+  }
+};
+
 export const refineText = async (
   text: string,
-  type: 'summarize' | 'polish' | 'formal' | 'casual'
+  type: RefineStyle
 ): Promise<string> => {
   try {
-    // Using Flash for fast editing tasks
-    const model = 'gemini-2.5-flash';
-    let prompt = "";
-    
-    switch (type) {
-        case 'summarize': 
-          prompt = "Summarize the following text concisely in the same language as the text:"; 
-          break;
-        case 'polish': 
-          prompt = "Polish the following text to improve fluency, grammar, and vocabulary, keeping the meaning intact. Return only the polished text:"; 
-          break;
-        case 'formal': 
-          prompt = "Rewrite the following text to be more formal and professional. Return only the rewritten text:"; 
-          break;
-        case 'casual': 
-          prompt = "Rewrite the following text to be more casual and conversational. Return only the rewritten text:"; 
-          break;
-    }
-    
-    const response = await ai.models.generateContent({
-      model,
-      contents: `${prompt}\n\n"${text}"`
-    });
-    return response.text?.trim() || text;
+    return await getProvider().refineText(text, type);
   } catch (error) {
     console.error("Refine error:", error);
     throw new Error("Failed to refine text.");
@@ -165,17 +401,7 @@ export const refineText = async (
 
 export const generateAnalyticsInsights = async (data: any): Promise<string> => {
     try {
-        // Using Pro for complex reasoning and analysis
-        const model = 'gemini-3-pro-preview';
-        const prompt = `Analyze the following translation app usage data and provide 3 short, actionable strategic insights or interesting trends. Format the output as a simple list.
-        
-        Data: ${JSON.stringify(data)}`;
-
-        const response = await ai.models.generateContent({
-            model,
-            contents: prompt
-        });
-        return response.text?.trim() || "No insights available.";
+        return await getProvider().generateInsights(data);
     } catch (error) {
         console.error("Insights error:", error);
         return "Could not generate insights at this time.";
@@ -187,53 +413,16 @@ export const transcribeAudio = async (
   mimeType: string = "audio/webm"
 ): Promise<string> => {
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              data: audioBase64,
-              mimeType: mimeType,
-            },
-          },
-          {
-            text: "Transcribe the spoken language in this audio exactly as it is. Return only the transcription text.",
-          },
-        ],
-      },
-    });
-
-    return response.text?.trim() || "";
+    return await getProvider().transcribeAudio({ data: audioBase64, mimeType });
   } catch (error) {
     console.error("Transcription error:", error);
     throw new Error("Failed to transcribe audio.");
   }
 };
 
-export const generateSpeech = async (text: string, langCode: string): Promise<AudioBuffer> => {
+export const generateSpeech = async (text: string, langCode: string, voice?: string): Promise<AudioBuffer> => {
   try {
-    // gemini-2.5-flash-preview-tts is the model.
-    // NOTE: This model is experimental.
-
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash-preview-tts",
-      contents: [{ parts: [{ text: text }] }],
-      config: {
-        responseModalities: [Modality.AUDIO],
-        speechConfig: {
-            voiceConfig: {
-              prebuiltVoiceConfig: { voiceName: 'Kore' },
-            },
-        },
-      },
-    });
-
-    const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-    
-    if (!base64Audio) {
-      throw new Error("No audio data returned");
-    }
+    const base64Audio = await getProvider().generateSpeech({ text, langCode, voice });
 
     const outputAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)({sampleRate: 24000});
     const audioBuffer = await decodeAudioData(
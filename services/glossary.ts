@@ -0,0 +1,100 @@
+import { GlossaryEntry, GlossaryIssue, GlossaryTerm } from '../types';
+import { parseCsv } from './csv';
+import { findLanguage } from './languageRegistry';
+import { deleteJson, getJson, postJson, putJson } from './api';
+
+export type GlossaryInput = Omit<GlossaryEntry, 'id' | 'updatedAt'>;
+
+// Pages pass language names ("Nepali") to the services; glossary entries use codes.
+export const toLangCode = (value: string) => findLanguage(value)?.code || value.toLowerCase();
+
+const occurs = (haystack: string, needle: string, caseSensitive: boolean) =>
+  caseSensitive ? haystack.includes(needle) : haystack.toLowerCase().includes(needle.toLowerCase());
+
+/**
+ * Terms for the language pair that occur in `text`. When the source text is not
+ * available (binary files) every term for the pair is returned.
+ */
+export const findApplicableTerms = (
+  entries: GlossaryEntry[],
+  text: string | null,
+  sourceLang: string,
+  targetLang: string
+): GlossaryTerm[] => {
+  const source = toLangCode(sourceLang);
+  const target = toLangCode(targetLang);
+
+  return entries
+    .filter(e => e.targetLang === target)
+    .filter(e => source === 'auto' || e.sourceLang === source)
+    .filter(e => text === null || occurs(text, e.source, e.caseSensitive))
+    .map(({ source, target, caseSensitive }) => ({ source, target, caseSensitive }));
+};
+
+// Flags terms that appear in the source but whose required translation is missing from the output.
+export const checkGlossary = (sourceText: string, output: string, terms: GlossaryTerm[]): GlossaryIssue[] =>
+  terms
+    .filter(t => occurs(sourceText, t.source, t.caseSensitive) && !occurs(output, t.target, t.caseSensitive))
+    .map(({ source, target }) => ({ source, target }));
+
+/**
+ * Parses `source_lang,target_lang,source,target[,note]` rows. A header row is
+ * skipped if present. Invalid rows are reported by their 1-based line number.
+ */
+export const parseGlossaryCsv = (csv: string) => {
+  const entries: GlossaryInput[] = [];
+  const errors: string[] = [];
+
+  parseCsv(csv).forEach((row, index) => {
+    if (row.every(cell => !cell.trim())) return;
+    if (index === 0 && /source.?lang/i.test(row[0])) return;
+
+    const [sourceLang, targetLang, source, target, note] = row.map(cell => cell.trim());
+    if (!sourceLang || !targetLang || !source || !target) {
+      errors.push(`Line ${index + 1}: expected source_lang, target_lang, source, target`);
+      return;
+    }
+
+    entries.push({
+      sourceLang: toLangCode(sourceLang),
+      targetLang: toLangCode(targetLang),
+      source,
+      target,
+      caseSensitive: false,
+      ...(note ? { note } : {}),
+    });
+  });
+
+  return { entries, errors };
+};
+
+// --- Client API ---
+
+let cachedEntries: GlossaryEntry[] | null = null;
+
+export const getGlossary = async (force = false): Promise<GlossaryEntry[]> => {
+  if (!cachedEntries || force) {
+    cachedEntries = (await getJson<{ entries: GlossaryEntry[] }>('/api/glossary')).entries;
+  }
+  return cachedEntries;
+};
+
+export const createGlossaryEntry = async (input: GlossaryInput) => {
+  cachedEntries = null;
+  return (await postJson<{ entry: GlossaryEntry }>('/api/glossary', input)).entry;
+};
+
+export const updateGlossaryEntry = async (id: string, input: Partial<GlossaryInput>) => {
+  cachedEntries = null;
+  return (await putJson<{ entry: GlossaryEntry }>(`/api/glossary/${encodeURIComponent(id)}`, input)).entry;
+};
+
+export const deleteGlossaryEntry = async (id: string) => {
+  cachedEntries = null;
+  await deleteJson(`/api/glossary/${encodeURIComponent(id)}`);
+};
+
+export const importGlossaryCsv = async (csv: string) => {
+  cachedEntries = null;
+  return postJson<{ imported: number; errors: string[] }>('/api/glossary/import', { csv });
+};
@@ -0,0 +1,221 @@
+import { TranslationRecord } from '../types';
+import { parseCsv, toCsv } from './csv';
+import { toLangCode } from './glossary';
+import { findLanguage } from './languages';
+
+// History export and import: CSV and JSON for moving work between machines, and
+// TMX 1.4 for CAT tools. Stored files, owners and collections stay in the browser.
+
+export type HistoryFormat = 'csv' | 'json' | 'tmx';
+
+export type ImportedRecord = Omit<TranslationRecord, 'id'>;
+
+const JSON_FORMAT = 'linguistai-history';
+const CSV_COLUMNS = ['timestamp', 'type', 'sourceLang', 'targetLang', 'sourceText', 'translatedText', 'tags', 'favorite', 'partial'] as const;
+// TMX language for sources that were auto-detected ("undetermined" in BCP 47)
+const UNDETERMINED = 'und';
+
+const MIME_TYPES: Record<HistoryFormat, string> = {
+  csv: 'text/csv',
+  json: 'application/json',
+  tmx: 'application/x-tmx+xml',
+};
+
+// Fields that only make sense in this browser
+const portable = ({ id, userId, collectionId, fileName, ...record }: TranslationRecord): ImportedRecord => record;
+
+// --- Export ---
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// TMX dates are ISO 8601 basic format in UTC, e.g. 20260101T120000Z
+const tmxDate = (timestamp: number) => new Date(timestamp).toISOString().replace(/[-:]/g, '').replace(/\.\d+/, '');
+
+const tmxLang = (lang: string) => (lang.toLowerCase() === 'auto' ? UNDETERMINED : toLangCode(lang));
+
+const toTmx = (records: TranslationRecord[]) => {
+  const units = records
+    // Uploaded files have no source segment to pair with the translation
+    .filter(r => r.sourceText && !r.truncated)
+    .map(r => [
+      `    <tu tuid="${escapeXml(r.id)}" creationdate="${tmxDate(r.timestamp)}">`,
+      `      <prop type="x-type">${r.type}</prop>`,
+      ...(r.tags ?? []).map(tag => `      <prop type="x-tag">${escapeXml(tag)}</prop>`),
+      `      <tuv xml:lang="${escapeXml(tmxLang(r.sourceLang))}"><seg>${escapeXml(r.sourceText)}</seg></tuv>`,
+      `      <tuv xml:lang="${escapeXml(tmxLang(r.targetLang))}"><seg>${escapeXml(r.translatedText)}</seg></tuv>`,
+      '    </tu>',
+    ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<tmx version="1.4">',
+    `  <header creationtool="LinguistAI" creationtoolversion="1.0" segtype="paragraph" o-tmf="LinguistAI" ` +
+      `adminlang="en" srclang="*all*" datatype="plaintext" creationdate="${tmxDate(Date.now())}"/>`,
+    '  <body>',
+    ...units,
+    '  </body>',
+    '</tmx>',
+    '',
+  ].join('\n');
+};
+
+const toCsvFile = (records: TranslationRecord[]) =>
+  toCsv([
+    [...CSV_COLUMNS],
+    ...records.map(r => [
+      new Date(r.timestamp).toISOString(),
+      r.type,
+      r.sourceLang,
+      r.targetLang,
+      r.sourceText,
+      r.translatedText,
+      (r.tags ?? []).join('; '),
+      r.favorite ? 'yes' : '',
+      r.partial ? 'yes' : '',
+    ]),
+  ]) + '\r\n';
+
+/** Serialises records for download. */
+export const exportHistory = (records: TranslationRecord[], format: HistoryFormat) => {
+  const content = format === 'tmx'
+    ? toTmx(records)
+    : format === 'csv'
+      ? toCsvFile(records)
+      : JSON.stringify({ format: JSON_FORMAT, version: 1, exportedAt: new Date().toISOString(), records: records.map(portable) }, null, 2) + '\n';
+  return { content, mimeType: MIME_TYPES[format], extension: format };
+};
+
+// --- Import ---
+
+const TYPES: TranslationRecord['type'][] = ['text', 'document', 'voice'];
+
+// Records are stored with language names, as the translators save them
+const recordLang = (code: string) =>
+  code.toLowerCase() === UNDETERMINED ? 'Auto' : findLanguage(code)?.name ?? findLanguage(code.split('-')[0])?.name ?? code;
+
+const toTimestamp = (value: unknown) => {
+  const time = typeof value === 'number' ? value : Date.parse(String(value ?? ''));
+  return Number.isFinite(time) ? time : Date.now();
+};
+
+// Imported JSON is untrusted, so only known fields of the right shape are kept.
+const sanitize = (raw: any): ImportedRecord | null => {
+  const text = (value: unknown) => (typeof value === 'string' ? value : '');
+  const record: ImportedRecord = {
+    sourceText: text(raw?.sourceText),
+    translatedText: text(raw?.translatedText),
+    sourceLang: text(raw?.sourceLang).trim(),
+    targetLang: text(raw?.targetLang).trim(),
+    timestamp: toTimestamp(raw?.timestamp),
+    type: TYPES.includes(raw?.type) ? raw.type : 'text',
+  };
+  if (!record.translatedText || !record.sourceLang || !record.targetLang) return null;
+
+  if (Array.isArray(raw.tags)) {
+    const tags = raw.tags.filter((t: unknown): t is string => typeof t === 'string' && t.trim() !== '');
+    if (tags.length) record.tags = tags;
+  }
+  if (raw.favorite === true) record.favorite = true;
+  if (raw.partial === true) record.partial = true;
+  if (raw.truncated === true) record.truncated = true;
+  if (Array.isArray(raw.notes)) {
+    const notes = raw.notes
+      .filter((n: any) => typeof n?.term === 'string' && typeof n?.note === 'string' && n.note.trim())
+      .map((n: any) => ({ term: n.term, note: n.note }));
+    if (notes.length) record.notes = notes;
+  }
+  if (raw.quality && typeof raw.quality.score === 'number') record.quality = raw.quality;
+  return record;
+};
+
+const fromJson = (text: string) => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  const records = Array.isArray(data) ? data : data?.format === JSON_FORMAT ? data.records : null;
+  if (!Array.isArray(records)) throw new Error('The JSON file is not a history export.');
+  return records.map(sanitize);
+};
+
+const fromCsv = (text: string) => {
+  const [header = [], ...rows] = parseCsv(text);
+  const column = (name: string) => header.findIndex(h => h.trim() === name);
+  const missing = ['sourceLang', 'targetLang', 'sourceText', 'translatedText'].filter(name => column(name) < 0);
+  if (missing.length) throw new Error(`The CSV file is missing the column${missing.length > 1 ? 's' : ''}: ${missing.join(', ')}.`);
+
+  return rows
+    .filter(row => row.some(cell => cell.trim()))
+    .map(row => {
+      const cell = (name: string) => row[column(name)] ?? '';
+      return sanitize({
+        timestamp: cell('timestamp'),
+        type: cell('type'),
+        sourceLang: recordLang(cell('sourceLang').trim()),
+        targetLang: recordLang(cell('targetLang').trim()),
+        sourceText: cell('sourceText'),
+        translatedText: cell('translatedText'),
+        tags: cell('tags').split(';').map(t => t.trim()),
+        favorite: cell('favorite') === 'yes',
+        partial: cell('partial') === 'yes',
+      });
+    });
+};
+
+const elements = (root: Document | Element, localName: string) =>
+  Array.from(root.getElementsByTagName('*')).filter(el => el.localName === localName);
+
+const xmlLang = (el: Element) => el.getAttribute('xml:lang') || el.getAttribute('lang') || '';
+
+// TMX units can hold any number of languages; the header's srclang (or the first variant)
+// is the source and every other variant becomes its own record.
+const fromTmx = (text: string) => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0 || doc.documentElement.localName !== 'tmx') {
+    throw new Error('The file is not a well-formed TMX document.');
+  }
+  const srcLang = elements(doc, 'header')[0]?.getAttribute('srclang') ?? '';
+
+  return elements(doc, 'tu').flatMap(tu => {
+    const variants = elements(tu, 'tuv').map(tuv => ({ lang: xmlLang(tuv), text: elements(tuv, 'seg')[0]?.textContent ?? '' }));
+    const source = variants.find(v => srcLang && srcLang !== '*all*' && v.lang.toLowerCase() === srcLang.toLowerCase()) ?? variants[0];
+    const props = elements(tu, 'prop');
+    const prop = (type: string) => props.filter(p => p.getAttribute('type') === type).map(p => p.textContent ?? '');
+
+    return variants
+      .filter(v => v !== source)
+      .map(target => sanitize({
+        timestamp: tu.getAttribute('creationdate')?.replace(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/, '$1-$2-$3T$4:$5:$6Z'),
+        type: prop('x-type')[0],
+        sourceLang: recordLang(source.lang),
+        targetLang: recordLang(target.lang),
+        sourceText: source.text,
+        translatedText: target.text,
+        tags: prop('x-tag'),
+      }));
+  });
+};
+
+/**
+ * Reads an exported history file; the format comes from the extension, falling back
+ * to the content. Entries without a translation or languages are skipped.
+ */
+export const parseHistoryFile = (fileName: string, text: string): ImportedRecord[] => {
+  const extension = fileName.toLowerCase().split('.').pop();
+  const trimmed = text.trimStart();
+  const records = extension === 'tmx' || (extension !== 'json' && extension !== 'csv' && trimmed.startsWith('<'))
+    ? fromTmx(text)
+    : extension === 'json' || trimmed.startsWith('{') || trimmed.startsWith('[')
+      ? fromJson(text)
+      : fromCsv(text);
+  return records.filter((r): r is ImportedRecord => r !== null);
+};
+
+const normalize = (text: string) => text.normalize('NFC').trim().replace(/\s+/g, ' ');
+
+/** Identity used to de-duplicate imports: both texts and the language pair. */
+export const recordKey = (r: Pick<TranslationRecord, 'sourceText' | 'translatedText' | 'sourceLang' | 'targetLang'>) =>
+  [toLangCode(r.sourceLang), toLangCode(r.targetLang), normalize(r.sourceText), normalize(r.translatedText)].join('\u0000');
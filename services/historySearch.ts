@@ -0,0 +1,131 @@
+import { TranslationRecord } from '../types';
+import { toLangCode } from './glossary';
+
+// Search and facet filtering for History. Records are tokenized once into an inverted
+// index, so typing only looks up tokens instead of scanning every record's text.
+
+export interface HistoryFacets {
+  // Language codes ('auto' for detected sources); '' matches any
+  sourceLang: string;
+  targetLang: string;
+  type: '' | TranslationRecord['type'];
+  // Inclusive local dates as yyyy-mm-dd; '' leaves the range open
+  from: string;
+  to: string;
+}
+
+export const EMPTY_FACETS: HistoryFacets = { sourceLang: '', targetLang: '', type: '', from: '', to: '' };
+
+const segmenter = new Intl.Segmenter(undefined, { granularity: 'word' });
+
+// Han and kana are written without spaces and word segmentation depends on context,
+// so these scripts are indexed character by character.
+const UNSPACED = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/u;
+
+/**
+ * Lower-cased word tokens. Text is NFC-normalized and zero-width (non-)joiners are
+ * dropped, so Sinhala conjuncts typed with or without ZWJ and Devanagari half forms
+ * written with ZWNJ match their plain spelling.
+ */
+export const tokenize = (text: string): string[] => {
+  const normalized = text.normalize('NFC').replace(/[\u200C\u200D]/g, '').toLowerCase();
+  const tokens: string[] = [];
+  for (const { segment, isWordLike } of segmenter.segment(normalized)) {
+    if (!isWordLike) continue;
+    if (UNSPACED.test(segment)) tokens.push(...Array.from(segment).filter(char => UNSPACED.test(char)));
+    else tokens.push(segment);
+  }
+  return tokens;
+};
+
+export interface SearchIndex {
+  /** Ids of records containing every query token (the last may be a prefix); null for an empty query. */
+  search: (query: string) => Set<string> | null;
+}
+
+// Tokens per record id, reused while the indexed text is unchanged, so starring or moving
+// an entry does not re-tokenize the whole history. Pruned to the indexed records on every build.
+const tokenCache = new Map<string, { text: string; tokens: string[] }>();
+
+const recordTokens = (record: TranslationRecord) => {
+  const text = `${record.sourceText} ${record.translatedText} ${record.fileName ?? ''} ${(record.tags ?? []).join(' ')}`;
+  const cached = tokenCache.get(record.id);
+  if (cached?.text === text) return cached.tokens;
+  const tokens = [...new Set(tokenize(text))];
+  tokenCache.set(record.id, { text, tokens });
+  return tokens;
+};
+
+export const buildSearchIndex = (records: TranslationRecord[]): SearchIndex => {
+  const current = new Set(records.map(record => record.id));
+  for (const id of tokenCache.keys()) {
+    if (!current.has(id)) tokenCache.delete(id);
+  }
+
+  const postings = new Map<string, string[]>();
+  records.forEach(record => {
+    recordTokens(record).forEach(token => {
+      const ids = postings.get(token);
+      if (ids) ids.push(record.id);
+      else postings.set(token, [record.id]);
+    });
+  });
+  const sorted = [...postings.keys()].sort();
+
+  // Tokens starting with the prefix sit together in sorted order
+  const withPrefix = (prefix: string) => {
+    let low = 0;
+    let high = sorted.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (sorted[mid] < prefix) low = mid + 1;
+      else high = mid;
+    }
+    const ids = new Set<string>();
+    for (let i = low; i < sorted.length && sorted[i].startsWith(prefix); i++) {
+      postings.get(sorted[i])!.forEach(id => ids.add(id));
+    }
+    return ids;
+  };
+
+  return {
+    search: (query) => {
+      const tokens = [...new Set(tokenize(query))];
+      if (tokens.length === 0) return null;
+      // While typing, the last word is usually incomplete
+      const [first, ...rest] = tokens.map((token, i) =>
+        i === tokens.length - 1 ? withPrefix(token) : new Set(postings.get(token) ?? [])
+      );
+      return rest.reduce((result, ids) => new Set([...result].filter(id => ids.has(id))), first);
+    },
+  };
+};
+
+/** Facet key for a record language, which may be stored as a name or a code. */
+export const facetLang = (lang: string) => (lang.toLowerCase() === 'auto' ? 'auto' : toLangCode(lang));
+
+const startOfDay = (date: string) => new Date(`${date}T00:00:00`).getTime();
+
+// Midnight after the given date; a day is not always 24 hours across a DST change
+const endOfDay = (date: string) => {
+  const end = new Date(`${date}T00:00:00`);
+  end.setDate(end.getDate() + 1);
+  return end.getTime();
+};
+
+export const matchesFacets = (record: TranslationRecord, facets: HistoryFacets) =>
+  (!facets.sourceLang || facetLang(record.sourceLang) === facets.sourceLang) &&
+  (!facets.targetLang || facetLang(record.targetLang) === facets.targetLang) &&
+  (!facets.type || record.type === facets.type) &&
+  (!facets.from || record.timestamp >= startOfDay(facets.from)) &&
+  (!facets.to || record.timestamp < endOfDay(facets.to));
+
+/** How many records have each value, most common first. */
+export const countBy = (records: TranslationRecord[], key: (record: TranslationRecord) => string) => {
+  const counts = new Map<string, number>();
+  records.forEach(record => {
+    const value = key(record);
+    counts.set(value, (counts.get(value) ?? 0) + 1);
+  });
+  return [...counts.entries()].sort((a, b) => b[1] - a[1]);
+};
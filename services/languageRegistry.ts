@@ -0,0 +1,54 @@
+import { DEFAULT_LANGUAGES, Language } from '../types';
+
+// The language registry. Lookups are synchronous and read the last loaded copy, so
+// services can use them anywhere; the browser refreshes it from /api/languages (see
+// services/languages.ts) and the server keeps it in sync with its store (see
+// server/languages.ts). Nothing here touches the DOM, so the server can import it.
+
+export type LanguageInput = Language;
+
+const listeners = new Set<(languages: Language[]) => void>();
+
+const GENERIC_FAMILIES = new Set(['serif', 'sans-serif', 'monospace', 'cursive', 'fantasy', 'system-ui', 'ui-serif', 'ui-sans-serif', 'ui-monospace']);
+
+// Used for text the language's own font does not cover, such as Latin file names in the PDF export
+export const FALLBACK_FONT = 'Noto Sans';
+
+/** The first named family of a CSS font list, e.g. "Noto Sans Devanagari"; undefined for generic families. */
+export const fontFamily = (font?: string) => {
+  const family = font?.split(',')[0].trim().replace(/^['"]|['"]$/g, '');
+  return family && !GENERIC_FAMILIES.has(family.toLowerCase()) ? family : undefined;
+};
+
+export const googleFontsCss = (family: string) =>
+  `https://fonts.googleapis.com/css2?family=${encodeURIComponent(family).replace(/%20/g, '+')}&display=swap`;
+
+let registry: Language[] = DEFAULT_LANGUAGES;
+
+export const setLanguages = (languages: Language[]) => {
+  registry = languages;
+  listeners.forEach(listener => listener(languages));
+};
+
+// Notified with the new registry whenever it is replaced.
+export const onLanguagesChange = (listener: (languages: Language[]) => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+/** Enabled languages, in registry order; `includeDisabled` for admin views and lookups. */
+export const listLanguages = (includeDisabled = false) =>
+  includeDisabled ? registry : registry.filter(l => l.enabled);
+
+/** Finds a language by code or English name, including disabled ones. */
+export const findLanguage = (codeOrName: string): Language | undefined => {
+  const lower = codeOrName.toLowerCase();
+  return registry.find(l => l.code === lower || l.name.toLowerCase() === lower);
+};
+
+export const languageName = (code: string) => findLanguage(code)?.name || code;
+
+export const languageLabel = (code: string) => {
+  const lang = findLanguage(code);
+  return lang ? `${lang.flag} ${lang.name}` : code;
+};
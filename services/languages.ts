@@ -0,0 +1,92 @@
+import { useEffect, useState } from 'react';
+import { Language } from '../types';
+import { deleteJson, getJson, postJson, putJson } from './api';
+import { findLanguage, fontFamily, googleFontsCss, LanguageInput, listLanguages, onLanguagesChange, setLanguages } from './languageRegistry';
+
+// The browser side of the language registry (services/languageRegistry.ts): fonts,
+// rendering helpers and the admin API. The lookups are re-exported for the pages.
+
+export * from './languageRegistry';
+
+/**
+ * Adds a Google Fonts stylesheet for the preferred font of every language in the registry,
+ * so a language added by an admin gets its font without a code change. One stylesheet per
+ * family: Google rejects a whole request if it names a family it does not host. Browsers
+ * only download the font files a page actually uses.
+ */
+const loadFonts = (languages: Language[]) => {
+  if (typeof document === 'undefined') return;
+  languages.forEach(({ font }) => {
+    const family = fontFamily(font);
+    if (!family || document.head.querySelector(`link[data-font-family="${CSS.escape(family)}"]`)) return;
+    const link = document.createElement('link');
+    link.rel = 'stylesheet';
+    link.href = googleFontsCss(family);
+    link.dataset.fontFamily = family;
+    document.head.appendChild(link);
+  });
+};
+
+loadFonts(listLanguages(true));
+onLanguagesChange(loadFonts);
+
+/** Attributes for an element holding text in the given language: direction, lang and font. */
+export const textProps = (codeOrName: string) => {
+  const lang = findLanguage(codeOrName);
+  return {
+    dir: lang?.direction ?? 'auto',
+    lang: lang?.code,
+    style: lang?.font ? { fontFamily: lang.font } : undefined,
+  };
+};
+
+// --- Client API ---
+
+let loaded: Promise<Language[]> | null = null;
+
+// A failed load keeps the built-in registry so the app still works offline.
+export const getLanguages = (force = false): Promise<Language[]> => {
+  if (!loaded || force) {
+    loaded = getJson<{ languages: Language[] }>('/api/languages')
+      .then(({ languages }) => {
+        setLanguages(languages);
+        return languages;
+      })
+      .catch(error => {
+        console.error("Languages error:", error);
+        loaded = null;
+        return listLanguages(true);
+      });
+  }
+  return loaded;
+};
+
+/** The registry for rendering; re-renders when it loads or an admin changes it. */
+export const useLanguages = (includeDisabled = false) => {
+  const [languages, setState] = useState(() => listLanguages(true));
+
+  useEffect(() => {
+    const unsubscribe = onLanguagesChange(setState);
+    getLanguages();
+    return unsubscribe;
+  }, []);
+
+  return includeDisabled ? languages : languages.filter(l => l.enabled);
+};
+
+export const createLanguage = async (input: LanguageInput) => {
+  const { language } = await postJson<{ language: Language }>('/api/languages', input);
+  await getLanguages(true);
+  return language;
+};
+
+export const updateLanguage = async (code: string, input: Partial<LanguageInput>) => {
+  const { language } = await putJson<{ language: Language }>(`/api/languages/${encodeURIComponent(code)}`, input);
+  await getLanguages(true);
+  return language;
+};
+
+export const deleteLanguage = async (code: string) => {
+  await deleteJson(`/api/languages/${encodeURIComponent(code)}`);
+  await getLanguages(true);
+};
@@ -0,0 +1,399 @@
+import { detectIndent, keepPadding, StructuredFile } from './structuredData';
+
+// Parsers and writers for app localization resources: gettext .po, XLIFF 1.2/2.0,
+// i18next nested JSON and Android strings.xml. Only untranslated entries are sent
+// to the model. A translation that loses or changes placeholders ({name}, {{count}},
+// %s, %1$d, inline tags, ICU plural/select structure) is not trusted: formats with
+// a review state get the translation flagged, the others keep the source text.
+// Either way the entry is listed for review.
+
+// --- Placeholders ---
+
+// printf flags leave out the space flag, so prose such as "50% off" is not read as "% o".
+const PLACEHOLDER = /\{\{[^{}]+\}\}|\$t\([^)]*\)|%(?:\d+\$)?[-+#0]*\d*(?:\.\d+)?[sdifuxXoeEgGc@%]|<[^>]+>/g;
+
+const findClosingBrace = (text: string, open: number) => {
+  let depth = 0;
+  for (let i = open; i < text.length; i++) {
+    if (text[i] === '{') depth++;
+    else if (text[i] === '}' && --depth === 0) return i;
+  }
+  return -1;
+};
+
+// Arguments, plural/select keywords and branch keys of an ICU message, order-independent.
+const icuSkeleton = (message: string): string => {
+  const parts: string[] = [];
+  for (let i = 0; i < message.length; i++) {
+    if (message[i] !== '{') continue;
+    const close = findClosingBrace(message, i);
+    if (close === -1) return `${parts.sort().join('')}{unbalanced`;
+    const inner = message.slice(i + 1, close);
+    const complex = inner.match(/^\s*([\w.]+)\s*,\s*(plural|select|selectordinal)\s*,([\s\S]*)$/);
+
+    if (complex) {
+      const branches: string[] = [];
+      const body = complex[3];
+      const branchStart = /\s*(offset:\s*\d+|=?[\w-]+)\s*\{/y;
+      let pos = 0;
+      while (pos < body.length) {
+        branchStart.lastIndex = pos;
+        const match = branchStart.exec(body);
+        if (!match) break;
+        const branchClose = findClosingBrace(body, pos + match[0].length - 1);
+        if (branchClose === -1) break;
+        branches.push(`${match[1]}:${icuSkeleton(body.slice(pos + match[0].length, branchClose))}`);
+        pos = branchClose + 1;
+      }
+      parts.push(`{${complex[1]},${complex[2]}(${branches.sort().join(';')})}`);
+    } else if (!inner.includes('{')) {
+      parts.push(`{${inner.trim()}}`);
+    } else {
+      parts.push(`{${icuSkeleton(inner)}}`);
+    }
+    i = close;
+  }
+  return parts.sort().join('');
+};
+
+const placeholderSignature = (text: string) =>
+  `${(text.match(PLACEHOLDER) || []).sort().join('')}|${icuSkeleton(text)}`;
+
+export const placeholdersMatch = (source: string, translation: string) =>
+  translation.trim() !== '' && placeholderSignature(source) === placeholderSignature(translation);
+
+// --- XML helpers (XLIFF, Android) ---
+
+const parseXml = (text: string) => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('The file is not well-formed XML.');
+  }
+  return doc;
+};
+
+const elements = (root: Document | Element, localName: string) =>
+  Array.from(root.getElementsByTagName('*')).filter(el => el.localName === localName);
+
+const child = (el: Element, localName: string) =>
+  Array.from(el.children).find(c => c.localName === localName);
+
+// Serialised children without the default namespace declarations XMLSerializer adds
+const innerXml = (el: Element) => {
+  const serializer = new XMLSerializer();
+  return Array.from(el.childNodes)
+    .map(node => serializer.serializeToString(node))
+    .join('')
+    .replace(/ xmlns="[^"]*"/g, '');
+};
+
+// Returns false if the translated markup does not parse, leaving the element untouched.
+const setInnerXml = (el: Element, xml: string) => {
+  const namespace = el.namespaceURI ? ` xmlns="${el.namespaceURI}"` : '';
+  const fragment = new DOMParser().parseFromString(`<wrap${namespace}>${xml}</wrap>`, 'application/xml');
+  if (fragment.getElementsByTagName('parsererror').length > 0) return false;
+
+  while (el.firstChild) el.removeChild(el.firstChild);
+  Array.from(fragment.documentElement.childNodes).forEach(node => {
+    el.appendChild(el.ownerDocument.importNode(node, true));
+  });
+  return true;
+};
+
+const serializeXml = (doc: Document, original: string) => {
+  const xml = new XMLSerializer().serializeToString(doc);
+  const declaration = original.match(/^\s*<\?xml[^>]*\?>/)?.[0];
+  return declaration && !xml.startsWith('<?xml') ? `${declaration.trim()}\n${xml}` : xml;
+};
+
+// --- gettext .po ---
+
+interface PoEntry {
+  lines: string[];
+  msgid: string;
+  msgidPlural?: string;
+  msgstrCount: number;
+  untranslated: boolean;
+}
+
+const unescapePo = (value: string) =>
+  value.replace(/\\(.)/g, (_, c: string) => ({ n: '\n', t: '\t', r: '\r' } as Record<string, string>)[c] ?? c);
+
+const escapePo = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\t/g, '\\t').replace(/\r/g, '\\r').replace(/\n/g, '\\n');
+
+const writePoString = (keyword: string, value: string) => {
+  const lines = value.split(/(?<=\n)/);
+  if (lines.length <= 1) return [`${keyword} "${escapePo(value)}"`];
+  return [`${keyword} ""`, ...lines.map(line => `"${escapePo(line)}"`)];
+};
+
+const parsePoEntry = (block: string): PoEntry => {
+  const lines = block.split(/\r?\n/);
+  const values: Record<string, string> = {};
+  let current: string | null = null;
+
+  lines.forEach(line => {
+    const keyword = line.match(/^(msgctxt|msgid_plural|msgid|msgstr(?:\[\d+\])?)\s+"(.*)"\s*$/);
+    if (keyword) {
+      current = keyword[1];
+      values[current] = unescapePo(keyword[2]);
+    } else if (current && /^\s*".*"\s*$/.test(line)) {
+      values[current] += unescapePo(line.trim().slice(1, -1));
+    } else {
+      current = null;
+    }
+  });
+
+  const msgstrKeys = Object.keys(values).filter(k => k.startsWith('msgstr'));
+  return {
+    lines,
+    msgid: values.msgid ?? '',
+    msgidPlural: values.msgid_plural,
+    msgstrCount: msgstrKeys.length,
+    untranslated: 'msgid' in values && values.msgid !== '' && msgstrKeys.every(k => values[k] === ''),
+  };
+};
+
+const writePoEntry = (entry: PoEntry, singular: string, plural: string | undefined, fuzzy: boolean) => {
+  const firstMsgstr = entry.lines.findIndex(line => line.startsWith('msgstr'));
+  const kept = entry.lines.slice(0, firstMsgstr).filter(line => !line.startsWith('#,'));
+  const flagsLine = entry.lines.find(line => line.startsWith('#,'));
+  const flags = (flagsLine ? flagsLine.slice(2).split(',').map(f => f.trim()).filter(Boolean) : [])
+    .filter(f => f !== 'fuzzy');
+  if (fuzzy) flags.unshift('fuzzy');
+
+  const firstKeyword = kept.findIndex(line => !line.startsWith('#'));
+  if (flags.length) kept.splice(firstKeyword === -1 ? kept.length : firstKeyword, 0, `#, ${flags.join(', ')}`);
+
+  const msgstr = plural === undefined
+    ? writePoString('msgstr', singular)
+    : Array.from({ length: Math.max(2, entry.msgstrCount) }, (_, n) => writePoString(`msgstr[${n}]`, n === 0 ? singular : plural)).flat();
+
+  return [...kept, ...msgstr].join('\n');
+};
+
+export const parsePoFile = (text: string, targetLang: string): StructuredFile => {
+  const lineBreak = text.includes('\r\n') ? '\r\n' : '\n';
+  const blocks = text.replace(/\r\n/g, '\n').split(/\n[ \t]*\n/);
+  const entries = blocks.map(parsePoEntry);
+
+  // Plural entries send both forms: msgstr[0] gets the singular, the other forms the plural.
+  const pending = entries
+    .map((entry, index) => ({ entry, index }))
+    .filter(({ entry }) => entry.untranslated && !entry.lines.some(line => line.startsWith('#~')));
+  const units = pending.flatMap(({ entry }) => entry.msgidPlural === undefined ? [entry.msgid] : [entry.msgid, entry.msgidPlural]);
+
+  return {
+    format: 'po',
+    mimeType: 'text/x-gettext-translation',
+    units,
+    build: (translations) => {
+      const output = [...blocks];
+      const review: string[] = [];
+      let unit = 0;
+
+      pending.forEach(({ entry, index }) => {
+        const singular = translations[unit++] ?? '';
+        const plural = entry.msgidPlural === undefined ? undefined : translations[unit++] ?? '';
+        const ok = placeholdersMatch(entry.msgid, singular) &&
+          (plural === undefined || placeholdersMatch(entry.msgidPlural!, plural));
+        if (!ok) review.push(entry.msgid);
+        output[index] = writePoEntry(entry, singular.trim(), plural?.trim(), !ok);
+      });
+
+      // Keep the header's Language field in line with the translation
+      output[0] = output[0].replace(/^"Language: [^"\\]*\\n"$/m, `"Language: ${targetLang}\\n"`);
+
+      const joined = output.join('\n\n').replace(/\n*$/, /\n$/.test(text) ? '\n' : '');
+      return { text: joined.replace(/\n/g, lineBreak), problems: [], review };
+    },
+  };
+};
+
+// --- XLIFF 1.2 / 2.0 ---
+
+interface XliffSegment {
+  id: string;
+  source: Element;
+  target?: Element;
+  // Element carrying the state attribute: <target> in 1.2, <segment> in 2.0
+  container: Element;
+}
+
+// Builds write into the parsed document, so every call starts from a fresh parse.
+const loadXliff = (text: string) => {
+  const doc = parseXml(text);
+  const root = doc.documentElement;
+  const version2 = (root.getAttribute('version') || '').startsWith('2');
+
+  const segments: XliffSegment[] = version2
+    ? elements(doc, 'unit')
+        .filter(unit => unit.getAttribute('translate') !== 'no')
+        .flatMap(unit => elements(unit, 'segment').map((segment, i) => ({
+          id: `${unit.getAttribute('id')}${i ? `#${i}` : ''}`,
+          source: child(segment, 'source')!,
+          target: child(segment, 'target'),
+          container: segment,
+        })))
+    : elements(doc, 'trans-unit')
+        .filter(unit => unit.getAttribute('translate') !== 'no')
+        .map(unit => ({
+          id: unit.getAttribute('id') || '',
+          source: child(unit, 'source')!,
+          target: child(unit, 'target'),
+          container: unit,
+        }));
+
+  const pending = segments.filter(s => s.source && !(s.target?.textContent || '').trim() && (s.source.textContent || '').trim());
+  return { doc, root, version2, pending };
+};
+
+export const parseXliffFile = (text: string, targetLang: string): StructuredFile => {
+  const sources = loadXliff(text).pending.map(s => innerXml(s.source));
+
+  return {
+    format: 'xliff',
+    mimeType: 'application/x-xliff+xml',
+    units: sources,
+    build: (translations) => {
+      const { doc, root, version2, pending } = loadXliff(text);
+      const review: string[] = [];
+
+      pending.forEach((segment, i) => {
+        let target = segment.target;
+        if (!target) {
+          target = doc.createElementNS(segment.source.namespaceURI, 'target');
+          const indent = segment.source.previousSibling?.nodeType === Node.TEXT_NODE ? segment.source.previousSibling.textContent! : '';
+          segment.source.after(doc.createTextNode(indent), target);
+        }
+
+        const translation = keepPadding(sources[i], translations[i] ?? '');
+        const ok = placeholdersMatch(sources[i], translation) && setInnerXml(target, translation);
+        if (!ok) review.push(segment.id);
+
+        if (version2) {
+          segment.container.setAttribute('state', ok ? 'translated' : 'initial');
+        } else {
+          target.setAttribute('state', ok ? 'translated' : 'needs-review-translation');
+        }
+      });
+
+      if (version2) {
+        root.setAttribute('trgLang', targetLang);
+      } else {
+        elements(doc, 'file').forEach(file => file.setAttribute('target-language', targetLang));
+      }
+
+      return { text: serializeXml(doc, text), problems: [], review };
+    },
+  };
+};
+
+// --- Android strings.xml ---
+
+// Android escapes apostrophes and quotes with a backslash; the model sees plain text.
+const unescapeAndroid = (value: string) => value.replace(/\\(['"])/g, '$1');
+
+const escapeAndroid = (value: string) =>
+  value.split(/(<[^>]+>)/).map((part, i) => (i % 2 ? part : part.replace(/\\?(['"])/g, '\\$1'))).join('');
+
+export const isAndroidResources = (text: string) => /<resources[\s>]/.test(text) && /<(string|plurals|string-array)[\s>]/.test(text);
+
+const loadAndroid = (text: string) => {
+  const doc = parseXml(text);
+  const translatable = (el: Element | null): boolean =>
+    !el || el.localName === 'resources' || (el.getAttribute('translatable') !== 'false' && translatable(el.parentElement));
+
+  const pending = [...elements(doc, 'string'), ...elements(doc, 'item').filter(item =>
+    item.parentElement?.localName === 'plurals' || item.parentElement?.localName === 'string-array'
+  )]
+    .filter(el => translatable(el))
+    .filter(el => {
+      const value = (el.textContent || '').trim();
+      return value !== '' && !value.startsWith('@');
+    })
+    .sort((a, b) => (a.compareDocumentPosition(b) & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1));
+  return { doc, pending };
+};
+
+export const parseAndroidFile = (text: string): StructuredFile => {
+  const sources = loadAndroid(text).pending.map(el => unescapeAndroid(innerXml(el)));
+
+  const entryName = (el: Element) => {
+    const named = el.getAttribute('name') ? el : el.parentElement!;
+    const quantity = el.getAttribute('quantity');
+    return `${named.getAttribute('name')}${quantity ? ` (${quantity})` : ''}`;
+  };
+
+  return {
+    format: 'android',
+    mimeType: 'application/xml',
+    units: sources,
+    build: (translations) => {
+      const { doc, pending } = loadAndroid(text);
+      const review: string[] = [];
+
+      pending.forEach((el, i) => {
+        const translation = keepPadding(sources[i], translations[i] ?? '');
+        // Without a review state in the format, a doubtful translation keeps the source text
+        if (placeholdersMatch(sources[i], translation) && setInnerXml(el, escapeAndroid(translation))) return;
+        review.push(entryName(el));
+        const anchor = el.getAttribute('name') ? el : el.parentElement!;
+        if (anchor.previousSibling?.nodeType !== Node.COMMENT_NODE) {
+          anchor.before(doc.createComment(' needs review: not translated '), doc.createTextNode('\n    '));
+        }
+      });
+
+      return { text: serializeXml(doc, text), problems: [], review };
+    },
+  };
+};
+
+// --- i18next JSON ---
+
+// i18next resources are objects whose leaves are all strings (arrays of strings allowed).
+export const isI18nextResource = (data: unknown): boolean => {
+  const leavesAreStrings = (value: unknown): boolean =>
+    typeof value === 'string' ||
+    (Array.isArray(value) ? value.every(leavesAreStrings) : !!value && typeof value === 'object' && Object.values(value).every(leavesAreStrings));
+  return !!data && typeof data === 'object' && !Array.isArray(data) && Object.keys(data).length > 0 && leavesAreStrings(data);
+};
+
+export const parseI18nextFile = (text: string): StructuredFile => {
+  const data = JSON.parse(text);
+  const keys: string[][] = [];
+  const collect = (value: any, path: string[]) => {
+    if (typeof value === 'string') {
+      if (value.trim()) keys.push(path);
+    } else {
+      Object.entries(value).forEach(([key, item]) => collect(item, [...path, key]));
+    }
+  };
+  collect(data, []);
+
+  const getAt = (value: any, path: string[]) => path.reduce((node, key) => node[key], value);
+  const sources: string[] = keys.map(path => getAt(data, path));
+
+  return {
+    format: 'i18next',
+    mimeType: 'application/json',
+    units: sources,
+    build: (translations) => {
+      const copy = JSON.parse(text);
+      const review: string[] = [];
+
+      keys.forEach((path, i) => {
+        const translation = keepPadding(sources[i], translations[i] ?? '');
+        if (!placeholdersMatch(sources[i], translation)) {
+          review.push(path.join('.'));
+          return;
+        }
+        getAt(copy, path.slice(0, -1))[path[path.length - 1]] = translation;
+      });
+
+      const output = JSON.stringify(copy, null, detectIndent(text)) + (/\n$/.test(text) ? '\n' : '');
+      return { text: output, problems: [], review };
+    },
+  };
+};
@@ -0,0 +1,440 @@
+import { marked, Tokens } from 'marked';
+import { StructuredFile } from './structuredData';
+
+// Markdown and HTML translation that only sends prose. Code, URLs, link targets,
+// image paths, front-matter keys and tag attributes never reach the model: opaque
+// pieces become <xN/> placeholders and link/element wrappers become <tN>...</tN>,
+// which are swapped back for the original markup after translation.
+
+interface ProtectedUnit {
+  text: string;
+  // Original markup for each placeholder index
+  opaque: Map<number, string>;
+  wrappers: Map<number, [string, string]>;
+}
+
+const escapeHtml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/** Returns null if the model dropped, duplicated or invented a placeholder. */
+const restoreUnit = (unit: ProtectedUnit, translated: string): string | null => {
+  const count = (token: string) => translated.split(token).length - 1;
+  for (const n of unit.opaque.keys()) {
+    if (count(`<x${n}/>`) !== 1) return null;
+  }
+  for (const n of unit.wrappers.keys()) {
+    if (count(`<t${n}>`) !== 1 || count(`</t${n}>`) !== 1) return null;
+  }
+  if (/<\/?[tx]\d+\/?>/.test(translated.replace(/<x(\d+)\/>|<\/?t(\d+)>/g, (m, x, t) =>
+    unit.opaque.has(Number(x)) || unit.wrappers.has(Number(t)) ? '' : m))) return null;
+
+  return translated
+    .replace(/<x(\d+)\/>/g, (_, n) => unit.opaque.get(Number(n))!)
+    .replace(/<t(\d+)>/g, (_, n) => unit.wrappers.get(Number(n))![0])
+    .replace(/<\/t(\d+)>/g, (_, n) => unit.wrappers.get(Number(n))![1]);
+};
+
+const hasProse = (text: string) => /\p{L}/u.test(text.replace(/<x\d+\/>|<\/?t\d+>/g, ''));
+
+// --- Markdown ---
+
+const INLINE = new RegExp([
+  /(`+)[\s\S]*?\1/.source,                                   // inline code
+  /!?\[([^\]\n]*)\]\((?:[^()\s]|\([^()\s]*\))+(?:\s+"[^"]*")?\)/.source, // links and images
+  /!?\[([^\]\n]+)\]\[[^\]\n]*\]/.source,                      // reference links
+  /<https?:\/\/[^>\s]+>/.source,                             // autolinks
+  /<\/?[a-zA-Z][^>]*>/.source,                               // inline HTML
+  /https?:\/\/[^\s)\]>]+/.source,                            // bare URLs
+].join('|'), 'g');
+
+const protectMarkdown = (text: string): ProtectedUnit => {
+  const opaque = new Map<number, string>();
+  const wrappers = new Map<number, [string, string]>();
+  let next = 0;
+
+  const protectedText = text.replace(INLINE, (match, _ticks, linkText, refText) => {
+    const label: string | undefined = linkText ?? refText;
+    const n = next++;
+    if (label && /\p{L}/u.test(label)) {
+      const open = match.slice(0, match.indexOf('[') + 1);
+      const close = match.slice(match.indexOf('[') + 1 + label.length);
+      wrappers.set(n, [open, close]);
+      return `<t${n}>${label}</t${n}>`;
+    }
+    opaque.set(n, match);
+    return `<x${n}/>`;
+  });
+
+  return { text: protectedText, opaque, wrappers };
+};
+
+// Output of the splitter: verbatim text, or a translatable unit with the markup around it.
+// A unit that spanned several source lines is re-wrapped to about the same width, and its
+// continuation lines get `indent` (list indentation, blockquote markers).
+type Piece = string | { unit: number; lead: string; trail: string; indent: string; width: number };
+
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+const ATX_HEADING = /^( {0,3}#{1,6}[ \t]+)(.*?)((?:[ \t]+#+)?[ \t]*)$/;
+const LIST_MARKER = /^( {0,3}(?:[-*+]|\d{1,9}[.)])(?:[ \t]+|$))(\[[ xX]\][ \t]+)?/;
+const BLOCKQUOTE_MARKER = /^ {0,3}> ?/;
+// Two trailing spaces or a backslash end a line inside a paragraph
+const HARD_BREAK = /( {2,}|\\)$/;
+
+// Adds container markup to every line of the pieces: `first` on the first line, `rest` after
+const prefixPieces = (pieces: Piece[], first: string, rest: string): Piece[] => {
+  let atLineStart = true;
+  let firstLine = true;
+  const prefix = (empty: boolean) => {
+    const p = firstLine ? first : rest;
+    firstLine = false;
+    atLineStart = false;
+    return empty ? p.trimEnd() : p;
+  };
+
+  return pieces.map(piece => {
+    if (typeof piece !== 'string') {
+      const lead = atLineStart ? prefix(false) + piece.lead : piece.lead;
+      atLineStart = false;
+      return { ...piece, lead, indent: rest + piece.indent };
+    }
+    const parts = piece.split('\n');
+    return parts.map((part, i) => {
+      if (i > 0) atLineStart = true;
+      // A trailing newline leaves the prefix to whatever comes next
+      const text = atLineStart && (part !== '' || i < parts.length - 1) ? prefix(part === '') + part : part;
+      return (i > 0 ? '\n' : '') + text;
+    }).join('');
+  });
+};
+
+// Splits a document into verbatim text and translatable units, walking marked's block tokens.
+// Containers (blockquotes, list items) are lexed again without their markers, so their
+// contents are handled like top-level blocks.
+const splitMarkdown = (text: string) => {
+  const units: ProtectedUnit[] = [];
+
+  const segment = (content: string, raw: string, lead = '', trail = '', indent = '', width = 0): Piece => {
+    const unit = protectMarkdown(content);
+    if (!hasProse(unit.text)) return raw;
+    units.push(unit);
+    return { unit: units.length - 1, lead, trail, indent, width };
+  };
+
+  // Hard-wrapped lines are joined into one unit so sentences keep their context; hard
+  // breaks start a new unit so they survive translation.
+  const paragraph = (raw: string): Piece[] => {
+    const pieces: Piece[] = [];
+    let group: string[] = [];
+    const flush = (last: boolean) => {
+      if (group.length === 0) return;
+      const body = group.join('\n');
+      const breakChars = group[group.length - 1].match(HARD_BREAK)?.[0] ?? '';
+      const lines = group.map((line, i) => (i === group.length - 1 ? line.slice(0, line.length - breakChars.length) : line).trim());
+      const lead = group[0].match(/^\s*/)![0];
+      const indent = group[1]?.match(/^\s*/)![0] ?? '';
+      const width = group.length > 1 ? Math.max(...lines.map(line => Array.from(line).length)) : 0;
+      pieces.push(segment(lines.join(' '), body, lead, breakChars, indent, width));
+      if (!last) pieces.push('\n');
+      group = [];
+    };
+    const lines = raw.split('\n');
+    lines.forEach((line, i) => {
+      group.push(line);
+      if (HARD_BREAK.test(line)) flush(i === lines.length - 1);
+    });
+    flush(true);
+    return pieces;
+  };
+
+  const table = (raw: string): Piece[] =>
+    raw.split('\n').flatMap((line, i): Piece[] => {
+      const newline = i > 0 ? ['\n'] : [];
+      if (!line.includes('|') || TABLE_SEPARATOR.test(line)) return [...newline, line];
+      // Each cell is its own unit, pipes and padding stay
+      return [...newline, ...line.split(/(?<!\\)(\|)/).map(cell => {
+        const [, lead, content, trail] = cell.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+        return cell === '|' || content === '' ? cell : segment(content, cell, lead, trail);
+      })];
+    });
+
+  const heading = (token: Tokens.Heading): Piece[] => {
+    const [first, ...rest] = token.raw.split('\n');
+    const atx = first.match(ATX_HEADING);
+    if (atx) return [segment(atx[2], first, atx[1], atx[3]), ...rest.map(line => `\n${line}`)];
+    // Setext: text lines, then the underline
+    const lines = token.raw.replace(/\n+$/, '').split('\n');
+    return [...paragraph(lines.slice(0, -1).join('\n')), `\n${lines[lines.length - 1]}`, token.raw.match(/\n*$/)![0]];
+  };
+
+  const listItem = (raw: string): Piece[] => {
+    const [first, ...rest] = raw.split('\n');
+    const marker = first.match(LIST_MARKER);
+    if (!marker) return [raw];
+    const width = marker[1].length;
+    const content = [first.slice(marker[0].length), ...rest.map(line => line.replace(new RegExp(`^ {0,${width}}`), ''))].join('\n');
+    return prefixPieces(blocks(content), marker[0], ' '.repeat(width));
+  };
+
+  const blocks = (source: string): Piece[] => {
+    const pieces: Piece[] = [];
+    let cursor = 0;
+    marked.lexer(source).forEach(token => {
+      // Tokens don't cover everything (link definitions are dropped), so find each one
+      // in the source and copy what lies between them
+      const start = source.indexOf(token.raw, cursor);
+      if (!token.raw || start < 0) return;
+      if (start > cursor) pieces.push(source.slice(cursor, start));
+      cursor = start + token.raw.length;
+
+      switch (token.type) {
+        case 'paragraph':
+        case 'text': {
+          const body = token.raw.replace(/\n+$/, '');
+          pieces.push(...paragraph(body), token.raw.slice(body.length));
+          break;
+        }
+        case 'heading':
+          pieces.push(...heading(token as Tokens.Heading));
+          break;
+        case 'table':
+          pieces.push(...table(token.raw));
+          break;
+        case 'blockquote': {
+          const inner = token.raw.split('\n').map(line => line.replace(BLOCKQUOTE_MARKER, '')).join('\n');
+          pieces.push(...prefixPieces(blocks(inner), '> ', '> '));
+          break;
+        }
+        case 'list': {
+          let itemCursor = 0;
+          (token as Tokens.List).items.forEach(item => {
+            const itemStart = token.raw.indexOf(item.raw, itemCursor);
+            if (itemStart < 0) return;
+            if (itemStart > itemCursor) pieces.push(token.raw.slice(itemCursor, itemStart));
+            pieces.push(...listItem(item.raw));
+            itemCursor = itemStart + item.raw.length;
+          });
+          pieces.push(token.raw.slice(itemCursor));
+          break;
+        }
+        default:
+          // Code, HTML blocks, rules and blank lines are copied as they are
+          pieces.push(token.raw);
+      }
+    });
+    pieces.push(source.slice(cursor));
+    return pieces;
+  };
+
+  // Front matter: keys and non-text values stay, plain scalar values are translated
+  const pieces: Piece[] = [];
+  let body = text;
+  const lines = text.split('\n');
+  if (lines[0] === '---') {
+    const end = lines.findIndex((line, n) => n > 0 && (line === '---' || line === '...'));
+    if (end > 0) {
+      lines.slice(0, end + 1).forEach((line, n) => {
+        const field = n > 0 && n < end && line.match(/^(\s*[\w-]+:\s+)(["']?)([^"'[{|>&*#].*?)(\2\s*)$/);
+        pieces.push(field && !/^(true|false|null|[\d.:-]+)$/.test(field[3]) ? segment(field[3], line, field[1] + field[2], field[4]) : line, '\n');
+      });
+      body = lines.slice(end + 1).join('\n');
+    }
+  }
+  pieces.push(...blocks(body));
+
+  return { pieces, units };
+};
+
+const UNSPACED = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/u;
+const PLACEHOLDER = /<x(\d+)\/>|<(\/?)t(\d+)>/g;
+const wordSegmenter = new Intl.Segmenter(undefined, { granularity: 'word' });
+
+/**
+ * Greedy wrapping of a unit's protected text to about `width` characters of restored
+ * markdown. Lines break at spaces, or between Han/kana words; never inside a placeholder.
+ */
+const wrapUnit = (text: string, unit: ProtectedUnit, width: number) => {
+  const atoms: { text: string; length: number }[] = [];
+  const pushText = (plain: string) => {
+    for (const { segment } of wordSegmenter.segment(plain)) atoms.push({ text: segment, length: Array.from(segment).length });
+  };
+  let last = 0;
+  for (const match of text.matchAll(PLACEHOLDER)) {
+    pushText(text.slice(last, match.index));
+    const [, x, close, t] = match;
+    const restored = x !== undefined ? unit.opaque.get(Number(x)) : unit.wrappers.get(Number(t))?.[close ? 1 : 0];
+    atoms.push({ text: match[0], length: restored?.length ?? match[0].length });
+    last = match.index! + match[0].length;
+  }
+  pushText(text.slice(last));
+
+  const lines: string[] = [];
+  let line = '';
+  let length = 0;
+  let space = false;
+  let previous = '';
+  atoms.forEach(atom => {
+    if (/^\s+$/.test(atom.text)) {
+      space = length > 0;
+      return;
+    }
+    const breakable = space || (UNSPACED.test(previous) && UNSPACED.test(atom.text));
+    if (length > 0 && breakable && length + (space ? 1 : 0) + atom.length > width) {
+      lines.push(line);
+      line = '';
+      length = 0;
+      space = false;
+    }
+    line += (space ? ' ' : '') + atom.text;
+    length += (space ? 1 : 0) + atom.length;
+    space = false;
+    previous = atom.text;
+  });
+  lines.push(line);
+  return lines.join('\n');
+};
+
+export const parseMarkdownFile = (text: string): StructuredFile => {
+  const lineBreak = text.includes('\r\n') ? '\r\n' : '\n';
+  const { pieces, units } = splitMarkdown(text.replace(/\r\n/g, '\n'));
+
+  return {
+    format: 'markdown',
+    mimeType: 'text/markdown',
+    units: units.map(u => u.text),
+    build: (translations) => {
+      const review: string[] = [];
+      const output = pieces.map(piece => {
+        if (typeof piece === 'string') return piece;
+        const unit = units[piece.unit];
+        const render = (translated: string) => restoreUnit(unit, piece.width ? wrapUnit(translated, unit, piece.width) : translated);
+        let restored = render((translations[piece.unit] ?? '').trim().replace(/\s*\n\s*/g, ' '));
+        if (restored === null) {
+          review.push(`Kept in the source language (protected markup changed): ${unit.text.slice(0, 60)}`);
+          restored = render(unit.text)!;
+        }
+        return piece.lead + restored.replace(/\n/g, `\n${piece.indent}`) + piece.trail;
+      }).join('');
+      return { text: output.replace(/\n/g, lineBreak), problems: [], review };
+    },
+  };
+};
+
+// --- HTML ---
+
+// Never translated, and their contents are never looked at
+const SKIPPED = new Set(['script', 'style', 'pre', 'code', 'kbd', 'samp', 'var', 'textarea', 'template', 'noscript', 'svg', 'math']);
+// Kept whole inside a translated sentence
+const OPAQUE = new Set([...SKIPPED, 'br', 'wbr', 'img', 'input', 'iframe', 'video', 'audio', 'canvas', 'object']);
+const PHRASING = new Set([
+  'a', 'abbr', 'b', 'bdi', 'bdo', 'cite', 'data', 'del', 'dfn', 'em', 'font', 'i', 'ins', 'label', 'mark',
+  'q', 's', 'small', 'span', 'strong', 'sub', 'sup', 'time', 'u', ...OPAQUE,
+]);
+
+const startTag = (el: Element) =>
+  `<${el.localName}${Array.from(el.attributes).map(a => ` ${a.name}="${a.value.replace(/&/g, '&amp;').replace(/"/g, '&quot;')}"`).join('')}>`;
+
+const isInlineOnly = (el: Element): boolean =>
+  Array.from(el.children).every(c => PHRASING.has(c.localName) && (OPAQUE.has(c.localName) || isInlineOnly(c)));
+
+// Element content as unit text, with child elements swapped for placeholders
+const protectElement = (el: Element): ProtectedUnit => {
+  const opaque = new Map<number, string>();
+  const wrappers = new Map<number, [string, string]>();
+  let next = 0;
+
+  const walk = (node: Node): string => {
+    if (node.nodeType === Node.TEXT_NODE) return escapeHtml(node.textContent || '');
+    if (node.nodeType !== Node.ELEMENT_NODE) return '';
+    const child = node as Element;
+    const n = next++;
+    if (OPAQUE.has(child.localName)) {
+      opaque.set(n, child.outerHTML);
+      return `<x${n}/>`;
+    }
+    wrappers.set(n, [startTag(child), `</${child.localName}>`]);
+    return `<t${n}>${Array.from(child.childNodes).map(walk).join('')}</t${n}>`;
+  };
+
+  return { text: Array.from(el.childNodes).map(walk).join(''), opaque, wrappers };
+};
+
+interface HtmlTarget {
+  node: Element | Text;
+  unit: ProtectedUnit;
+}
+
+// Builds write into the parsed document, so every call starts from a fresh parse.
+const loadHtml = (text: string) => {
+  const doc = new DOMParser().parseFromString(text, 'text/html');
+  const targets: HtmlTarget[] = [];
+
+  const visit = (el: Element) => {
+    if (SKIPPED.has(el.localName)) return;
+    if ((el.textContent || '').trim() && el !== doc.documentElement && el !== doc.body && el !== doc.head && isInlineOnly(el)) {
+      const unit = protectElement(el);
+      if (hasProse(unit.text)) targets.push({ node: el, unit });
+      return;
+    }
+    Array.from(el.childNodes).forEach(child => {
+      if (child.nodeType === Node.ELEMENT_NODE) {
+        visit(child as Element);
+      } else if (child.nodeType === Node.TEXT_NODE && /\p{L}/u.test(child.textContent || '')) {
+        targets.push({ node: child as Text, unit: { text: escapeHtml(child.textContent!), opaque: new Map(), wrappers: new Map() } });
+      }
+    });
+  };
+  visit(doc.documentElement);
+
+  return { doc, targets };
+};
+
+export const parseHtmlFile = (text: string): StructuredFile => {
+  const fullDocument = /<html[\s>]/i.test(text);
+  const doctype = text.match(/^\s*<!doctype[^>]*>/i)?.[0].trim();
+
+  return {
+    format: 'html',
+    mimeType: 'text/html',
+    units: loadHtml(text).targets.map(t => t.unit.text),
+    build: (translations) => {
+      const { doc, targets } = loadHtml(text);
+      const review: string[] = [];
+
+      targets.forEach(({ node, unit }, i) => {
+        const original = node.textContent || '';
+        const [, leading, , trailing] = original.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+        const restored = restoreUnit(unit, (translations[i] ?? '').trim());
+        if (restored === null) {
+          review.push(`Kept in the source language (protected markup changed): ${original.trim().slice(0, 60)}`);
+          return;
+        }
+        if (node.nodeType === Node.TEXT_NODE) {
+          // Text nodes carry escaped unit text; decode it back to plain characters
+          const decoder = doc.createElement('textarea');
+          decoder.innerHTML = restored;
+          node.textContent = leading + decoder.value + trailing;
+        } else {
+          (node as Element).innerHTML = leading + restored + trailing;
+        }
+      });
+
+      const output = fullDocument
+        ? `${doctype ? `${doctype}\n` : ''}${doc.documentElement.outerHTML}`
+        : doc.body.innerHTML;
+      return { text: output, problems: [], review };
+    },
+  };
+};
+
+// --- Preview ---
+
+/** HTML for previewing a Markdown or HTML file; show it in a sandboxed iframe. */
+export const renderPreview = (format: 'markdown' | 'html', text: string): string => {
+  if (format === 'html') return text;
+  const body = marked.parse(text.replace(/^---\n[\s\S]*?\n(---|\.\.\.)\n/, ''), { async: false }) as string;
+  return `<!DOCTYPE html><html><head><meta charset="utf-8"><style>
+    body { font-family: system-ui, sans-serif; line-height: 1.6; padding: 1.5rem; color: #1f2937; }
+    pre, code { background: #f3f4f6; border-radius: 4px; } pre { padding: 0.75rem; overflow: auto; }
+    table { border-collapse: collapse; } td, th { border: 1px solid #d1d5db; padding: 0.25rem 0.5rem; }
+    img { max-width: 100%; }
+  </style></head><body>${body}</body></html>`;
+};
@@ -0,0 +1,552 @@
+import { Font as PdfFont, jsPDF } from 'jspdf';
+import type * as HarfBuzz from 'harfbuzzjs';
+import { getJson } from './api';
+import { FALLBACK_FONT, findLanguage, fontFamily, languageName } from './languages';
+
+// Pages are written as real, selectable text in the registry's fonts, loaded with
+// addFileToVFS/addFont. jsPDF's own text() maps each character to one glyph, which
+// breaks Devanagari conjuncts, Sinhala vowel signs and Arabic joining, so every line
+// is shaped with HarfBuzz and its glyphs are written directly. The fonts are embedded
+// here too: jsPDF's ToUnicode map has one character per glyph, and copying or searching
+// a conjunct needs all the characters it was shaped from.
+
+export interface PdfColumn {
+  text: string;
+  // Language code or name; picks the font and text direction
+  lang: string;
+}
+
+export interface PdfExportOptions {
+  // Shown in every page header, e.g. the file name
+  title: string;
+  translation: PdfColumn;
+  // When given, source and translation are laid out side by side, paragraph by paragraph
+  source?: PdfColumn;
+}
+
+// A4 portrait, in points
+const PT_PER_MM = 72 / 25.4;
+const PAGE_WIDTH = 210 * PT_PER_MM;
+const PAGE_HEIGHT = 297 * PT_PER_MM;
+
+const MARGIN = 18 * PT_PER_MM;
+const HEADER_HEIGHT = 14 * PT_PER_MM;
+const FOOTER_HEIGHT = 10 * PT_PER_MM;
+const COLUMN_GAP = 8 * PT_PER_MM;
+const BODY_SIZE = 11;
+const LINE_HEIGHT = BODY_SIZE * 1.6;
+const SMALL_SIZE = 8.5;
+
+const BODY_TOP = MARGIN + HEADER_HEIGHT;
+const BODY_BOTTOM = PAGE_HEIGHT - MARGIN - FOOTER_HEIGHT;
+
+// RGB fill colours, 0-1
+const TEXT_COLOR = [0.067, 0.094, 0.153];
+const HEADER_COLOR = [0.216, 0.255, 0.318];
+const MUTED_COLOR = [0.42, 0.447, 0.502];
+
+type HarfBuzzModule = typeof HarfBuzz;
+
+// The parts of jsPDF's parsed TrueType font (font.metadata) used for subsetting and metrics
+interface TrueTypeMetadata {
+  subset: { encode: (glyphs: number[], mode: number) => Uint8Array };
+  widthOfGlyph: (glyph: number) => number;
+  bbox: number[];
+  flags: number;
+  stemV: number;
+  italicAngle: number;
+  ascender: number;
+  decender: number;
+  capHeight: number;
+}
+
+// What jsPDF passes to putFont listeners; the writers append to the PDF being output
+interface PutFontEvent {
+  font: PdfFont & { isAlreadyPutted?: boolean };
+  out: (line: string) => void;
+  // Starts a new indirect object and returns its number
+  newObject: () => number;
+  putStream: (options: { data: string; objectId: number; addLength1?: boolean }) => void;
+}
+
+interface EmbeddedFont {
+  // jsPDF font resource name, e.g. "F15"
+  id: string;
+  family: string;
+  metadata: TrueTypeMetadata;
+  hb: HarfBuzz.Font;
+  upem: number;
+  covers: Set<number>;
+  // Glyphs drawn so far and the text each stands for
+  glyphs: Map<number, string>;
+}
+
+interface ColumnStyle {
+  // Tried in order for each character, so text the language's font lacks still renders
+  fonts: EmbeddedFont[];
+  rtl: boolean;
+  x: number;
+  width: number;
+}
+
+interface ShapedRun {
+  font: EmbeddedFont;
+  text: string;
+  glyphs: (HarfBuzz.GlyphInfo & Partial<HarfBuzz.GlyphPosition>)[];
+}
+
+// One row of a page: a line per column, '' for a blank line
+type Row = string[];
+
+// Hex string of UTF-16BE code units, as ToUnicode CMaps expect
+const utf16Hex = (text: string) =>
+  Array.from({ length: text.length }, (_, i) => text.charCodeAt(i).toString(16).padStart(4, '0')).join('');
+
+// Advance of a glyph in thousandths of an em, as written to the font's /W array
+const fontWidth = (font: EmbeddedFont, glyph: number) => Math.round(font.metadata.widthOfGlyph(glyph));
+
+const toUnicodeCmap = (glyphs: Map<number, string>) => {
+  const entries = [...glyphs].map(([glyph, text]) => `<${glyph.toString(16).padStart(4, '0')}> <${utf16Hex(text)}>`);
+  const blocks = [];
+  for (let i = 0; i < entries.length; i += 100) {
+    const block = entries.slice(i, i + 100);
+    blocks.push(`${block.length} beginbfchar`, ...block, 'endbfchar');
+  }
+  return [
+    '/CIDInit /ProcSet findresource begin',
+    '12 dict begin',
+    'begincmap',
+    '/CIDSystemInfo << /Registry (Adobe) /Ordering (UCS) /Supplement 0 >> def',
+    '/CMapName /Adobe-Identity-UCS def',
+    '/CMapType 2 def',
+    '1 begincodespacerange',
+    '<0000> <ffff>',
+    'endcodespacerange',
+    ...blocks,
+    'endcmap',
+    'CMapName currentdict /CMap defineresource pop',
+    'end',
+    'end',
+  ].join('\n');
+};
+
+/**
+ * Writes a font as a subset Type 0 font with Identity-H encoding, glyph ids as codes,
+ * and a ToUnicode map from the drawn glyphs to their text. Runs on jsPDF's putFont
+ * event; returns the object number of the font dictionary.
+ */
+const putEmbeddedFont = (font: EmbeddedFont, { out, newObject, putStream }: PutFontEvent): number => {
+  const { metadata } = font;
+  const glyphs = [...font.glyphs.keys()].sort((a, b) => a - b);
+  const name = font.family.replace(/[^A-Za-z0-9-]/g, '');
+
+  const file = newObject();
+  const subset = metadata.subset.encode([0, ...glyphs], 1);
+  putStream({ data: Array.from(subset, byte => String.fromCharCode(byte)).join(''), addLength1: true, objectId: file });
+  out('endobj');
+
+  const toUnicode = newObject();
+  putStream({ data: toUnicodeCmap(font.glyphs), objectId: toUnicode });
+  out('endobj');
+
+  const descriptor = newObject();
+  out(`<< /Type /FontDescriptor /FontName /${name} /FontFile2 ${file} 0 R /FontBBox [${metadata.bbox.join(' ')}]`);
+  out(`/Flags ${metadata.flags} /StemV ${metadata.stemV} /ItalicAngle ${metadata.italicAngle}`);
+  out(`/Ascent ${metadata.ascender} /Descent ${metadata.decender} /CapHeight ${metadata.capHeight} >>`);
+  out('endobj');
+
+  const widths = glyphs.map(glyph => `${glyph} [${fontWidth(font, glyph)}]`).join(' ');
+  const descendant = newObject();
+  out(`<< /Type /Font /Subtype /CIDFontType2 /BaseFont /${name} /FontDescriptor ${descriptor} 0 R`);
+  out(`/CIDSystemInfo << /Registry (Adobe) /Ordering (Identity) /Supplement 0 >> /CIDToGIDMap /Identity /DW 1000 /W [${widths}] >>`);
+  out('endobj');
+
+  const type0 = newObject();
+  out(`<< /Type /Font /Subtype /Type0 /BaseFont /${name} /Encoding /Identity-H`);
+  out(`/DescendantFonts [${descendant} 0 R] /ToUnicode ${toUnicode} 0 R >>`);
+  out('endobj');
+  return type0;
+};
+
+const embedFont = async (pdf: jsPDF, hb: HarfBuzzModule, family: string): Promise<EmbeddedFont> => {
+  const { data } = await getJson<{ data: string }>(`/api/fonts/${encodeURIComponent(family)}`);
+  pdf.addFileToVFS(`${family}.ttf`, data);
+  pdf.addFont(`${family}.ttf`, family, 'normal');
+  pdf.setFont(family, 'normal');
+  const pdfFont = pdf.getFont();
+  // Keeps jsPDF's own Identity-H writer away from the font; putEmbeddedFont writes it instead
+  pdfFont.encoding = 'Shaped';
+
+  const face = new hb.Face(new hb.Blob(Uint8Array.from(atob(data), char => char.charCodeAt(0))));
+  const font: EmbeddedFont = {
+    id: String(pdfFont.id),
+    family,
+    metadata: pdfFont.metadata,
+    hb: new hb.Font(face),
+    upem: face.upem,
+    covers: new Set(face.collectUnicodes()),
+    glyphs: new Map(),
+  };
+
+  // The page resources refer to the font by objectNumber
+  pdf.internal.events.subscribe('putFont', (args: PutFontEvent) => {
+    if (args.font !== pdfFont) return;
+    pdfFont.objectNumber = putEmbeddedFont(font, args);
+    args.font.isAlreadyPutted = true;
+  });
+  return font;
+};
+
+const RTL_CHAR = /[\u0590-\u08FF\uFB1D-\uFDFF\uFE70-\uFEFF]/;
+const LTR_CHAR = /[\p{L}\p{N}]/u;
+// Joiners and variation selectors have no glyph of their own
+const IGNORABLE = /[\u200C\u200D\uFE00-\uFE0F]/;
+const IGNORABLE_ALL = /[\u200C\u200D\uFE00-\uFE0F]/g;
+const TRAILING_NEUTRALS = /[^\p{L}\p{N}\p{M}]+$/u;
+
+const graphemeSegmenter = new Intl.Segmenter(undefined, { granularity: 'grapheme' });
+// Word boundaries from Intl.Segmenter also break CJK text, which has no spaces.
+const wordSegmenter = new Intl.Segmenter(undefined, { granularity: 'word' });
+
+const covers = (font: EmbeddedFont, grapheme: string) =>
+  Array.from(grapheme).every(char => IGNORABLE.test(char) || font.covers.has(char.codePointAt(0)!));
+
+/**
+ * Splits a line into runs of one font and one direction, in logical order. Spaces and
+ * punctuation stay with the run before them. This is a simplified bidi: enough for
+ * Latin words and numbers inside right-to-left text and the other way round.
+ */
+const itemize = (line: string, style: ColumnStyle) => {
+  const runs: { font: EmbeddedFont; text: string; rtl: boolean | null }[] = [];
+  for (const { segment } of graphemeSegmenter.segment(line)) {
+    const rtl = RTL_CHAR.test(segment) ? true : LTR_CHAR.test(segment) ? false : null;
+    const current = runs[runs.length - 1];
+    const font = current && rtl === null && covers(current.font, segment)
+      ? current.font
+      : style.fonts.find(candidate => covers(candidate, segment)) ?? current?.font ?? style.fonts[0];
+    if (current && current.font === font && (rtl === null || current.rtl === null || current.rtl === rtl)) {
+      current.text += segment;
+      current.rtl ??= rtl;
+    } else {
+      runs.push({ font, text: segment, rtl });
+    }
+  }
+
+  // Spaces and punctuation after a run against the line's direction follow the line
+  return runs.flatMap(run => {
+    const rtl = run.rtl ?? style.rtl;
+    const trailing = rtl === style.rtl ? '' : run.text.match(TRAILING_NEUTRALS)?.[0] ?? '';
+    if (!trailing) return [{ ...run, rtl }];
+    return [
+      { font: run.font, text: run.text.slice(0, -trailing.length), rtl },
+      { font: run.font, text: trailing, rtl: style.rtl },
+    ];
+  });
+};
+
+// AGL glyph names such as "uni0924094D0930" (a conjunct) or "uni093F.04" (a variant) spell out their characters
+const textFromName = (name: string) => {
+  const base = name.split('.')[0];
+  const codes = base.match(/^uni((?:[0-9A-F]{4})+)$/)?.[1].match(/.{4}/g) ?? base.match(/^u([0-9A-F]{4,6})$/)?.slice(1) ?? [];
+  return String.fromCodePoint(...codes.map(code => parseInt(code, 16)));
+};
+
+/**
+ * The text each glyph of a run stands for, for the font's ToUnicode map. Within a
+ * cluster, glyphs first claim their own character, then the characters their glyph name
+ * spells out, then the text they were drawn for before; whatever is left goes to the
+ * first glyph without text, so a conjunct maps back to all the characters it came from.
+ */
+const glyphTexts = (run: ShapedRun) => {
+  const { font, text, glyphs } = run;
+  const clusters = new Map<number, number[]>();
+  glyphs.forEach((glyph, i) => clusters.set(glyph.cluster, [...(clusters.get(glyph.cluster) ?? []), i]));
+  const starts = [...clusters.keys()].sort((a, b) => a - b);
+  const texts: (string | undefined)[] = [];
+
+  starts.forEach((start, n) => {
+    const members = clusters.get(start)!;
+    const rest = Array.from(text.slice(start, starts[n + 1] ?? text.length));
+    const claim = (i: number, candidate: string | undefined) => {
+      const joined = rest.join('');
+      const at = candidate && texts[i] === undefined ? joined.indexOf(candidate) : -1;
+      if (at < 0) return;
+      rest.splice(Array.from(joined.slice(0, at)).length, Array.from(candidate!).length);
+      texts[i] = candidate;
+    };
+    members.forEach(i => claim(i, rest.find(char => font.hb.nominalGlyph(char.codePointAt(0)!) === glyphs[i].codepoint)));
+    members.forEach(i => claim(i, textFromName(font.hb.glyphName(glyphs[i].codepoint))));
+    members.forEach(i => claim(i, font.glyphs.get(glyphs[i].codepoint)));
+
+    const remaining = rest.join('');
+    if (!remaining.replace(IGNORABLE_ALL, '')) return;
+    const other = members.find(i => texts[i] === undefined) ?? members[0];
+    texts[other] = (texts[other] ?? '') + remaining;
+  });
+  return texts;
+};
+
+/** Shapes a line and returns its runs in visual (left to right) order with its width in points. */
+const shapeLine = (hb: HarfBuzzModule, line: string, style: ColumnStyle, size: number) => {
+  const runs = itemize(line, style);
+  const shaped = runs.map(({ font, text, rtl }): ShapedRun => {
+    const buffer = new hb.Buffer();
+    buffer.addText(text);
+    buffer.guessSegmentProperties();
+    buffer.setDirection(rtl ? hb.Direction.RTL : hb.Direction.LTR);
+    hb.shape(font.hb, buffer);
+    return { font, text, glyphs: buffer.getGlyphInfosAndPositions() };
+  });
+
+  // Runs against the line's direction read in reverse among themselves; an RTL line then reverses as a whole
+  const visual: ShapedRun[] = [];
+  let group: ShapedRun[] = [];
+  shaped.forEach((run, i) => {
+    if (runs[i].rtl !== style.rtl) {
+      group.unshift(run);
+      return;
+    }
+    visual.push(...group, run);
+    group = [];
+  });
+  visual.push(...group);
+  if (style.rtl) visual.reverse();
+
+  const width = visual.reduce((sum, run) =>
+    sum + run.glyphs.reduce((runWidth, glyph) => runWidth + (glyph.xAdvance ?? 0), 0) * size / run.font.upem, 0);
+  return { runs: visual, width };
+};
+
+// Stands in for glyphs whose text went to another glyph of their cluster, such as
+// the separate dots of some Arabic letters: viewers show glyph codes for unmapped glyphs
+const NO_TEXT = '\u2060';
+
+// A glyph keeps the first text it was drawn for
+const useGlyph = (font: EmbeddedFont, glyph: number, text: string | undefined) => {
+  const current = font.glyphs.get(glyph);
+  if (current === undefined || (current === NO_TEXT && text)) font.glyphs.set(glyph, text ?? NO_TEXT);
+};
+
+const write = (pdf: jsPDF, content: string) =>
+  (pdf.internal as unknown as { write: (content: string) => void }).write(content);
+
+/**
+ * Writes one shaped line with its baseline at `y` (from the top of the page), starting
+ * at `x`, or ending at `x` when `align` is 'right'. Glyphs go out as TJ strings whose
+ * adjustments turn the font's advances into HarfBuzz's; a glyph HarfBuzz moved off its
+ * pen position, such as a mark, starts a new string at that offset.
+ */
+const drawLine = (
+  pdf: jsPDF,
+  hb: HarfBuzzModule,
+  line: string,
+  style: ColumnStyle,
+  size: number,
+  color: number[],
+  x: number,
+  y: number,
+  align: 'left' | 'right' | 'center' = 'left'
+) => {
+  const { runs, width } = shapeLine(hb, line, style, size);
+  let pen = align === 'right' ? x - width : align === 'center' ? x - width / 2 : x;
+  const baseline = PAGE_HEIGHT - y;
+  const ops = ['q', 'BT', `${color.join(' ')} rg`];
+  let lastX = 0;
+  let lastY = 0;
+
+  let string: string[] = [];
+  const flush = () => {
+    if (string.length) ops.push(`[${string.join(' ')}] TJ`);
+    string = [];
+  };
+
+  runs.forEach(run => {
+    const { font } = run;
+    const scale = size / font.upem;
+    const texts = glyphTexts(run);
+    flush();
+    ops.push(`/${font.id} ${size} Tf`);
+    run.glyphs.forEach((glyph, i) => {
+      useGlyph(font, glyph.codepoint, texts[i]);
+      const offset = Boolean(glyph.xOffset || glyph.yOffset);
+      if (offset || !string.length) {
+        flush();
+        const glyphX = pen + (glyph.xOffset ?? 0) * scale;
+        const glyphY = baseline + (glyph.yOffset ?? 0) * scale;
+        ops.push(`${(glyphX - lastX).toFixed(2)} ${(glyphY - lastY).toFixed(2)} Td`);
+        lastX = glyphX;
+        lastY = glyphY;
+      }
+      // TJ adjustments are in thousandths of the font size, subtracted from the advance
+      const adjustment = fontWidth(font, glyph.codepoint) - (glyph.xAdvance ?? 0) * 1000 / font.upem;
+      string.push(`<${glyph.codepoint.toString(16).padStart(4, '0')}>`, adjustment.toFixed(1));
+      pen += (glyph.xAdvance ?? 0) * scale;
+      // The next glyph is placed from the pen, not from an offset glyph's position
+      if (offset) flush();
+    });
+  });
+  flush();
+
+  ops.push('ET', 'Q');
+  write(pdf, ops.join('\n'));
+};
+
+/**
+ * Greedy line wrapping with shaped widths. Words wider than the column are split
+ * between grapheme clusters, never inside one, so conjuncts and vowel signs stay whole.
+ */
+const wrapParagraph = (hb: HarfBuzzModule, paragraph: string, style: ColumnStyle): string[] => {
+  const measure = (text: string) => shapeLine(hb, text, style, BODY_SIZE).width;
+  const lines: string[] = [];
+  let line = '';
+
+  const push = (piece: string) => {
+    const candidate = line + piece;
+    if (measure(candidate) <= style.width || !line.trim()) {
+      line = candidate;
+      return;
+    }
+    lines.push(line.trimEnd());
+    line = piece.trimStart();
+  };
+
+  for (const { segment } of wordSegmenter.segment(paragraph)) {
+    if (measure(segment) <= style.width) {
+      push(segment);
+      continue;
+    }
+    for (const { segment: grapheme } of graphemeSegmenter.segment(segment)) {
+      if (line && measure(line + grapheme) > style.width) {
+        lines.push(line);
+        line = '';
+      }
+      line += grapheme;
+    }
+  }
+  lines.push(line.trimEnd());
+  return lines;
+};
+
+const wrapColumn = (hb: HarfBuzzModule, paragraphs: string[], style: ColumnStyle) =>
+  paragraphs.map(paragraph => paragraph.split('\n').flatMap(line => wrapParagraph(hb, line, style)));
+
+const splitParagraphs = (text: string) => text.replace(/\r\n/g, '\n').trim().split(/\n[ \t]*\n/);
+
+/**
+ * Lays the columns out into pages of rows. Side-by-side paragraphs start on the same
+ * row; the shorter one is padded so the next pair lines up again.
+ */
+const paginate = (wrapped: string[][][]): Row[][] => {
+  const rowsPerPage = Math.floor((BODY_BOTTOM - BODY_TOP) / LINE_HEIGHT);
+  const paragraphCount = Math.max(...wrapped.map(column => column.length));
+  const rows: Row[] = [];
+
+  for (let p = 0; p < paragraphCount; p++) {
+    const height = Math.max(...wrapped.map(column => column[p]?.length ?? 0));
+    for (let i = 0; i < height; i++) {
+      rows.push(wrapped.map(column => column[p]?.[i] ?? ''));
+    }
+    if (p < paragraphCount - 1) rows.push(wrapped.map(() => ''));
+  }
+
+  const pages: Row[][] = [];
+  for (let i = 0; i < rows.length; i += rowsPerPage) {
+    // A blank row at the top of a page only wastes space
+    const page = rows.slice(i, i + rowsPerPage);
+    while (page.length > 1 && page[0].every(cell => !cell)) page.shift();
+    pages.push(page);
+  }
+  return pages.length ? pages : [[]];
+};
+
+// Auto-detected sources have no language to name
+const columnName = (column: PdfColumn) => (column.lang ? languageName(column.lang) : 'Original');
+
+// Shortens text with an ellipsis until it fits the width
+const fitText = (hb: HarfBuzzModule, text: string, style: ColumnStyle, size: number, width: number) => {
+  if (shapeLine(hb, text, style, size).width <= width) return text;
+  const graphemes = Array.from(graphemeSegmenter.segment(text), ({ segment }) => segment);
+  while (graphemes.length > 1 && shapeLine(hb, `${graphemes.join('')}…`, style, size).width > width) graphemes.pop();
+  return `${graphemes.join('')}…`;
+};
+
+const drawPage = (
+  pdf: jsPDF,
+  hb: HarfBuzzModule,
+  rows: Row[],
+  styles: ColumnStyle[],
+  ui: ColumnStyle,
+  headings: string[],
+  options: PdfExportOptions,
+  pageNumber: number,
+  pageCount: number
+) => {
+  // Header: title on the left, language pair on the right, then a rule
+  const title = fitText(hb, options.title, ui, SMALL_SIZE, (PAGE_WIDTH - 2 * MARGIN) / 2);
+  drawLine(pdf, hb, title, ui, SMALL_SIZE, HEADER_COLOR, MARGIN, MARGIN + SMALL_SIZE);
+  const pair = options.source
+    // Noto Sans has no arrow glyph
+    ? `${columnName(options.source)} to ${columnName(options.translation)}`
+    : columnName(options.translation);
+  drawLine(pdf, hb, pair, ui, SMALL_SIZE, HEADER_COLOR, PAGE_WIDTH - MARGIN, MARGIN + SMALL_SIZE, 'right');
+  pdf.setDrawColor(209, 213, 219);
+  pdf.setLineWidth(0.7);
+  pdf.line(MARGIN, MARGIN + SMALL_SIZE * 2, PAGE_WIDTH - MARGIN, MARGIN + SMALL_SIZE * 2);
+
+  // Column headings in bilingual layout
+  let y = BODY_TOP;
+  if (headings.length > 1) {
+    headings.forEach((heading, i) => {
+      const { x, width, rtl } = styles[i];
+      drawLine(pdf, hb, heading, ui, SMALL_SIZE, MUTED_COLOR, rtl ? x + width : x, y, rtl ? 'right' : 'left');
+    });
+    y += SMALL_SIZE;
+  }
+
+  styles.forEach((style, column) => {
+    rows.forEach((row, i) => {
+      if (!row[column]) return;
+      const x = style.rtl ? style.x + style.width : style.x;
+      drawLine(pdf, hb, row[column], style, BODY_SIZE, TEXT_COLOR, x, y + (i + 1) * LINE_HEIGHT, style.rtl ? 'right' : 'left');
+    });
+  });
+
+  // Footer
+  drawLine(pdf, hb, `Page ${pageNumber} of ${pageCount}`, ui, SMALL_SIZE, MUTED_COLOR, PAGE_WIDTH / 2, PAGE_HEIGHT - MARGIN, 'center');
+};
+
+/** Renders the translation (optionally beside its source) to a paginated A4 PDF. */
+export const exportPdf = async (options: PdfExportOptions): Promise<Blob> => {
+  const columns = options.source ? [options.source, options.translation] : [options.translation];
+  const hb = await import('harfbuzzjs');
+  const pdf = new jsPDF({ unit: 'pt', format: 'a4', compress: true });
+  pdf.setProperties({ title: options.title });
+
+  // Each column's own font first, then the fallback, then the other column's font
+  const columnFamilies = columns.map(column => fontFamily(findLanguage(column.lang)?.font));
+  const families = Array.from(new Set<string>([...columnFamilies, FALLBACK_FONT].filter((family): family is string => !!family)));
+  const fonts = new Map(await Promise.all(families.map(async family => [family, await embedFont(pdf, hb, family)] as const)));
+  const fontChain = (first?: string) =>
+    Array.from(new Set<string>([first ?? FALLBACK_FONT, FALLBACK_FONT, ...families])).map(family => fonts.get(family)!);
+
+  const bodyWidth = PAGE_WIDTH - 2 * MARGIN;
+  const columnWidth = (bodyWidth - COLUMN_GAP * (columns.length - 1)) / columns.length;
+  const styles = columns.map((column, i): ColumnStyle => ({
+    fonts: fontChain(columnFamilies[i]),
+    rtl: findLanguage(column.lang)?.direction === 'rtl',
+    x: MARGIN + i * (columnWidth + COLUMN_GAP),
+    width: columnWidth,
+  }));
+  const ui: ColumnStyle = { fonts: fontChain(), rtl: false, x: MARGIN, width: bodyWidth };
+
+  const wrapped = columns.map((column, i) => wrapColumn(hb, splitParagraphs(column.text), styles[i]));
+  const pages = paginate(wrapped);
+  const headings = columns.map(columnName);
+
+  pages.forEach((rows, i) => {
+    if (i > 0) pdf.addPage();
+    drawPage(pdf, hb, rows, styles, ui, headings, options, i + 1, pages.length);
+  });
+
+  return pdf.output('blob');
+};
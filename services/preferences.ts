@@ -0,0 +1,40 @@
+import { DEFAULT_PREFERENCES, UserPreferences } from '../types';
+import { getAccessToken, getJson, putJson } from './api';
+
+const LOCAL_KEY = 'linguistai_preferences';
+
+type PreferencesResponse = { preferences: UserPreferences };
+
+const readLocal = (): UserPreferences => {
+  const stored = localStorage.getItem(LOCAL_KEY);
+  return { ...DEFAULT_PREFERENCES, ...(stored ? JSON.parse(stored) : {}) };
+};
+
+// Cached per access token so services can read preferences on every call cheaply.
+let cached: { token: string; preferences: UserPreferences } | null = null;
+
+// Signed-in users keep preferences on the server so they follow them across browsers.
+export const getPreferences = async (): Promise<UserPreferences> => {
+  const token = getAccessToken();
+  if (!token) return readLocal();
+  if (cached?.token === token) return cached.preferences;
+  try {
+    const { preferences } = await getJson<PreferencesResponse>('/api/users/me/preferences');
+    cached = { token, preferences };
+    return preferences;
+  } catch (error) {
+    console.error("Preferences error:", error);
+    return readLocal();
+  }
+};
+
+export const savePreferences = async (update: Partial<UserPreferences>): Promise<UserPreferences> => {
+  if (!getAccessToken()) {
+    const merged = { ...readLocal(), ...update };
+    localStorage.setItem(LOCAL_KEY, JSON.stringify(merged));
+    return merged;
+  }
+  const { preferences } = await putJson<PreferencesResponse>('/api/users/me/preferences', update);
+  cached = { token: getAccessToken()!, preferences };
+  return preferences;
+};
@@ -0,0 +1,192 @@
+import { GlossaryTerm, LanguageDetection, StructuredTranslation } from '../types';
+import { JudgeRequest, QualityJudgement, ReferenceTranslation, RefineStyle } from './providers/types';
+
+// Prompt builders shared by every provider that talks to a chat-style model.
+// Keeping them in one place means Gemini and a local endpoint see the same wording.
+
+const glossaryInstruction = (glossary?: GlossaryTerm[]) => {
+  if (!glossary?.length) return '';
+  const lines = glossary.map(t => `- "${t.source}" => "${t.target}"`).join('\n');
+  return `
+    Always translate these terms exactly as listed (glossary), even if another rendering seems more natural:
+    ${lines}
+    `;
+};
+
+const referenceInstruction = (references?: ReferenceTranslation[]) => {
+  if (!references?.length) return '';
+  const lines = references.map(r => `Source: "${r.source}"\n    Translation: "${r.target}"`).join('\n    ');
+  return `
+    Approved translations of similar text (translation memory). Reuse their wording and terminology where they apply:
+    ${lines}
+    `;
+};
+
+export const buildTranslatePrompt = (
+  text: string,
+  sourceLang: string,
+  targetLang: string,
+  glossary?: GlossaryTerm[],
+  references?: ReferenceTranslation[]
+) =>
+  `Translate the following text from ${sourceLang} to ${targetLang}. 
+    Preserve meaning, correct grammar, and avoid literal translations. 
+    Return ONLY the translated text, no preamble or markdown formatting.
+    ${glossaryInstruction(glossary)}${referenceInstruction(references)}
+    Text: "${text}"`;
+
+export const buildStructuredTranslatePrompt = (
+  text: string,
+  sourceLang: string,
+  targetLang: string,
+  glossary?: GlossaryTerm[],
+  references?: ReferenceTranslation[]
+) =>
+  `Translate the following text from ${sourceLang} to ${targetLang}.
+    Preserve meaning, correct grammar, and avoid literal translations.
+    Respond with JSON: {"primary": the best translation,
+    "alternatives": 2 or 3 other translations, each {"text", "tone"} where tone is a short label such as "formal", "neutral" or "conversational" and differs from the others,
+    "notes": one {"term", "note"} per ambiguous word, idiom or culturally specific expression in the source, explaining the choice made (empty if there are none)}.
+    ${glossaryInstruction(glossary)}${referenceInstruction(references)}
+    Text: "${text}"`;
+
+const stripCodeFence = (raw: string) => raw.trim().replace(/^```(?:json)?\s*|\s*```$/g, '');
+
+/** Validates a model's JSON answer to buildStructuredTranslatePrompt. */
+export const parseStructuredTranslation = (raw: string): StructuredTranslation => {
+  const json = JSON.parse(stripCodeFence(raw));
+  if (typeof json.primary !== 'string' || !json.primary.trim()) {
+    throw new Error('Structured translation returned no primary translation');
+  }
+  const primary = json.primary.trim();
+  const alternatives = (Array.isArray(json.alternatives) ? json.alternatives : [])
+    .filter((a: any) => typeof a?.text === 'string' && a.text.trim() && a.text.trim() !== primary)
+    .slice(0, 3)
+    .map((a: any) => ({ text: a.text.trim(), tone: typeof a.tone === 'string' ? a.tone : '' }));
+  const notes = (Array.isArray(json.notes) ? json.notes : [])
+    .filter((n: any) => typeof n?.term === 'string' && typeof n?.note === 'string' && n.note.trim())
+    .map((n: any) => ({ term: n.term, note: n.note }));
+  return { primary, alternatives, notes };
+};
+
+export const buildDocumentPrompt = (
+  content: string,
+  sourceLang: string,
+  targetLang: string,
+  glossary?: GlossaryTerm[],
+  references?: ReferenceTranslation[]
+) => {
+  // Determine source language instruction
+  const sourceInstruction = (sourceLang === 'auto' || sourceLang === 'Detect Language')
+    ? "Detect the source language automatically"
+    : `from ${sourceLang}`;
+
+  return `Translate the following document content ${sourceInstruction} to ${targetLang}. 
+    Maintain the original structure/paragraphs as much as possible.
+    ${glossaryInstruction(glossary)}${referenceInstruction(references)}
+    Document Content:
+    ${content}`;
+};
+
+export const buildUnitsPrompt = (
+  content: string,
+  sourceLang: string,
+  targetLang: string,
+  glossary?: GlossaryTerm[],
+  references?: ReferenceTranslation[]
+) => {
+  const sourceInstruction = sourceLang === 'auto' ? "" : ` from ${sourceLang}`;
+
+  return `Translate each numbered unit below${sourceInstruction} to ${targetLang}.
+    Each unit starts with a marker like ⟦12⟧. Output every marker exactly once, in the same order, followed by the translation of that unit.
+    Never merge, split, reorder or skip units.
+    Units may contain inline tags such as <t0>...</t0>. Keep every tag exactly as written and translate only the text between tags.
+    Copy placeholders such as {name}, {{count}}, %s, %1$d and inline XML elements unchanged.
+    In ICU messages like {count, plural, one {# file} other {# files}} keep the argument, keywords and braces and translate only the text inside each branch.
+    Return only the marked units, no preamble or markdown formatting.
+    ${glossaryInstruction(glossary)}${referenceInstruction(references)}
+    Units:
+    ${content}`;
+};
+
+export const buildFilePrompt = (targetLang: string, glossary?: GlossaryTerm[]) =>
+  `Analyze this document/image. Extract all text and translate it to ${targetLang}. Preserve the original layout, formatting, and structure as much as possible. Return only the translated content.${glossaryInstruction(glossary)}`;
+
+// Only the start of long inputs is needed to tell the language apart.
+const DETECT_SAMPLE_CHARS = 1000;
+
+export const buildDetectPrompt = (text: string) =>
+  `Identify the language of the text below.
+    Respond with JSON: {"code": ISO 639-1 code, "name": English name of the language, "script": ISO 15924 script code, "confidence": number from 0 to 1}.
+    Devanagari text may be Nepali, Hindi, Marathi or another language: decide from vocabulary and grammar
+    (e.g. Nepali "छ", "हो", "गर्नु"; Hindi "है", "हैं", "करना"; Marathi "आहे", "आणि"), not from the script alone.
+    Lower the confidence for very short or mixed-language text.
+
+    Text: "${text.slice(0, DETECT_SAMPLE_CHARS)}"`;
+
+/** Validates a model's JSON answer to buildDetectPrompt. */
+export const parseDetection = (raw: string): LanguageDetection => {
+  const json = JSON.parse(stripCodeFence(raw));
+  if (typeof json.code !== 'string' || !json.code) {
+    throw new Error('Language detection returned no language code');
+  }
+  const confidence = Number(json.confidence);
+  return {
+    code: json.code.toLowerCase(),
+    name: typeof json.name === 'string' && json.name ? json.name : json.code,
+    script: typeof json.script === 'string' ? json.script : '',
+    confidence: Number.isFinite(confidence) ? Math.min(1, Math.max(0, confidence)) : 0,
+  };
+};
+
+export const buildJudgePrompt = ({ sourceText, translatedText, backTranslation, sourceLang, targetLang }: JudgeRequest) =>
+  `You are reviewing a translation from ${sourceLang} to ${targetLang} for someone who cannot read ${targetLang}.
+    Compare the source with the translation, using the back-translation into ${sourceLang} as a hint.
+    Score adequacy (meaning preserved, nothing added or missing) and fluency from 0 to 100, where 90+ is publishable
+    and below 70 needs a human reviewer. List concrete problems (mistranslations, omissions, wrong register), in English.
+    Respond with JSON: {"score": number, "issues": string[]}.
+
+    Source: "${sourceText}"
+    Translation: "${translatedText}"
+    Back-translation: "${backTranslation}"`;
+
+/** Validates a model's JSON answer to buildJudgePrompt. */
+export const parseJudgement = (raw: string): QualityJudgement => {
+  const json = JSON.parse(stripCodeFence(raw));
+  const score = Number(json.score);
+  if (!Number.isFinite(score)) {
+    throw new Error('Quality check returned no score');
+  }
+  return {
+    score: Math.round(Math.min(100, Math.max(0, score))),
+    issues: (Array.isArray(json.issues) ? json.issues : []).filter((i: unknown) => typeof i === 'string' && i.trim()),
+  };
+};
+
+export const buildRefinePrompt = (text: string, style: RefineStyle) => {
+  let prompt = "";
+
+  switch (style) {
+    case 'summarize':
+      prompt = "Summarize the following text concisely in the same language as the text:";
+      break;
+    case 'polish':
+      prompt = "Polish the following text to improve fluency, grammar, and vocabulary, keeping the meaning intact. Return only the polished text:";
+      break;
+    case 'formal':
+      prompt = "Rewrite the following text to be more formal and professional. Return only the rewritten text:";
+      break;
+    case 'casual':
+      prompt = "Rewrite the following text to be more casual and conversational. Return only the rewritten text:";
+      break;
+  }
+
+  return `${prompt}\n\n"${text}"`;
+};
+
+export const buildInsightsPrompt = (data: unknown) =>
+  `Analyze the following translation app usage data and provide 3 short, actionable strategic insights or interesting trends. Format the output as a simple list.
+        
+        Data: ${JSON.stringify(data)}`;
+
+export const TRANSCRIBE_PROMPT = "Transcribe the spoken language in this audio exactly as it is. Return only the transcription text.";
@@ -0,0 +1,203 @@
+import { GenerateContentResponseUsageMetadata, GoogleGenAI, Modality, Type } from "@google/genai";
+import { StreamOptions, TranslationProvider, UsageOptions } from './types';
+import {
+  buildTranslatePrompt,
+  buildStructuredTranslatePrompt,
+  parseStructuredTranslation,
+  buildDocumentPrompt,
+  buildUnitsPrompt,
+  buildFilePrompt,
+  buildRefinePrompt,
+  buildInsightsPrompt,
+  buildDetectPrompt,
+  parseDetection,
+  buildJudgePrompt,
+  parseJudgement,
+  TRANSCRIBE_PROMPT,
+} from '../prompts';
+
+const TEXT_MODEL = 'gemini-2.5-flash';
+// Using Pro for complex reasoning and analysis
+const INSIGHTS_MODEL = 'gemini-3-pro-preview';
+// NOTE: This model is experimental.
+const TTS_MODEL = 'gemini-2.5-flash-preview-tts';
+
+const DETECTION_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    code: { type: Type.STRING, description: 'ISO 639-1 language code' },
+    name: { type: Type.STRING, description: 'English name of the language' },
+    script: { type: Type.STRING, description: 'ISO 15924 script code' },
+    confidence: { type: Type.NUMBER, description: 'Confidence from 0 to 1' },
+  },
+  required: ['code', 'name', 'script', 'confidence'],
+};
+
+const TRANSLATION_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    primary: { type: Type.STRING, description: 'The best translation' },
+    alternatives: {
+      type: Type.ARRAY,
+      minItems: '2',
+      maxItems: '3',
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          text: { type: Type.STRING },
+          tone: { type: Type.STRING, description: 'Short tone label, e.g. formal or conversational' },
+        },
+        required: ['text', 'tone'],
+      },
+    },
+    notes: {
+      type: Type.ARRAY,
+      description: 'Ambiguous terms or idioms in the source and how they were handled',
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          term: { type: Type.STRING },
+          note: { type: Type.STRING },
+        },
+        required: ['term', 'note'],
+      },
+    },
+  },
+  required: ['primary', 'alternatives', 'notes'],
+};
+
+const JUDGEMENT_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    score: { type: Type.NUMBER, description: 'Quality from 0 to 100' },
+    issues: { type: Type.ARRAY, items: { type: Type.STRING } },
+  },
+  required: ['score', 'issues'],
+};
+
+const reportUsage = (model: string, metadata: GenerateContentResponseUsageMetadata | undefined, onUsage?: UsageOptions['onUsage']) => {
+  if (!metadata || !onUsage) return;
+  onUsage({
+    model,
+    inputTokens: metadata.promptTokenCount ?? 0,
+    outputTokens: (metadata.candidatesTokenCount ?? 0) + (metadata.thoughtsTokenCount ?? 0),
+  });
+};
+
+export const createGeminiProvider = (apiKey?: string): TranslationProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  const generate = async (contents: string, { signal, onPartial, onUsage }: StreamOptions & UsageOptions = {}) => {
+    if (!onPartial) {
+      const response = await ai.models.generateContent({ model: TEXT_MODEL, contents, config: { abortSignal: signal } });
+      reportUsage(TEXT_MODEL, response.usageMetadata, onUsage);
+      return response.text?.trim() || "";
+    }
+
+    const stream = await ai.models.generateContentStream({ model: TEXT_MODEL, contents, config: { abortSignal: signal } });
+    let text = '';
+    // Every chunk carries the running totals, so the last one counts
+    let usage: GenerateContentResponseUsageMetadata | undefined;
+    for await (const chunk of stream) {
+      text += chunk.text || '';
+      usage = chunk.usageMetadata ?? usage;
+      onPartial(text);
+    }
+    reportUsage(TEXT_MODEL, usage, onUsage);
+    return text.trim();
+  };
+
+  const generateWithInlineData = async (data: string, mimeType: string, text: string, onUsage?: UsageOptions['onUsage']) => {
+    const response = await ai.models.generateContent({
+      model: TEXT_MODEL,
+      contents: {
+        parts: [
+          { inlineData: { data, mimeType } },
+          { text },
+        ],
+      },
+    });
+    reportUsage(TEXT_MODEL, response.usageMetadata, onUsage);
+    return response.text?.trim() || "";
+  };
+
+  return {
+    name: 'gemini',
+
+    translateText: ({ text, sourceLang, targetLang, glossary, references, ...stream }) =>
+      generate(buildTranslatePrompt(text, sourceLang, targetLang, glossary, references), stream),
+
+    translateStructured: async ({ text, sourceLang, targetLang, glossary, references, signal, onUsage }) => {
+      const response = await ai.models.generateContent({
+        model: TEXT_MODEL,
+        contents: buildStructuredTranslatePrompt(text, sourceLang, targetLang, glossary, references),
+        config: { abortSignal: signal, responseMimeType: 'application/json', responseSchema: TRANSLATION_SCHEMA },
+      });
+      reportUsage(TEXT_MODEL, response.usageMetadata, onUsage);
+      return parseStructuredTranslation(response.text || '');
+    },
+
+    translateDocument: ({ content, sourceLang, targetLang, glossary, references, format, ...stream }) =>
+      generate((format === 'units' ? buildUnitsPrompt : buildDocumentPrompt)(content, sourceLang, targetLang, glossary, references), stream),
+
+    // Gemini 2.5 Flash supports PDF, Images, etc.
+    translateFile: ({ data, mimeType, targetLang, glossary, onUsage }) =>
+      generateWithInlineData(data, mimeType, buildFilePrompt(targetLang, glossary), onUsage),
+
+    detectLanguage: async ({ text, onUsage }) => {
+      const response = await ai.models.generateContent({
+        model: TEXT_MODEL,
+        contents: buildDetectPrompt(text),
+        config: { responseMimeType: 'application/json', responseSchema: DETECTION_SCHEMA },
+      });
+      reportUsage(TEXT_MODEL, response.usageMetadata, onUsage);
+      return parseDetection(response.text || '');
+    },
+
+    judgeTranslation: async ({ onUsage, ...req }) => {
+      const response = await ai.models.generateContent({
+        model: TEXT_MODEL,
+        contents: buildJudgePrompt(req),
+        config: { responseMimeType: 'application/json', responseSchema: JUDGEMENT_SCHEMA },
+      });
+      reportUsage(TEXT_MODEL, response.usageMetadata, onUsage);
+      return parseJudgement(response.text || '');
+    },
+
+    refineText: async (text, style, options) => (await generate(buildRefinePrompt(text, style), options)) || text,
+
+    generateInsights: async (data, options) => {
+      const response = await ai.models.generateContent({
+        model: INSIGHTS_MODEL,
+        contents: buildInsightsPrompt(data),
+      });
+      reportUsage(INSIGHTS_MODEL, response.usageMetadata, options?.onUsage);
+      return response.text?.trim() || "No insights available.";
+    },
+
+    transcribeAudio: ({ data, mimeType, onUsage }) =>
+      generateWithInlineData(data, mimeType, TRANSCRIBE_PROMPT, onUsage),
+
+    generateSpeech: async ({ text, voice, onUsage }) => {
+      const response = await ai.models.generateContent({
+        model: TTS_MODEL,
+        contents: [{ parts: [{ text }] }],
+        config: {
+          responseModalities: [Modality.AUDIO],
+          speechConfig: {
+            voiceConfig: {
+              prebuiltVoiceConfig: { voiceName: voice || 'Kore' },
+            },
+          },
+        },
+      });
+      reportUsage(TTS_MODEL, response.usageMetadata, onUsage);
+
+      const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+      if (!base64Audio) {
+        throw new Error("No audio data returned");
+      }
+      return base64Audio;
+    },
+  };
+};
@@ -0,0 +1,42 @@
+import { ProviderName, TranslationProvider } from './types';
+import { createGeminiProvider } from './gemini';
+import { createLocalProvider } from './local';
+import { createOpenAICompatibleProvider } from './openaiCompatible';
+import { createProxyProvider } from './proxy';
+
+export * from './types';
+
+export const createProvider = (name: ProviderName): TranslationProvider => {
+  switch (name) {
+    case 'local':
+      return createLocalProvider();
+    case 'openai':
+      return createOpenAICompatibleProvider({
+        baseUrl: process.env.LOCAL_LLM_URL || 'http://localhost:11434',
+        model: process.env.LOCAL_LLM_MODEL || 'llama3.1',
+        apiKey: process.env.LOCAL_LLM_API_KEY,
+      });
+    case 'proxy':
+      return createProxyProvider();
+    case 'gemini':
+      return createGeminiProvider(process.env.GEMINI_API_KEY);
+    default:
+      throw new Error(`Unknown translation provider: ${name}`);
+  }
+};
+
+let activeProvider: TranslationProvider | null = null;
+
+// Chosen through TRANSLATION_PROVIDER (gemini | local | openai | proxy); defaults to gemini.
+// The browser bundle is always built with `proxy`, see vite.config.ts.
+export const getProvider = (): TranslationProvider => {
+  if (!activeProvider) {
+    activeProvider = createProvider((process.env.TRANSLATION_PROVIDER || 'gemini') as ProviderName);
+  }
+  return activeProvider;
+};
+
+// Lets tests and scripts swap the backend without touching configuration.
+export const setProvider = (provider: TranslationProvider | null) => {
+  activeProvider = provider;
+};
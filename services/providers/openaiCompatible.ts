@@ -0,0 +1,125 @@
+import { ModelUsage, StreamOptions, TranslationProvider, UsageOptions } from './types';
+import { readLines } from './streaming';
+import {
+  buildTranslatePrompt,
+  buildStructuredTranslatePrompt,
+  parseStructuredTranslation,
+  buildDocumentPrompt,
+  buildUnitsPrompt,
+  buildFilePrompt,
+  buildRefinePrompt,
+  buildInsightsPrompt,
+  buildDetectPrompt,
+  parseDetection,
+  buildJudgePrompt,
+  parseJudgement,
+} from '../prompts';
+
+export interface OpenAICompatibleConfig {
+  // e.g. http://localhost:11434 for Ollama, http://localhost:1234 for LM Studio
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+}
+
+type ChatPart = { type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } };
+type ChatContent = string | ChatPart[];
+
+// OpenAI-style `usage` object; servers that don't count tokens leave it out
+const toUsage = (json: any, fallbackModel: string): ModelUsage | null =>
+  json?.usage
+    ? { model: json.model || fallbackModel, inputTokens: json.usage.prompt_tokens ?? 0, outputTokens: json.usage.completion_tokens ?? 0 }
+    : null;
+
+/**
+ * Talks to any server exposing the OpenAI `/v1/chat/completions` API,
+ * which includes Ollama, LM Studio, llama.cpp and vLLM.
+ */
+export const createOpenAICompatibleProvider = ({ baseUrl, model, apiKey }: OpenAICompatibleConfig): TranslationProvider => {
+  const chat = async (content: ChatContent, { signal, onPartial, onUsage }: StreamOptions & UsageOptions = {}) => {
+    const response = await fetch(`${baseUrl.replace(/\/$/, '')}/v1/chat/completions`, {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        messages: [{ role: 'user', content }],
+        stream: !!onPartial,
+        // Adds a final chunk with the token counts
+        ...(onPartial ? { stream_options: { include_usage: true } } : {}),
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Local model request failed with status ${response.status}`);
+    }
+
+    if (onPartial) {
+      // Server-sent events: `data: {chunk}` lines, ending with `data: [DONE]`
+      let text = '';
+      let usage: ModelUsage | null = null;
+      await readLines(response, line => {
+        const data = line.replace(/^data:\s*/, '');
+        if (!line.startsWith('data:') || data === '[DONE]') return;
+        const chunk = JSON.parse(data);
+        usage = toUsage(chunk, model) ?? usage;
+        const delta = chunk.choices?.[0]?.delta?.content;
+        if (delta) {
+          text += delta;
+          onPartial(text);
+        }
+      });
+      if (usage) onUsage?.(usage);
+      return text.trim();
+    }
+
+    const json = await response.json();
+    const usage = toUsage(json, model);
+    if (usage) onUsage?.(usage);
+    return (json.choices?.[0]?.message?.content as string | undefined)?.trim() || "";
+  };
+
+  const unsupported = (operation: string) => async (): Promise<never> => {
+    throw new Error(`${operation} is not supported by the local model endpoint.`);
+  };
+
+  return {
+    name: 'openai',
+
+    translateText: ({ text, sourceLang, targetLang, glossary, references, ...stream }) =>
+      chat(buildTranslatePrompt(text, sourceLang, targetLang, glossary, references), stream),
+
+    translateStructured: async ({ text, sourceLang, targetLang, glossary, references, signal, onUsage }) =>
+      parseStructuredTranslation(await chat(buildStructuredTranslatePrompt(text, sourceLang, targetLang, glossary, references), { signal, onUsage })),
+
+    translateDocument: ({ content, sourceLang, targetLang, glossary, references, format, ...stream }) =>
+      chat((format === 'units' ? buildUnitsPrompt : buildDocumentPrompt)(content, sourceLang, targetLang, glossary, references), stream),
+
+    // Only images can be sent inline; PDFs need a multimodal Gemini model.
+    translateFile: async ({ data, mimeType, targetLang, glossary, onUsage }) => {
+      if (!mimeType.startsWith('image/')) {
+        throw new Error(`Files of type ${mimeType} are not supported by the local model endpoint.`);
+      }
+      return chat([
+        { type: 'image_url', image_url: { url: `data:${mimeType};base64,${data}` } },
+        { type: 'text', text: buildFilePrompt(targetLang, glossary) },
+      ], { onUsage });
+    },
+
+    // No schema support here, so the prompt asks for JSON and the answer is validated.
+    detectLanguage: async ({ text, onUsage }) => parseDetection(await chat(buildDetectPrompt(text), { onUsage })),
+
+    judgeTranslation: async ({ onUsage, ...req }) => parseJudgement(await chat(buildJudgePrompt(req), { onUsage })),
+
+    refineText: async (text, style, options) => (await chat(buildRefinePrompt(text, style), options)) || text,
+
+    generateInsights: async (data, options) => (await chat(buildInsightsPrompt(data), options)) || "No insights available.",
+
+    transcribeAudio: unsupported('Transcription'),
+
+    generateSpeech: unsupported('Speech synthesis'),
+  };
+};
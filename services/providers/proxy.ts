@@ -0,0 +1,52 @@
+import { ModelUsage, QualityJudgement, TranslationProvider, UsageOptions } from './types';
+import { postJson, postStream } from '../api';
+import { LanguageDetection, StructuredTranslation } from '../../types';
+
+// The backend adds the usage its provider reported to every response
+type WithUsage<T> = T & { usage?: ModelUsage };
+type TextResponse = WithUsage<{ text: string }>;
+
+const withUsage = <T extends { usage?: ModelUsage }>(payload: T, onUsage: UsageOptions['onUsage']) => {
+  if (payload.usage) onUsage?.(payload.usage);
+  return payload;
+};
+
+/**
+ * Browser-side provider that forwards every operation to the backend,
+ * which holds the API key and runs the real provider.
+ */
+export const createProxyProvider = (): TranslationProvider => ({
+  name: 'proxy',
+
+  // Streamed when the caller wants partial output or the ability to cancel
+  translateText: async ({ signal, onPartial, onUsage, ...req }) =>
+    signal || onPartial
+      ? postStream('/api/translate/stream', req, onPartial, signal, onUsage)
+      : withUsage(await postJson<TextResponse>('/api/translate', req), onUsage).text,
+
+  translateStructured: async ({ signal, onPartial, onUsage, ...req }) =>
+    withUsage(await postJson<WithUsage<{ translation: StructuredTranslation }>>('/api/translate/structured', req, signal), onUsage).translation,
+
+  translateDocument: async ({ signal, onPartial, onUsage, ...req }) =>
+    signal || onPartial
+      ? postStream('/api/document/stream', req, onPartial, signal, onUsage)
+      : withUsage(await postJson<TextResponse>('/api/document', req), onUsage).text,
+
+  translateFile: async ({ onUsage, ...req }) => withUsage(await postJson<TextResponse>('/api/document', req), onUsage).text,
+
+  detectLanguage: async ({ onUsage, ...req }) =>
+    withUsage(await postJson<WithUsage<{ detection: LanguageDetection }>>('/api/detect', req), onUsage).detection,
+
+  judgeTranslation: async ({ onUsage, ...req }) =>
+    withUsage(await postJson<WithUsage<{ judgement: QualityJudgement }>>('/api/quality', req), onUsage).judgement,
+
+  refineText: async (text, style, options) =>
+    withUsage(await postJson<TextResponse>('/api/refine', { text, style }), options?.onUsage).text,
+
+  generateInsights: async (data, options) =>
+    withUsage(await postJson<TextResponse>('/api/insights', { data }), options?.onUsage).text,
+
+  transcribeAudio: async ({ onUsage, ...req }) => withUsage(await postJson<TextResponse>('/api/transcribe', req), onUsage).text,
+
+  generateSpeech: async ({ onUsage, ...req }) => withUsage(await postJson<WithUsage<{ audio: string }>>('/api/speech', req), onUsage).audio,
+});
@@ -0,0 +1,17 @@
+// Reads a streamed fetch response line by line (server-sent events, NDJSON).
+export const readLines = async (response: Response, onLine: (line: string) => void) => {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop()!;
+    lines.filter(line => line.trim()).forEach(line => onLine(line.trim()));
+  }
+
+  if (buffer.trim()) onLine(buffer.trim());
+};
@@ -0,0 +1,111 @@
+import { GlossaryTerm, LanguageDetection, StructuredTranslation } from '../../types';
+
+export type RefineStyle = 'summarize' | 'polish' | 'formal' | 'casual';
+
+// A previously approved translation of similar text (from translation memory)
+export interface ReferenceTranslation {
+  source: string;
+  target: string;
+}
+
+// Streaming and cancellation for the long-running text calls
+export interface StreamOptions {
+  signal?: AbortSignal;
+  // Receives the output accumulated so far each time a chunk arrives
+  onPartial?: (text: string) => void;
+}
+
+// Token counts the model reported for one call
+export interface ModelUsage {
+  model: string;
+  inputTokens: number;
+  // Includes thinking tokens, which are billed as output
+  outputTokens: number;
+}
+
+// Providers call onUsage once the model reports usage; backends that don't report it never call it
+export interface UsageOptions {
+  onUsage?: (usage: ModelUsage) => void;
+}
+
+export interface TranslateRequest extends StreamOptions, UsageOptions {
+  text: string;
+  sourceLang: string;
+  targetLang: string;
+  // Required term translations the output must use
+  glossary?: GlossaryTerm[];
+  references?: ReferenceTranslation[];
+  // Back-translations for quality checks are not counted as translations in the admin analytics
+  purpose?: 'backTranslation';
+}
+
+export interface DocumentRequest extends StreamOptions, UsageOptions {
+  content: string;
+  sourceLang: string;
+  targetLang: string;
+  glossary?: GlossaryTerm[];
+  references?: ReferenceTranslation[];
+  // 'units': content is numbered units (⟦n⟧) that must be translated one by one,
+  // keeping markers and inline tags; see services/documentPipeline.ts
+  format?: 'text' | 'units';
+  // Shared by every segment of one document, so the admin analytics count it once
+  documentId?: string;
+}
+
+export interface FileRequest extends UsageOptions {
+  // Raw base64, without the data URL prefix
+  data: string;
+  mimeType: string;
+  targetLang: string;
+  glossary?: GlossaryTerm[];
+}
+
+export interface TranscribeRequest extends UsageOptions {
+  data: string;
+  mimeType: string;
+}
+
+export interface DetectRequest extends UsageOptions {
+  text: string;
+}
+
+export interface JudgeRequest extends UsageOptions {
+  sourceText: string;
+  translatedText: string;
+  backTranslation: string;
+  sourceLang: string;
+  targetLang: string;
+}
+
+export interface QualityJudgement {
+  // 0-100
+  score: number;
+  issues: string[];
+}
+
+export interface SpeechRequest extends UsageOptions {
+  text: string;
+  langCode: string;
+  voice?: string;
+}
+
+/**
+ * A backend capable of serving every AI operation the app uses.
+ * Speech is returned as base64 16-bit PCM, mono, 24kHz (the Gemini TTS format).
+ */
+export interface TranslationProvider {
+  readonly name: string;
+  translateText(req: TranslateRequest): Promise<string>;
+  // Not streamed; onPartial is ignored
+  translateStructured(req: TranslateRequest): Promise<StructuredTranslation>;
+  translateDocument(req: DocumentRequest): Promise<string>;
+  translateFile(req: FileRequest): Promise<string>;
+  detectLanguage(req: DetectRequest): Promise<LanguageDetection>;
+  judgeTranslation(req: JudgeRequest): Promise<QualityJudgement>;
+  refineText(text: string, style: RefineStyle, options?: UsageOptions): Promise<string>;
+  generateInsights(data: unknown, options?: UsageOptions): Promise<string>;
+  transcribeAudio(req: TranscribeRequest): Promise<string>;
+  generateSpeech(req: SpeechRequest): Promise<string>;
+}
+
+export type ProviderName = 'gemini' | 'local' | 'openai' | 'proxy';
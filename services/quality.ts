@@ -0,0 +1,101 @@
+import { QualityEstimate } from '../types';
+import { getProvider } from './providers';
+import { updateTranslation } from './storage';
+import { similarity } from './translationMemory';
+
+// Scores below this are flagged for a human reviewer.
+export const REVIEW_THRESHOLD = 70;
+
+// Long documents are judged on their opening paragraphs only.
+const SAMPLE_CHARS = 3000;
+// The similarity fallback is quadratic, so it compares a shorter prefix.
+const SIMILARITY_CHARS = 1000;
+
+export const needsReview = (quality?: QualityEstimate) => !!quality && quality.score < REVIEW_THRESHOLD;
+
+/**
+ * Picks aligned source/translation excerpts from a long text. Documents keep their
+ * paragraph structure, so matching paragraph counts are paired; otherwise both texts
+ * are cut at the same relative length.
+ */
+const sample = (source: string, translation: string) => {
+  if (source.length <= SAMPLE_CHARS) return { source, translation, sampled: false };
+
+  const sourceParagraphs = source.split(/\n\s*\n/);
+  const translatedParagraphs = translation.split(/\n\s*\n/);
+  if (sourceParagraphs.length === translatedParagraphs.length) {
+    let count = 0;
+    let length = 0;
+    while (count < sourceParagraphs.length && (count === 0 || length + sourceParagraphs[count].length <= SAMPLE_CHARS)) {
+      length += sourceParagraphs[count].length;
+      count++;
+    }
+    return {
+      source: sourceParagraphs.slice(0, count).join('\n\n'),
+      translation: translatedParagraphs.slice(0, count).join('\n\n'),
+      sampled: true,
+    };
+  }
+
+  const ratio = translation.length / source.length;
+  return {
+    source: source.slice(0, SAMPLE_CHARS),
+    translation: translation.slice(0, Math.round(SAMPLE_CHARS * ratio)),
+    sampled: true,
+  };
+};
+
+const normalize = (text: string) => text.normalize('NFC').trim().replace(/\s+/g, ' ').toLowerCase().slice(0, SIMILARITY_CHARS);
+
+/**
+ * Back-translates a result into the source language and has the model judge it.
+ * If the judge call fails, the score falls back to how similar the back-translation
+ * is to the source. Pass `recordId` to store the estimate on the history record.
+ */
+export const assessTranslation = async (
+  sourceText: string,
+  translatedText: string,
+  sourceLang: string,
+  targetLang: string,
+  recordId?: string
+): Promise<QualityEstimate> => {
+  const provider = getProvider();
+  const excerpt = sample(sourceText, translatedText);
+
+  try {
+    // A detected source has no name yet, and the back-translation needs one.
+    const originalLang = sourceLang === 'auto' || sourceLang === 'Auto'
+      ? (await provider.detectLanguage({ text: excerpt.source })).name
+      : sourceLang;
+
+    const backTranslation = await provider.translateText({
+      text: excerpt.translation,
+      sourceLang: targetLang,
+      targetLang: originalLang,
+      purpose: 'backTranslation',
+    });
+
+    let estimate: QualityEstimate;
+    try {
+      const judgement = await provider.judgeTranslation({
+        sourceText: excerpt.source,
+        translatedText: excerpt.translation,
+        backTranslation,
+        sourceLang: originalLang,
+        targetLang,
+      });
+      estimate = { ...judgement, backTranslation, method: 'judge' };
+    } catch (error) {
+      console.error("Quality judge error:", error);
+      const score = Math.round(similarity(normalize(excerpt.source), normalize(backTranslation)) * 100);
+      estimate = { score, backTranslation, issues: [], method: 'similarity' };
+    }
+    if (excerpt.sampled) estimate.sampled = true;
+
+    if (recordId) updateTranslation(recordId, { quality: estimate });
+    return estimate;
+  } catch (error) {
+    console.error("Quality check error:", error);
+    throw new Error("Failed to check translation quality.");
+  }
+};
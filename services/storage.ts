@@ -1,68 +1,359 @@
-import { TranslationRecord, AnalyticsData, LANGUAGES } from '../types';
+import { TranslationRecord, ApprovedTranslation, HistoryCollection } from '../types';
+import { ImportedRecord, recordKey } from './historyExchange';
 
+// History lives in IndexedDB, one database per owner (see MIGRATIONS for the schema).
+// The old localStorage blob is still read once, by the first migration.
+const DB_NAME = 'linguistai';
 const STORAGE_KEY = 'linguistai_history';
+const APPROVED_KEY = 'linguistai_tm_approved';
+const HISTORY_STORE = 'history';
+const FILE_STORE = 'files';
+const COLLECTION_STORE = 'collections';
 
-export const saveTranslation = (record: Omit<TranslationRecord, 'id' | 'timestamp'>) => {
-  const history = getHistory();
+// Uploads above this are not kept; the translation record is saved either way.
+export const MAX_STORED_FILE_SIZE = 5 * 1024 * 1024;
+
+export interface StoredFile {
+  recordId: string;
+  name: string;
+  type: string;
+  blob: Blob;
+}
+
+let historyOwner: string | null = null;
+let database: Promise<IDBDatabase> | null = null;
+
+const historyListeners = new Set<() => void>();
+
+// Notified after this tab adds, changes or removes records, or switches owner.
+export const onHistoryChange = (listener: () => void) => {
+  historyListeners.add(listener);
+  return () => { historyListeners.delete(listener); };
+};
+
+const notifyHistoryChange = () => historyListeners.forEach(listener => listener());
+
+// Signed-in users get their own history; signed-out use keeps the shared key.
+const ownedKey = (key: string) => historyOwner ? `${key}:${historyOwner}` : key;
+
+export const setHistoryOwner = (userId: string | null) => {
+  if (userId === historyOwner) return;
+  historyOwner = userId;
+  database?.then(db => db.close()).catch(() => {});
+  database = null;
+  notifyHistoryChange();
+};
+
+// Document records saved before full storage only kept the first 100 characters.
+const fromLegacy = (record: TranslationRecord): TranslationRecord =>
+  record.type === 'document' && (record.sourceText.endsWith('...') || record.translatedText.endsWith('...'))
+    ? { ...record, truncated: true }
+    : record;
+
+/**
+ * Schema upgrades, applied in order from the database's current version. Append a new
+ * entry for every schema change and never edit a shipped one.
+ */
+const MIGRATIONS: ((db: IDBDatabase, tx: IDBTransaction, legacyKey: string) => void)[] = [
+  // 1: history with its indexes and the file store, seeded from localStorage
+  (db, tx, legacyKey) => {
+    const history = db.createObjectStore(HISTORY_STORE, { keyPath: 'id' });
+    history.createIndex('timestamp', 'timestamp');
+    history.createIndex('sourceLang', 'sourceLang');
+    history.createIndex('targetLang', 'targetLang');
+    history.createIndex('type', 'type');
+    db.createObjectStore(FILE_STORE, { keyPath: 'recordId' });
+
+    const stored = localStorage.getItem(legacyKey);
+    if (!stored) return;
+    try {
+      (JSON.parse(stored) as TranslationRecord[]).forEach(record => history.put(fromLegacy(record)));
+      tx.addEventListener('complete', () => localStorage.removeItem(legacyKey));
+    } catch (error) {
+      // An unreadable blob stays in localStorage rather than being lost
+      console.error("History migration error:", error);
+    }
+  },
+  // 2: tags, collections
+  (db, tx) => {
+    const history = tx.objectStore(HISTORY_STORE);
+    history.createIndex('tags', 'tags', { multiEntry: true });
+    history.createIndex('collectionId', 'collectionId');
+    db.createObjectStore(COLLECTION_STORE, { keyPath: 'id' });
+  },
+];
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const completion = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new DOMException('Transaction aborted', 'AbortError'));
+  });
+
+const openDatabase = () => {
+  if (!database) {
+    const legacyKey = ownedKey(STORAGE_KEY);
+    const request = indexedDB.open(ownedKey(DB_NAME), MIGRATIONS.length);
+    request.onupgradeneeded = (event) => {
+      for (let version = event.oldVersion; version < MIGRATIONS.length; version++) {
+        MIGRATIONS[version](request.result, request.transaction!, legacyKey);
+      }
+    };
+    database = promisify(request).then(db => {
+      // Let a newer version open in another tab upgrade the schema
+      db.onversionchange = () => {
+        db.close();
+        database = null;
+      };
+      return db;
+    });
+    database.catch(() => {
+      database = null;
+    });
+  }
+  return database;
+};
+
+const isQuotaError = (error: unknown) =>
+  error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+// Stored files take most of the space, so they are dropped when the quota is hit.
+const evictFiles = async (db: IDBDatabase) => {
+  const records = await promisify(db.transaction(HISTORY_STORE).objectStore(HISTORY_STORE).index('timestamp').getAll());
+  const withFiles = records.filter((r: TranslationRecord) => r.fileName);
+  if (withFiles.length === 0) return false;
+
+  const tx = db.transaction([HISTORY_STORE, FILE_STORE], 'readwrite');
+  withFiles.forEach((record: TranslationRecord) => {
+    tx.objectStore(FILE_STORE).delete(record.id);
+    tx.objectStore(HISTORY_STORE).put({ ...record, fileName: undefined });
+  });
+  await completion(tx);
+  return true;
+};
+
+const putRecord = async (db: IDBDatabase, record: TranslationRecord, file?: StoredFile) => {
+  const tx = db.transaction([HISTORY_STORE, FILE_STORE], 'readwrite');
+  tx.objectStore(HISTORY_STORE).put(record);
+  if (file) tx.objectStore(FILE_STORE).put(file);
+  await completion(tx);
+};
+
+/**
+ * Saves a translation with its full source and output, and the uploaded file when it
+ * is small enough. Never rejects: when storage is full, stored files are dropped first,
+ * then the record; when IndexedDB is unavailable, the translation is simply not kept.
+ */
+export const saveTranslation = async (
+  record: Omit<TranslationRecord, 'id' | 'timestamp'>,
+  file?: File
+): Promise<TranslationRecord> => {
   const newRecord: TranslationRecord = {
     ...record,
+    ...(historyOwner ? { userId: historyOwner } : {}),
     id: crypto.randomUUID(),
     timestamp: Date.now(),
   };
-  history.unshift(newRecord);
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(history));
+  const keepFile = file && file.size <= MAX_STORED_FILE_SIZE;
+  const stored: StoredFile | undefined = keepFile
+    ? { recordId: newRecord.id, name: file.name, type: file.type, blob: file }
+    : undefined;
+  if (stored) newRecord.fileName = file.name;
+
+  try {
+    const db = await openDatabase();
+    try {
+      await putRecord(db, newRecord, stored);
+    } catch (error) {
+      if (!isQuotaError(error)) throw error;
+      // Keep the text, then make room by dropping older files
+      const { fileName, ...withoutFile } = newRecord;
+      try {
+        await putRecord(db, withoutFile);
+      } catch (retryError) {
+        if (!isQuotaError(retryError) || !(await evictFiles(db))) throw retryError;
+        await putRecord(db, withoutFile);
+      }
+      notifyHistoryChange();
+      console.warn("History storage is full; the uploaded file was not kept.");
+      return withoutFile;
+    }
+    notifyHistoryChange();
+  } catch (error) {
+    console.error(isQuotaError(error) ? "History storage is full; the translation was not saved." : "History save error:", error);
+  }
   return newRecord;
 };
 
-export const getHistory = (): TranslationRecord[] => {
-  const stored = localStorage.getItem(STORAGE_KEY);
-  return stored ? JSON.parse(stored) : [];
+// Used when the user picks a different alternative after the record was saved.
+export const updateTranslation = async (id: string, changes: Partial<Omit<TranslationRecord, 'id'>>) => {
+  try {
+    const db = await openDatabase();
+    const tx = db.transaction(HISTORY_STORE, 'readwrite');
+    const store = tx.objectStore(HISTORY_STORE);
+    const record = await promisify<TranslationRecord | undefined>(store.get(id));
+    if (record) store.put({ ...record, ...changes });
+    await completion(tx);
+    notifyHistoryChange();
+  } catch (error) {
+    console.error("History update error:", error);
+  }
+};
+
+/** All records, newest first. */
+export const getHistory = async (): Promise<TranslationRecord[]> => {
+  try {
+    const db = await openDatabase();
+    const records = await promisify(db.transaction(HISTORY_STORE).objectStore(HISTORY_STORE).index('timestamp').getAll());
+    return (records as TranslationRecord[]).reverse();
+  } catch (error) {
+    console.error("History load error:", error);
+    return [];
+  }
+};
+
+/** The uploaded file a document translation was made from, if it was kept. */
+export const getTranslationFile = async (recordId: string): Promise<StoredFile | undefined> => {
+  const db = await openDatabase();
+  return promisify(db.transaction(FILE_STORE).objectStore(FILE_STORE).get(recordId));
+};
+
+export const getTranslation = async (id: string): Promise<TranslationRecord | undefined> => {
+  const db = await openDatabase();
+  return promisify(db.transaction(HISTORY_STORE).objectStore(HISTORY_STORE).get(id));
 };
 
-export const clearHistory = () => {
-  localStorage.removeItem(STORAGE_KEY);
+// Unlike updateTranslation, the organizing actions below reject so the page can say it failed.
+const patchTranslation = async (id: string, changes: Partial<Omit<TranslationRecord, 'id'>>) => {
+  const db = await openDatabase();
+  const tx = db.transaction(HISTORY_STORE, 'readwrite');
+  const store = tx.objectStore(HISTORY_STORE);
+  const record = await promisify<TranslationRecord | undefined>(store.get(id));
+  if (!record) throw new Error('Translation not found');
+  const updated = { ...record, ...changes };
+  store.put(updated);
+  await completion(tx);
+  notifyHistoryChange();
+  return updated;
 };
 
-export const getAnalytics = (): AnalyticsData => {
-  const history = getHistory();
-  const totalTranslations = history.length;
+export const setFavorite = (id: string, favorite: boolean) =>
+  patchTranslation(id, { favorite: favorite || undefined });
 
-  // Language Distribution
-  const langCounts: Record<string, number> = {};
-  history.forEach(rec => {
-    const key = LANGUAGES.find(l => l.code === rec.targetLang)?.name || rec.targetLang;
-    langCounts[key] = (langCounts[key] || 0) + 1;
+/** Replaces a record's tags; blanks and case-insensitive duplicates are dropped. */
+export const setTags = (id: string, tags: string[]) => {
+  const cleaned: string[] = [];
+  tags.map(t => t.trim()).forEach(tag => {
+    if (tag && !cleaned.some(t => t.toLowerCase() === tag.toLowerCase())) cleaned.push(tag);
   });
+  return patchTranslation(id, { tags: cleaned.length ? cleaned : undefined });
+};
 
-  const languageDistribution = Object.entries(langCounts).map(([name, value]) => ({
-    name,
-    value,
-  }));
-
-  // Daily Activity (Last 7 days)
-  const days: Record<string, number> = {};
-  const now = new Date();
-  for (let i = 6; i >= 0; i--) {
-    const d = new Date(now);
-    d.setDate(d.getDate() - i);
-    days[d.toISOString().split('T')[0]] = 0;
-  }
+export const setCollection = (id: string, collectionId: string | undefined) =>
+  patchTranslation(id, { collectionId });
 
-  history.forEach(rec => {
-    const date = new Date(rec.timestamp).toISOString().split('T')[0];
-    if (days[date] !== undefined) {
-      days[date]++;
-    }
+export const deleteTranslation = async (id: string) => {
+  const db = await openDatabase();
+  const tx = db.transaction([HISTORY_STORE, FILE_STORE], 'readwrite');
+  tx.objectStore(HISTORY_STORE).delete(id);
+  tx.objectStore(FILE_STORE).delete(id);
+  await completion(tx);
+  notifyHistoryChange();
+};
+
+/**
+ * Adds imported records, skipping any whose texts and language pair are already in
+ * history (or earlier in the same import). Imported records keep their timestamps.
+ */
+export const importTranslations = async (records: ImportedRecord[]) => {
+  const seen = new Set((await getHistory()).map(recordKey));
+  const added: TranslationRecord[] = [];
+  records.forEach(record => {
+    const key = recordKey(record);
+    if (seen.has(key)) return;
+    seen.add(key);
+    added.push({ ...record, ...(historyOwner ? { userId: historyOwner } : {}), id: crypto.randomUUID() });
   });
 
-  const dailyActivity = Object.entries(days).map(([date, count]) => ({
-    date,
-    count,
-  }));
+  if (added.length) {
+    const db = await openDatabase();
+    const tx = db.transaction(HISTORY_STORE, 'readwrite');
+    added.forEach(record => tx.objectStore(HISTORY_STORE).put(record));
+    await completion(tx);
+    notifyHistoryChange();
+  }
+  return { added: added.length, skipped: records.length - added.length };
+};
 
-  return {
-    totalTranslations,
-    languageDistribution,
-    dailyActivity,
-  };
-};
\ No newline at end of file
+export const clearHistory = async () => {
+  const db = await openDatabase();
+  const tx = db.transaction([HISTORY_STORE, FILE_STORE], 'readwrite');
+  tx.objectStore(HISTORY_STORE).clear();
+  tx.objectStore(FILE_STORE).clear();
+  await completion(tx);
+  notifyHistoryChange();
+};
+
+// --- Collections ---
+
+export const getCollections = async (): Promise<HistoryCollection[]> => {
+  const db = await openDatabase();
+  const collections: HistoryCollection[] = await promisify(db.transaction(COLLECTION_STORE).objectStore(COLLECTION_STORE).getAll());
+  return collections.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const createCollection = async (name: string): Promise<HistoryCollection> => {
+  const collection: HistoryCollection = { id: crypto.randomUUID(), name: name.trim(), createdAt: Date.now() };
+  if (!collection.name) throw new Error('Collection name is required');
+  const db = await openDatabase();
+  const tx = db.transaction(COLLECTION_STORE, 'readwrite');
+  tx.objectStore(COLLECTION_STORE).put(collection);
+  await completion(tx);
+  return collection;
+};
+
+export const renameCollection = async (id: string, name: string) => {
+  if (!name.trim()) throw new Error('Collection name is required');
+  const db = await openDatabase();
+  const tx = db.transaction(COLLECTION_STORE, 'readwrite');
+  const store = tx.objectStore(COLLECTION_STORE);
+  const collection = await promisify<HistoryCollection | undefined>(store.get(id));
+  if (!collection) throw new Error('Collection not found');
+  store.put({ ...collection, name: name.trim() });
+  await completion(tx);
+};
+
+// The records stay in history, just outside any collection.
+export const deleteCollection = async (id: string) => {
+  const db = await openDatabase();
+  const tx = db.transaction([COLLECTION_STORE, HISTORY_STORE], 'readwrite');
+  tx.objectStore(COLLECTION_STORE).delete(id);
+  const history = tx.objectStore(HISTORY_STORE);
+  const members = await promisify<TranslationRecord[]>(history.index('collectionId').getAll(id));
+  members.forEach(({ collectionId, ...record }) => history.put(record));
+  await completion(tx);
+};
+
+// --- Translation memory: user-approved edits ---
+
+export const getApprovedTranslations = (): ApprovedTranslation[] => {
+  const stored = localStorage.getItem(ownedKey(APPROVED_KEY));
+  return stored ? JSON.parse(stored) : [];
+};
+
+// Approving the same source again for a pair replaces the earlier approval.
+export const saveApprovedTranslation = (entry: Omit<ApprovedTranslation, 'id' | 'timestamp'>) => {
+  const approved = getApprovedTranslations().filter(a =>
+    !(a.sourceText === entry.sourceText && a.sourceLang === entry.sourceLang && a.targetLang === entry.targetLang)
+  );
+  const newEntry: ApprovedTranslation = { ...entry, id: crypto.randomUUID(), timestamp: Date.now() };
+  approved.unshift(newEntry);
+  localStorage.setItem(ownedKey(APPROVED_KEY), JSON.stringify(approved));
+  return newEntry;
+};
@@ -0,0 +1,196 @@
+import { parseCsv, toCsv } from './csv';
+
+// Structure-aware handling of JSON and CSV uploads: only string values (JSON) or
+// selected columns (CSV) are sent for translation, and the rebuilt file is parsed
+// again and compared with the original before it is offered for download.
+
+export interface StructuredOutput {
+  text: string;
+  // Differences between the rebuilt file and the original structure; empty when valid
+  problems: string[];
+  // Entries left untranslated or flagged for a human to check (localization, subtitle and markup files)
+  review?: string[];
+}
+
+export type StructuredFormat = 'json' | 'csv' | 'po' | 'xliff' | 'i18next' | 'android' | 'srt' | 'vtt' | 'markdown' | 'html';
+
+export interface StructuredFile {
+  format: StructuredFormat;
+  mimeType: string;
+  // Text to translate, in file order
+  units: string[];
+  build: (translations: string[]) => StructuredOutput;
+}
+
+type JsonPath = (string | number)[];
+
+const MAX_REPORTED_PROBLEMS = 20;
+
+// Identifiers, numbers, URLs and the like are left as they are.
+export const isTranslatable = (value: string) =>
+  /\p{L}/u.test(value) &&
+  !/^(https?:\/\/|mailto:)\S+$/i.test(value.trim()) &&
+  !/^[\w.-]*[\d_][\w.-]*$/.test(value.trim());
+
+// The model output is trimmed, so the original padding is put back.
+export const keepPadding = (original: string, translated: string) => {
+  const [, leading, , trailing] = original.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+  return leading + translated.trim() + trailing;
+};
+
+const formatPath = (path: JsonPath) =>
+  '$' + path.map(p => (typeof p === 'number' ? `[${p}]` : `.${p}`)).join('');
+
+// --- JSON ---
+
+const collectStrings = (value: unknown, path: JsonPath, found: JsonPath[]) => {
+  if (typeof value === 'string') {
+    if (isTranslatable(value)) found.push(path);
+  } else if (Array.isArray(value)) {
+    value.forEach((item, i) => collectStrings(item, [...path, i], found));
+  } else if (value && typeof value === 'object') {
+    Object.entries(value).forEach(([key, item]) => collectStrings(item, [...path, key], found));
+  }
+};
+
+const getAt = (value: any, path: JsonPath) => path.reduce((node, key) => node[key], value);
+
+const setAt = (value: any, path: JsonPath, text: string) => {
+  const parent = getAt(value, path.slice(0, -1));
+  parent[path[path.length - 1]] = text;
+};
+
+const jsonType = (value: unknown) => (value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value);
+
+const compareJson = (original: unknown, output: unknown, path: JsonPath, translated: Set<string>, problems: string[]) => {
+  const where = formatPath(path);
+  if (jsonType(original) !== jsonType(output)) {
+    problems.push(`${where}: expected ${jsonType(original)}, got ${jsonType(output)}`);
+  } else if (Array.isArray(original)) {
+    const items = output as unknown[];
+    if (items.length !== original.length) {
+      problems.push(`${where}: expected ${original.length} items, got ${items.length}`);
+    }
+    original.forEach((item, i) => i < items.length && compareJson(item, items[i], [...path, i], translated, problems));
+  } else if (original && typeof original === 'object') {
+    const originalKeys = Object.keys(original);
+    const outputKeys = Object.keys(output as object);
+    if (originalKeys.join('\u0000') !== outputKeys.join('\u0000')) {
+      problems.push(`${where}: keys changed`);
+    }
+    originalKeys.forEach(key => {
+      if (key in (output as object)) {
+        compareJson((original as any)[key], (output as any)[key], [...path, key], translated, problems);
+      }
+    });
+  } else if (original !== output && !translated.has(where)) {
+    problems.push(`${where}: value changed`);
+  }
+};
+
+export const detectIndent = (text: string): string | number => {
+  const match = text.match(/^\s*[[{]\s*?\n([ \t]+)\S/);
+  if (match) return match[1];
+  return /\n/.test(text.trim()) ? 2 : 0;
+};
+
+/** Throws if the text is not valid JSON. */
+export const parseJsonFile = (text: string): StructuredFile => {
+  const data = JSON.parse(text);
+  const paths: JsonPath[] = [];
+  collectStrings(data, [], paths);
+  const indent = detectIndent(text);
+  const trailingNewline = /\n$/.test(text);
+
+  return {
+    format: 'json',
+    mimeType: 'application/json',
+    units: paths.map(path => getAt(data, path)),
+    build: (translations) => {
+      const copy = JSON.parse(text);
+      paths.forEach((path, i) => setAt(copy, path, keepPadding(getAt(data, path), translations[i] ?? '')));
+      const output = JSON.stringify(copy, null, indent) + (trailingNewline ? '\n' : '');
+
+      const problems: string[] = [];
+      try {
+        compareJson(data, JSON.parse(output), [], new Set(paths.map(formatPath)), problems);
+      } catch (error) {
+        problems.push(`Output is not valid JSON: ${(error as Error).message}`);
+      }
+      return { text: output, problems: problems.slice(0, MAX_REPORTED_PROBLEMS) };
+    },
+  };
+};
+
+// --- CSV ---
+
+const detectDelimiter = (text: string) => {
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  const counts = [',', ';', '\t'].map(d => ({ d, n: firstLine.split(d).length - 1 }));
+  return counts.sort((a, b) => b.n - a.n)[0].n > 0 ? counts[0].d : ',';
+};
+
+export interface CsvColumns {
+  names: string[];
+  // Columns that hold prose rather than ids or numbers; selected by default
+  suggested: number[];
+}
+
+// The first row is treated as a header and never translated.
+export const getCsvColumns = (text: string): CsvColumns => {
+  const [header = [], ...rows] = parseCsv(text, detectDelimiter(text));
+  return {
+    names: header.map((name, i) => name || `Column ${i + 1}`),
+    suggested: header
+      .map((_, i) => i)
+      .filter(i => rows.some(row => isTranslatable(row[i] ?? '')) && rows.every(row => !/^[\d.,%$-]+$/.test(row[i] ?? ''))),
+  };
+};
+
+export const parseCsvFile = (text: string, columns: number[]): StructuredFile => {
+  const delimiter = detectDelimiter(text);
+  const lineBreak = text.includes('\r\n') ? '\r\n' : '\n';
+  const trailingNewline = /\r?\n$/.test(text);
+  const rows = parseCsv(text, delimiter);
+
+  const cells: [number, number][] = [];
+  rows.forEach((row, r) => {
+    if (r === 0) return;
+    columns.forEach(c => {
+      if (isTranslatable(row[c] ?? '')) cells.push([r, c]);
+    });
+  });
+  const translated = new Set(cells.map(([r, c]) => `${r}:${c}`));
+
+  return {
+    format: 'csv',
+    mimeType: 'text/csv',
+    units: cells.map(([r, c]) => rows[r][c]),
+    build: (translations) => {
+      const copy = rows.map(row => [...row]);
+      cells.forEach(([r, c], i) => {
+        copy[r][c] = keepPadding(rows[r][c], translations[i] ?? '');
+      });
+      const output = toCsv(copy, delimiter, lineBreak) + (trailingNewline ? lineBreak : '');
+
+      const problems: string[] = [];
+      const reparsed = parseCsv(output, delimiter);
+      if (reparsed.length !== rows.length) {
+        problems.push(`Expected ${rows.length} rows, got ${reparsed.length}`);
+      }
+      rows.forEach((row, r) => {
+        const outRow = reparsed[r] ?? [];
+        if (outRow.length !== row.length) {
+          problems.push(`Row ${r + 1}: expected ${row.length} fields, got ${outRow.length}`);
+          return;
+        }
+        row.forEach((value, c) => {
+          if (!translated.has(`${r}:${c}`) && outRow[c] !== value) {
+            problems.push(`Row ${r + 1}, column ${c + 1}: value changed`);
+          }
+        });
+      });
+      return { text: output, problems: problems.slice(0, MAX_REPORTED_PROBLEMS) };
+    },
+  };
+};
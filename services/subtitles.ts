@@ -0,0 +1,103 @@
+import { StructuredFile } from './structuredData';
+
+// SRT and WebVTT subtitles. Cue numbers, identifiers, timestamps, cue settings and
+// non-cue blocks (WEBVTT header, NOTE, STYLE, REGION) are copied verbatim; only cue
+// text is translated, one unit per cue.
+
+// Comfortable reading speed for most viewers; faster cues are flagged.
+export const MAX_CHARS_PER_SECOND = 17;
+
+const TIMESTAMP = /(?:(\d+):)?(\d{1,2}):(\d{2})[,.](\d{3})/;
+// Positioning and speaker tags at the start of a cue: {\an8}, <v Speaker>
+const LEADING_TAGS = /^(?:\s*(?:\{\\[^}]*\}|<v[ .][^>]*>))+/;
+// A tag pair wrapping the whole cue, e.g. <i>...</i>
+const WRAPPER = /^(<(\w+)[^>]*>)([\s\S]*)(<\/\2>)$/;
+const INLINE_TAG = /<[^>]+>|\{\\[^}]*\}/g;
+
+interface Cue {
+  block: number;
+  // Index/identifier and timing lines
+  head: string[];
+  leading: string;
+  text: string;
+  trailing: string;
+  seconds: number;
+}
+
+const toSeconds = (timestamp: string) => {
+  const [, h = '0', m, s, ms] = timestamp.match(TIMESTAMP)!;
+  return Number(h) * 3600 + Number(m) * 60 + Number(s) + Number(ms) / 1000;
+};
+
+// Combining marks (Devanagari and Sinhala vowel signs, viramas) do not add reading time.
+const visibleLength = (text: string) => text.replace(INLINE_TAG, '').replace(/\p{M}|\s/gu, '').length;
+
+const sortedTags = (text: string) => (text.match(INLINE_TAG) || []).sort().join('');
+
+export const parseSubtitleFile = (text: string, format: 'srt' | 'vtt'): StructuredFile => {
+  const lineBreak = text.includes('\r\n') ? '\r\n' : '\n';
+  const normalized = text.replace(/^\uFEFF/, '').replace(/\r\n/g, '\n');
+  const ending = normalized.match(/\s*$/)![0];
+  const blocks = normalized.slice(0, normalized.length - ending.length).split(/\n[ \t]*\n/);
+  const cues: Cue[] = [];
+
+  blocks.forEach((block, index) => {
+    const lines = block.split('\n');
+    const timing = lines.findIndex(line => line.includes('-->'));
+    if (timing === -1 || /^(NOTE|STYLE|REGION)\b/.test(lines[0])) return;
+
+    const [start, end] = lines[timing].split('-->');
+    const body = lines.slice(timing + 1).join('\n');
+    let leading = body.match(LEADING_TAGS)?.[0] ?? '';
+    let rest = body.slice(leading.length);
+    let trailing = '';
+    const wrapper = rest.match(WRAPPER);
+    if (wrapper && !wrapper[3].includes(wrapper[4])) {
+      leading += wrapper[1];
+      rest = wrapper[3];
+      trailing = wrapper[4];
+    }
+
+    if (!TIMESTAMP.test(start) || !TIMESTAMP.test(end)) return;
+    cues.push({
+      block: index,
+      head: lines.slice(0, timing + 1),
+      leading,
+      text: rest,
+      trailing,
+      seconds: toSeconds(end) - toSeconds(start),
+    });
+  });
+
+  const pending = cues.filter(cue => cue.text.trim() !== '');
+
+  return {
+    format,
+    mimeType: format === 'srt' ? 'application/x-subrip' : 'text/vtt',
+    units: pending.map(cue => cue.text),
+    build: (translations) => {
+      const output = [...blocks];
+      const review: string[] = [];
+
+      pending.forEach((cue, i) => {
+        const label = `Cue ${cue.head.length > 1 ? cue.head[0] : cues.indexOf(cue) + 1}`;
+        let translated = (translations[i] ?? '').trim() || cue.text;
+
+        // Styling inside a cue is only kept if the model returned exactly the same tags.
+        if (sortedTags(translated) !== sortedTags(cue.text)) {
+          translated = translated.replace(INLINE_TAG, '');
+          review.push(`${label}: inline styling could not be kept`);
+        }
+
+        const rate = visibleLength(translated) / Math.max(cue.seconds, 0.001);
+        if (rate > MAX_CHARS_PER_SECOND) {
+          review.push(`${label}: ${Math.round(rate)} characters/second over ${cue.seconds.toFixed(1)}s (max ${MAX_CHARS_PER_SECOND})`);
+        }
+
+        output[cue.block] = [...cue.head, cue.leading + translated + cue.trailing].join('\n');
+      });
+
+      return { text: (output.join('\n\n') + ending).replace(/\n/g, lineBreak), problems: [], review };
+    },
+  };
+};
@@ -0,0 +1,133 @@
+import { MemoryMatch, TranslationRecord } from '../types';
+import { getApprovedTranslations, getHistory, onHistoryChange, saveApprovedTranslation } from './storage';
+import { toLangCode } from './glossary';
+
+// Fuzzy scoring is quadratic in length; longer texts only ever match exactly.
+const MAX_FUZZY_LENGTH = 2000;
+const MAX_DOCUMENT_REFERENCES = 10;
+
+const normalize = (text: string) => text.normalize('NFC').trim().replace(/\s+/g, ' ').toLowerCase();
+
+/**
+ * Levenshtein similarity over Unicode code points, so Devanagari and Sinhala
+ * combining marks count as single edits. Returns 0-1.
+ */
+export const similarity = (a: string, b: string) => {
+  const x = Array.from(a);
+  const y = Array.from(b);
+  if (x.length === 0 && y.length === 0) return 1;
+
+  let previous = Array.from({ length: y.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= x.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= y.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (x[i - 1] === y[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return 1 - previous[y.length] / Math.max(x.length, y.length);
+};
+
+// Uploaded files have no source text, migrated document records only hold an excerpt,
+// and partial records hold a translation that was stopped midway.
+const isReusable = (record: TranslationRecord) => !!record.sourceText && !record.truncated && !record.partial;
+
+type Candidate = Omit<MemoryMatch, 'score'>;
+
+const toCandidate = ({ sourceText, translatedText }: Pick<Candidate, 'sourceText' | 'translatedText'>, origin: Candidate['origin']) =>
+  ({ sourceText, translatedText, origin });
+
+// Reusable history by language pair, so a document's segments share one history read.
+// Rebuilt after history changes in this tab.
+let historyCandidates: Promise<Map<string, Candidate[]>> | null = null;
+onHistoryChange(() => { historyCandidates = null; });
+
+const pairKey = (sourceLang: string, targetLang: string) => `${toLangCode(sourceLang)}\u0000${toLangCode(targetLang)}`;
+
+const loadHistoryCandidates = async () => {
+  const byPair = new Map<string, Candidate[]>();
+  (await getHistory()).filter(isReusable).forEach(record => {
+    const key = pairKey(record.sourceLang, record.targetLang);
+    if (!byPair.has(key)) byPair.set(key, []);
+    byPair.get(key)!.push(toCandidate(record, 'history'));
+  });
+  return byPair;
+};
+
+const getCandidates = async (sourceLang: string, targetLang: string): Promise<Candidate[]> => {
+  const key = pairKey(sourceLang, targetLang);
+  if (!historyCandidates) historyCandidates = loadHistoryCandidates();
+  const history = (await historyCandidates).get(key) ?? [];
+
+  // Approved edits come first so they win ties against raw model output.
+  return [
+    ...getApprovedTranslations().filter(a => pairKey(a.sourceLang, a.targetLang) === key).map(a => toCandidate(a, 'approved')),
+    ...history,
+  ];
+};
+
+const scoreCandidates = (text: string, candidates: Candidate[], threshold: number): MemoryMatch[] => {
+  const query = normalize(text);
+  const seen = new Set<string>();
+  const matches: MemoryMatch[] = [];
+
+  candidates.forEach(candidate => {
+    const key = normalize(candidate.sourceText);
+    if (seen.has(key)) return;
+
+    let score = 0;
+    if (key === query) {
+      score = 1;
+    } else if (query.length <= MAX_FUZZY_LENGTH && key.length <= MAX_FUZZY_LENGTH) {
+      // Similarity can never exceed the length ratio, so skip hopeless candidates cheaply.
+      const lengthRatio = Math.min(key.length, query.length) / Math.max(key.length, query.length, 1);
+      if (lengthRatio >= threshold) score = similarity(query, key);
+    }
+
+    if (score >= threshold) {
+      seen.add(key);
+      matches.push({ ...candidate, score });
+    }
+  });
+
+  // Stable sort keeps approved entries ahead of history at equal scores.
+  return matches.sort((a, b) => b.score - a.score);
+};
+
+export const findMemoryMatches = async (
+  text: string,
+  sourceLang: string,
+  targetLang: string,
+  threshold: number,
+  limit = 3
+): Promise<MemoryMatch[]> => scoreCandidates(text, await getCandidates(sourceLang, targetLang), threshold).slice(0, limit);
+
+/**
+ * Best match per paragraph, for documents too long to match as a whole.
+ * Returns the matches to use as references and the best paragraph score.
+ */
+export const findDocumentReferences = async (
+  content: string,
+  sourceLang: string,
+  targetLang: string,
+  threshold: number
+) => {
+  const candidates = await getCandidates(sourceLang, targetLang);
+  const references: MemoryMatch[] = [];
+
+  for (const paragraph of content.split(/\n\s*\n/)) {
+    if (!paragraph.trim()) continue;
+    const [best] = scoreCandidates(paragraph, candidates, threshold);
+    if (best) references.push(best);
+    if (references.length >= MAX_DOCUMENT_REFERENCES) break;
+  }
+
+  return references;
+};
+
+export const approveTranslation = (sourceText: string, translatedText: string, sourceLang: string, targetLang: string) =>
+  saveApprovedTranslation({ sourceText, translatedText, sourceLang, targetLang });
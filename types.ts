@@ -6,12 +6,150 @@ export interface TranslationRecord {
   targetLang: string;
   timestamp: number;
   type: 'text' | 'document' | 'voice';
+  // Owner of the record; absent for translations made while signed out
+  userId?: string;
+  // The translation was stopped before it finished; translatedText is what had arrived
+  partial?: boolean;
+  // Ambiguous terms or idioms the model flagged (structured translations only)
+  notes?: TranslatorNote[];
+  quality?: QualityEstimate;
+  // Name of the uploaded file, when the file itself is stored with the record
+  fileName?: string;
+  // Migrated document record that only kept the first 100 characters
+  truncated?: boolean;
+  // Time from request to finished translation
+  durationMs?: number;
+  favorite?: boolean;
+  // Free-form labels, compared case-insensitively
+  tags?: string[];
+  collectionId?: string;
 }
 
+// A named group of history records; each record is in at most one collection
+export interface HistoryCollection {
+  id: string;
+  name: string;
+  createdAt: number;
+}
+
+export interface GlossaryEntry {
+  id: string;
+  // Language codes from the language registry
+  sourceLang: string;
+  targetLang: string;
+  source: string;
+  target: string;
+  caseSensitive: boolean;
+  note?: string;
+  updatedAt: number;
+}
+
+// The part of a glossary entry a model needs to honour it
+export type GlossaryTerm = Pick<GlossaryEntry, 'source' | 'target' | 'caseSensitive'>;
+
+export interface GlossaryIssue {
+  source: string;
+  target: string;
+}
+
+// A user-approved translation kept in the translation memory
+export interface ApprovedTranslation {
+  id: string;
+  sourceText: string;
+  translatedText: string;
+  sourceLang: string;
+  targetLang: string;
+  timestamp: number;
+}
+
+export interface MemoryMatch {
+  sourceText: string;
+  translatedText: string;
+  // Similarity to the query, 0-1
+  score: number;
+  origin: 'history' | 'approved';
+}
+
+export interface MemoryMatchSummary {
+  // Best similarity found, 0-1; 1 means the translation was reused without calling the model
+  score: number;
+  exact: boolean;
+  // Fuzzy matches sent to the model as reference translations
+  references: number;
+}
+
+export interface TranslationAlternative {
+  text: string;
+  // Short description such as 'formal' or 'conversational'
+  tone: string;
+}
+
+export interface TranslatorNote {
+  // The source term or idiom the note is about
+  term: string;
+  note: string;
+}
+
+// A translation with alternatives and notes, as returned by the structured-output call
+export interface StructuredTranslation {
+  primary: string;
+  alternatives: TranslationAlternative[];
+  notes: TranslatorNote[];
+}
+
+export interface TranslationResult {
+  text: string;
+  // Glossary terms present in the source whose required translation is missing from the output
+  glossaryIssues: GlossaryIssue[];
+  memoryMatch?: MemoryMatchSummary;
+  // Only for structured text translations
+  alternatives?: TranslationAlternative[];
+  notes?: TranslatorNote[];
+  // History record the result was saved as, so a different choice can be recorded later
+  recordId?: string;
+}
+
+export interface LanguageDetection {
+  // ISO 639-1 code, e.g. 'ne'; may be a language missing from the registry, such as 'mr'
+  code: string;
+  // English name, used in prompts when the code is not in the registry
+  name: string;
+  // ISO 15924 script code, e.g. 'Deva', 'Sinh', 'Latn'
+  script: string;
+  // 0..1
+  confidence: number;
+}
+
+// Model-judged quality of a translation, checked against a back-translation
+export interface QualityEstimate {
+  // 0-100
+  score: number;
+  // The translation translated back into the source language
+  backTranslation: string;
+  issues: string[];
+  // 'similarity': the judge was unavailable, so the score is the back-translation's similarity to the source
+  method: 'judge' | 'similarity';
+  // Only the start of a long text was checked
+  sampled?: boolean;
+}
+
+export type TextDirection = 'ltr' | 'rtl';
+
 export interface Language {
+  // ISO 639-1 code, also used as the registry key
   code: string;
+  // English name; this is what prompts and history records use
   name: string;
   flag: string;
+  // ISO 15924 script code, e.g. 'Deva', 'Sinh', 'Arab'
+  script: string;
+  direction: TextDirection;
+  // CSS font-family for text in this language; unset uses the page font
+  font?: string;
+  // Gemini prebuilt voice for speech in this language; unset uses the user's voice preference
+  voice?: string;
+  // Disabled languages stay in the registry (and in old history) but are not offered in dropdowns
+  enabled: boolean;
 }
 
 export enum UserRole {
@@ -19,19 +157,151 @@ export enum UserRole {
   ADMIN = 'ADMIN'
 }
 
+export interface AuthUser {
+  id: string;
+  username: string;
+  role: UserRole;
+}
+
+export interface UserPreferences {
+  sourceLang: string;
+  targetLang: string;
+  voice: string;
+  // Minimum similarity (0-1) for a translation memory match to be reused as a reference
+  tmThreshold: number;
+  // Run a back-translation and quality check after every text and document translation
+  qualityCheck: boolean;
+}
+
+export interface UserSummary {
+  id: string;
+  username: string;
+  role: UserRole;
+  createdAt: number;
+  requests: number;
+  lastActiveAt: number | null;
+}
+
+// One translation request, or failed attempt, as logged by the server for analytics (see server/analytics.ts)
+export interface TranslationEvent {
+  id: string;
+  // When the request finished
+  timestamp: number;
+  // Signed-in user who translated; null for anonymous use
+  userId: string | null;
+  type: TranslationRecord['type'];
+  sourceLang: string;
+  targetLang: string;
+  // Length of the source text; 0 for files
+  characters: number;
+  durationMs: number;
+  // Shared by the segment requests of one document
+  documentId?: string;
+  status: 'success' | 'error';
+  // Why a failed translation failed
+  message?: string;
+}
+
 export interface AnalyticsData {
+  // Local dates (yyyy-mm-dd), inclusive
+  range: { from: string; to: string };
   totalTranslations: number;
+  // Characters of source text translated
+  charactersTranslated: number;
   languageDistribution: { name: string; value: number }[];
-  dailyActivity: { date: string; count: number }[];
-}
-
-export const LANGUAGES: Language[] = [
-  { code: 'en', name: 'English', flag: '🇺🇸' },
-  { code: 'ne', name: 'Nepali', flag: '🇳🇵' },
-  { code: 'si', name: 'Sinhala', flag: '🇱🇰' },
-  { code: 'es', name: 'Spanish', flag: '🇪🇸' },
-  { code: 'fr', name: 'French', flag: '🇫🇷' },
-  { code: 'de', name: 'German', flag: '🇩🇪' },
-  { code: 'zh', name: 'Chinese', flag: '🇨🇳' },
-  { code: 'ja', name: 'Japanese', flag: '🇯🇵' },
-];
\ No newline at end of file
+  dailyActivity: { date: string; count: number; characters: number }[];
+  // Source × target language names with their translation counts
+  languagePairs: { source: string; target: string; count: number }[];
+  byType: { type: TranslationRecord['type']; count: number; characters: number }[];
+  errorCount: number;
+  // Mean over translations that recorded a duration; null when none did
+  averageLatencyMs: number | null;
+  // Translations per [day of week, Sunday first][hour of day], local time
+  hourHeatmap: number[][];
+}
+
+export type ApiOperation =
+  | 'translate'
+  | 'translateStructured'
+  | 'translateDocument'
+  | 'translateUnits'
+  | 'translateFile'
+  | 'judgeQuality'
+  | 'detectLanguage'
+  | 'refine'
+  | 'insights'
+  | 'transcribe'
+  | 'speech';
+
+// One model call, logged by the server (see server/usage.ts)
+export interface ApiCall {
+  id: string;
+  timestamp: number;
+  operation: ApiOperation;
+  // Signed-in user who made the request; null for anonymous requests
+  userId: string | null;
+  // Provider name; the model is only known once the provider reports usage
+  provider: string;
+  model: string | null;
+  latencyMs: number;
+  inputTokens: number;
+  outputTokens: number;
+  // USD at the prices configured when the call was made; null for unpriced models
+  costUsd: number | null;
+  status: 'success' | 'error' | 'cancelled';
+  error?: string;
+}
+
+export interface ApiOperationStats {
+  operation: ApiOperation;
+  calls: number;
+  errors: number;
+  averageLatencyMs: number;
+  maxLatencyMs: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+export interface ApiUsageData {
+  range: { from: string; to: string };
+  calls: number;
+  errors: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  // Calls whose model has no price configured, so costUsd leaves them out
+  unpricedCalls: number;
+  averageLatencyMs: number | null;
+  daily: { date: string; calls: number; errors: number; tokens: number; costUsd: number }[];
+  byOperation: ApiOperationStats[];
+  byModel: { model: string; calls: number; inputTokens: number; outputTokens: number; costUsd: number }[];
+}
+
+// Built-in registry, used until the server's registry has loaded and to seed it.
+// Admins extend it on the Languages page; see services/languages.ts.
+export const DEFAULT_LANGUAGES: Language[] = [
+  { code: 'en', name: 'English', flag: '🇺🇸', script: 'Latn', direction: 'ltr', enabled: true },
+  { code: 'ne', name: 'Nepali', flag: '🇳🇵', script: 'Deva', direction: 'ltr', font: "'Noto Sans Devanagari', sans-serif", enabled: true },
+  { code: 'si', name: 'Sinhala', flag: '🇱🇰', script: 'Sinh', direction: 'ltr', font: "'Noto Sans Sinhala', sans-serif", enabled: true },
+  { code: 'es', name: 'Spanish', flag: '🇪🇸', script: 'Latn', direction: 'ltr', enabled: true },
+  { code: 'fr', name: 'French', flag: '🇫🇷', script: 'Latn', direction: 'ltr', enabled: true },
+  { code: 'de', name: 'German', flag: '🇩🇪', script: 'Latn', direction: 'ltr', enabled: true },
+  { code: 'zh', name: 'Chinese', flag: '🇨🇳', script: 'Hans', direction: 'ltr', font: "'Noto Sans SC', sans-serif", enabled: true },
+  { code: 'ja', name: 'Japanese', flag: '🇯🇵', script: 'Jpan', direction: 'ltr', font: "'Noto Sans JP', sans-serif", enabled: true },
+  { code: 'hi', name: 'Hindi', flag: '🇮🇳', script: 'Deva', direction: 'ltr', font: "'Noto Sans Devanagari', sans-serif", enabled: false },
+  { code: 'ta', name: 'Tamil', flag: '🇮🇳', script: 'Taml', direction: 'ltr', font: "'Noto Sans Tamil', sans-serif", enabled: false },
+  { code: 'ar', name: 'Arabic', flag: '🇸🇦', script: 'Arab', direction: 'rtl', font: "'Noto Naskh Arabic', serif", enabled: false },
+  { code: 'ur', name: 'Urdu', flag: '🇵🇰', script: 'Arab', direction: 'rtl', font: "'Noto Nastaliq Urdu', serif", enabled: false },
+];
+
+export const DEFAULT_PREFERENCES: UserPreferences = {
+  sourceLang: 'ne',
+  targetLang: 'en',
+  voice: 'Kore',
+  tmThreshold: 0.75,
+  qualityCheck: false,
+};
+
+// Prebuilt Gemini TTS voices
+export const VOICES = ['Kore', 'Puck', 'Charon', 'Fenrir', 'Aoede', 'Zephyr'];
@@ -8,11 +8,18 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          // xfwd passes the browser's address on, for the API's sign-in throttling
+          '/api': { target: `http://localhost:${env.API_PORT || 3001}`, xfwd: true },
+        },
       },
       plugins: [react()],
+      // harfbuzzjs (PDF export) loads its WebAssembly with top-level await, relative to its own module
+      build: { target: 'es2022' },
+      optimizeDeps: { exclude: ['harfbuzzjs'] },
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        // The browser only ever talks to our backend; API keys stay on the server.
+        'process.env.TRANSLATION_PROVIDER': JSON.stringify('proxy')
       },
       resolve: {
         alias: {